@@ -0,0 +1,605 @@
+/**
+ * SOP AST Layer - Shared TypeScript syntax tree helpers for validators
+ *
+ * Each file is parsed once with the TypeScript compiler API and cached on the
+ * ValidationContext. Validators use these helpers to inspect real call
+ * expressions, object literals, decorators and comments instead of scanning
+ * raw lines, so multi-line calls, comments and string literals no longer
+ * confuse the checks.
+ */
+
+import * as ts from 'typescript';
+import type { ValidationContext } from './validators';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PrismaCall {
+  /** Model accessor, e.g. `organizations` in prisma.organizations.findMany() */
+  model: string;
+
+  /** Prisma client method, e.g. `findMany` */
+  method: string;
+
+  /** The full call expression */
+  call: ts.CallExpression;
+
+  /** First argument when it is (or resolves to) an object literal */
+  args?: ts.ObjectLiteralExpression;
+
+  /** 1-based line of the call */
+  line: number;
+}
+
+export interface SourceComment {
+  /** Comment text including the // or block comment delimiters */
+  text: string;
+
+  /** 1-based line the comment starts on */
+  line: number;
+
+  /** 1-based line the comment ends on */
+  endLine: number;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Prefix used to reparse class-body fragments; kept on line 1 so line numbers don't shift */
+const FRAGMENT_PREFIX = 'class __Fragment { ';
+
+/**
+ * Parse a file. Content that is only a fragment of a class body (methods
+ * without their class, as in snippets and proposed edits) does not parse as
+ * a module, so it is reparsed inside a synthetic class when that produces
+ * fewer syntax errors.
+ */
+export function parseSource(file: string, content: string): ts.SourceFile {
+  const kind = file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, kind);
+
+  const errors = countParseErrors(sourceFile);
+  if (errors === 0) return sourceFile;
+
+  const fragment = ts.createSourceFile(
+    file, `${FRAGMENT_PREFIX}${content}\n}`, ts.ScriptTarget.Latest, true, kind
+  );
+  return countParseErrors(fragment) < errors ? fragment : sourceFile;
+}
+
+function countParseErrors(sourceFile: ts.SourceFile): number {
+  // parseDiagnostics is populated by createSourceFile but not part of the public typings
+  const diagnostics = (sourceFile as unknown as { parseDiagnostics?: ts.Diagnostic[] }).parseDiagnostics;
+  return diagnostics?.length ?? 0;
+}
+
+/**
+ * Get the parsed AST for a file in the context, parsing it on first access.
+ */
+export function getSourceFile(ctx: ValidationContext, file: string): ts.SourceFile {
+  if (!ctx.sourceFiles) {
+    ctx.sourceFiles = new Map();
+  }
+
+  let sourceFile = ctx.sourceFiles.get(file);
+  if (!sourceFile) {
+    sourceFile = parseSource(file, ctx.fileContents.get(file) ?? '');
+    ctx.sourceFiles.set(file, sourceFile);
+  }
+
+  return sourceFile;
+}
+
+// ============================================================================
+// TRAVERSAL
+// ============================================================================
+
+/**
+ * Visit every node below (and including) `node` in source order.
+ */
+export function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, child => walk(child, visit));
+}
+
+export function lineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+export function endLineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+}
+
+export function isFunctionLike(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return ts.isFunctionDeclaration(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node);
+}
+
+export function getEnclosingFunction(node: ts.Node): ts.FunctionLikeDeclaration | undefined {
+  let current = node.parent;
+  while (current) {
+    if (isFunctionLike(current)) return current;
+    current = current.parent;
+  }
+  return undefined;
+}
+
+/**
+ * The outermost function containing `node` (usually the class method), so
+ * callbacks and nested arrows are judged by the method they live in.
+ */
+export function getOutermostFunction(node: ts.Node): ts.FunctionLikeDeclaration | undefined {
+  let outermost: ts.FunctionLikeDeclaration | undefined;
+  let current = node.parent;
+  while (current) {
+    if (isFunctionLike(current)) outermost = current;
+    current = current.parent;
+  }
+  return outermost;
+}
+
+/**
+ * Name of a function-like node: declared name, or the variable/property it is
+ * assigned to for arrow functions and function expressions.
+ */
+export function getFunctionName(node: ts.FunctionLikeDeclaration): string | undefined {
+  if (node.name && (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name))) {
+    return node.name.text;
+  }
+  const parent = node.parent;
+  if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))) {
+    if (ts.isIdentifier(parent.name)) return parent.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Functions of a file that have a body, by name (see getFunctionName), so
+ * `this.helper()` and `helper()` calls can be followed within the file.
+ */
+export function collectFunctions(sourceFile: ts.SourceFile): Map<string, ts.FunctionLikeDeclaration> {
+  const functions = new Map<string, ts.FunctionLikeDeclaration>();
+  walk(sourceFile, node => {
+    if (!isFunctionLike(node) || !node.body) return;
+    const name = getFunctionName(node);
+    if (name) functions.set(name, node);
+  });
+  return functions;
+}
+
+/** The function a `this.helper()` or `helper()` call runs, from collectFunctions() */
+export function getLocalCallee(
+  call: ts.CallExpression,
+  functions: Map<string, ts.FunctionLikeDeclaration>
+): ts.FunctionLikeDeclaration | undefined {
+  const callee = getCalleeName(call) ?? '';
+  const method = callee.split('.').pop()!;
+  return callee === method || callee === `this.${method}` ? functions.get(method) : undefined;
+}
+
+const ITERATION_METHODS = new Set([
+  'forEach',
+  'map',
+  'flatMap',
+  'filter',
+  'reduce',
+  'some',
+  'every',
+  'find',
+]);
+
+/**
+ * Find the loop that encloses `node` within its function: a for/while/do
+ * statement, or a callback passed to an array iteration method.
+ */
+export function getEnclosingLoop(node: ts.Node): ts.Node | undefined {
+  let current = node.parent;
+  while (current) {
+    if (ts.isForStatement(current) ||
+        ts.isForOfStatement(current) ||
+        ts.isForInStatement(current) ||
+        ts.isWhileStatement(current) ||
+        ts.isDoStatement(current)) {
+      return current;
+    }
+
+    if (isFunctionLike(current)) {
+      const call = current.parent;
+      if (call && ts.isCallExpression(call) &&
+          ts.isPropertyAccessExpression(call.expression) &&
+          ITERATION_METHODS.has(call.expression.name.text)) {
+        return call;
+      }
+      return undefined;
+    }
+
+    current = current.parent;
+  }
+  return undefined;
+}
+
+/**
+ * The statements that run after the one containing `node`, in the same
+ * block (or file, or switch case) of the same function.
+ */
+export function getFollowingStatements(node: ts.Node): ts.Statement[] {
+  let current = node;
+  while (current.parent && !isFunctionLike(current.parent)) {
+    const parent = current.parent;
+    if (ts.isBlock(parent) || ts.isSourceFile(parent) || ts.isCaseClause(parent) || ts.isDefaultClause(parent)) {
+      return parent.statements.slice(parent.statements.indexOf(current as ts.Statement) + 1);
+    }
+    current = parent;
+  }
+  return [];
+}
+
+// ============================================================================
+// EXPRESSIONS
+// ============================================================================
+
+/**
+ * Strip parentheses, `as` casts, non-null assertions and `await`.
+ */
+export function unwrapExpression(expr: ts.Expression): ts.Expression {
+  let current = expr;
+  while (true) {
+    if (ts.isParenthesizedExpression(current) ||
+        ts.isAsExpression(current) ||
+        ts.isNonNullExpression(current) ||
+        ts.isSatisfiesExpression(current) ||
+        ts.isTypeAssertionExpression(current) ||
+        ts.isAwaitExpression(current)) {
+      current = current.expression;
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Dotted name of a call target, e.g. `this.logger.log` or `jwt.decode`.
+ * Returns undefined for computed or dynamic callees.
+ */
+export function getCalleeName(call: ts.CallExpression | ts.NewExpression): string | undefined {
+  return getDottedName(call.expression);
+}
+
+export function getDottedName(expr: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expr)) return expr.text;
+  if (expr.kind === ts.SyntaxKind.ThisKeyword) return 'this';
+  if (ts.isPropertyAccessExpression(expr)) {
+    const left = getDottedName(expr.expression);
+    return left ? `${left}.${expr.name.text}` : undefined;
+  }
+  return undefined;
+}
+
+export function getPropertyName(name: ts.PropertyName | ts.BindingName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  if (ts.isPrivateIdentifier(name)) return name.text;
+  return undefined;
+}
+
+/**
+ * Value of a named property in an object literal. Shorthand properties
+ * (`{ organization_id }`) return the identifier itself.
+ */
+export function getProperty(obj: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const prop of obj.properties) {
+    if (ts.isPropertyAssignment(prop) && getPropertyName(prop.name) === name) {
+      return prop.initializer;
+    }
+    if (ts.isShorthandPropertyAssignment(prop) && prop.name.text === name) {
+      return prop.name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve an expression to an object literal: either the literal itself or a
+ * local variable whose initializer is one.
+ */
+export function resolveObjectLiteral(expr: ts.Expression): ts.ObjectLiteralExpression | undefined {
+  const unwrapped = unwrapExpression(expr);
+  if (ts.isObjectLiteralExpression(unwrapped)) return unwrapped;
+
+  if (ts.isIdentifier(unwrapped)) {
+    const declaration = findLocalDeclaration(unwrapped);
+    if (declaration?.initializer) {
+      const init = unwrapExpression(declaration.initializer);
+      if (ts.isObjectLiteralExpression(init)) return init;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the variable declaration an identifier refers to, searching the
+ * enclosing functions and the source file. Only declarations that appear
+ * before the identifier are considered.
+ */
+export function findLocalDeclaration(identifier: ts.Identifier): ts.VariableDeclaration | undefined {
+  const name = identifier.text;
+  let scope: ts.Node | undefined = getEnclosingFunction(identifier) ?? identifier.getSourceFile();
+
+  while (scope) {
+    let found: ts.VariableDeclaration | undefined;
+    const search = (node: ts.Node) => {
+      if (node !== scope && isFunctionLike(node)) return;
+      if (ts.isVariableDeclaration(node) &&
+          ts.isIdentifier(node.name) &&
+          node.name.text === name &&
+          node.getEnd() <= identifier.getStart()) {
+        found = node;
+      }
+      ts.forEachChild(node, search);
+    };
+    search(scope);
+
+    if (found) return found;
+    scope = ts.isSourceFile(scope) ? undefined : (getEnclosingFunction(scope) ?? scope.getSourceFile());
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether an expression may contain the given property anywhere in its
+ * object structure. Spreads, function calls and other values that cannot be
+ * inspected statically count as "may contain" so callers only report when a
+ * property is definitely absent.
+ */
+export function mayHaveProperty(expr: ts.Expression, name: string): boolean {
+  const unwrapped = unwrapExpression(expr);
+
+  if (ts.isArrayLiteralExpression(unwrapped)) {
+    return unwrapped.elements.some(el => mayHaveProperty(el, name));
+  }
+
+  if (ts.isIdentifier(unwrapped)) {
+    const declaration = findLocalDeclaration(unwrapped);
+    if (!declaration?.initializer) return true;
+    if (isPropertyAssignedLater(unwrapped, name)) return true;
+    return mayHaveProperty(declaration.initializer, name);
+  }
+
+  if (!ts.isObjectLiteralExpression(unwrapped)) return true;
+
+  for (const prop of unwrapped.properties) {
+    if (ts.isSpreadAssignment(prop)) return true;
+    if (ts.isShorthandPropertyAssignment(prop)) {
+      if (prop.name.text === name) return true;
+      continue;
+    }
+    if (ts.isPropertyAssignment(prop)) {
+      const propName = getPropertyName(prop.name);
+      if (propName === undefined || propName === name) return true;
+      const value = unwrapExpression(prop.initializer);
+      if ((ts.isObjectLiteralExpression(value) || ts.isArrayLiteralExpression(value)) &&
+          mayHaveProperty(value, name)) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Like mayHaveProperty(), but only looks at the top level of the object, so
+ * e.g. an `orderBy` inside a nested `include` does not count.
+ */
+export function mayHaveOwnProperty(obj: ts.ObjectLiteralExpression, name: string): boolean {
+  return obj.properties.some(prop => {
+    if (ts.isSpreadAssignment(prop)) return true;
+    if (ts.isShorthandPropertyAssignment(prop)) return prop.name.text === name;
+    if (ts.isPropertyAssignment(prop) || ts.isMethodDeclaration(prop)) {
+      const propName = getPropertyName(prop.name);
+      return propName === undefined || propName === name;
+    }
+    return false;
+  });
+}
+
+/**
+ * Whether any identifier inside `node` matches the pattern. String literal
+ * contents are ignored, so `'Token refreshed'` does not match /token/i.
+ */
+export function referencesIdentifier(node: ts.Node, pattern: RegExp): boolean {
+  let found = false;
+  walk(node, child => {
+    if (!found && ts.isIdentifier(child) && pattern.test(child.text)) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * Whether a value is checked where it appears: negated (`!x`), compared
+ * (`x === undefined`), defaulted (`x ?? y`, `x || y`) or used as a
+ * condition (`if (x)`, `x ? a : b`, `x && y`).
+ */
+export function isCheckedValue(expr: ts.Expression): boolean {
+  let node: ts.Node = expr;
+  while (ts.isParenthesizedExpression(node.parent) || ts.isAsExpression(node.parent) ||
+         ts.isNonNullExpression(node.parent)) {
+    node = node.parent;
+  }
+  const parent = node.parent;
+
+  if (ts.isPrefixUnaryExpression(parent)) return parent.operator === ts.SyntaxKind.ExclamationToken;
+  if (ts.isBinaryExpression(parent)) {
+    switch (parent.operatorToken.kind) {
+      case ts.SyntaxKind.QuestionQuestionToken:
+      case ts.SyntaxKind.BarBarToken:
+        return parent.left === node;
+      case ts.SyntaxKind.AmpersandAmpersandToken:
+      case ts.SyntaxKind.EqualsEqualsEqualsToken:
+      case ts.SyntaxKind.ExclamationEqualsEqualsToken:
+      case ts.SyntaxKind.EqualsEqualsToken:
+      case ts.SyntaxKind.ExclamationEqualsToken:
+        return true;
+    }
+    return false;
+  }
+  if (ts.isIfStatement(parent) || ts.isWhileStatement(parent) || ts.isConditionalExpression(parent)) {
+    return (ts.isConditionalExpression(parent) ? parent.condition : parent.expression) === node;
+  }
+  return false;
+}
+
+/** Whether `scope` checks the value written `text` (`apiKey`, `this.apiKey`) anywhere; see isCheckedValue */
+export function checksValue(scope: ts.Node, text: string): boolean {
+  let found = false;
+  walk(scope, node => {
+    if (found || !(ts.isIdentifier(node) || ts.isPropertyAccessExpression(node))) return;
+    if (ts.isIdentifier(node) && ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) return;
+    if (node.getText() === text && isCheckedValue(node)) found = true;
+  });
+  return found;
+}
+
+/**
+ * Whether `<identifier>.<name> = ...` or `<identifier>['<name>'] = ...`
+ * appears in the same function as the identifier.
+ */
+function isPropertyAssignedLater(identifier: ts.Identifier, name: string): boolean {
+  const scope = getEnclosingFunction(identifier) ?? identifier.getSourceFile();
+  let assigned = false;
+
+  walk(scope, node => {
+    if (assigned || !ts.isBinaryExpression(node) || node.operatorToken.kind !== ts.SyntaxKind.EqualsToken) {
+      return;
+    }
+    const target = node.left;
+    if (ts.isPropertyAccessExpression(target) &&
+        ts.isIdentifier(target.expression) &&
+        target.expression.text === identifier.text &&
+        target.name.text === name) {
+      assigned = true;
+    }
+    if (ts.isElementAccessExpression(target) &&
+        ts.isIdentifier(target.expression) &&
+        target.expression.text === identifier.text &&
+        ts.isStringLiteral(target.argumentExpression) &&
+        target.argumentExpression.text === name) {
+      assigned = true;
+    }
+  });
+
+  return assigned;
+}
+
+// ============================================================================
+// PRISMA
+// ============================================================================
+
+function isPrismaClient(expr: ts.Expression): boolean {
+  if (ts.isIdentifier(expr)) return expr.text === 'prisma';
+  if (ts.isPropertyAccessExpression(expr)) return expr.name.text === 'prisma';
+  return false;
+}
+
+/**
+ * Find all `prisma.<model>.<method>(...)` calls, including `this.prisma`.
+ */
+export function findPrismaCalls(sourceFile: ts.SourceFile): PrismaCall[] {
+  const calls: PrismaCall[] = [];
+
+  walk(sourceFile, node => {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return;
+
+    const methodAccess = node.expression;
+    const modelAccess = methodAccess.expression;
+    if (!ts.isPropertyAccessExpression(modelAccess) || !isPrismaClient(modelAccess.expression)) return;
+
+    const model = modelAccess.name.text;
+    if (model.startsWith('$')) return;
+
+    const firstArg = node.arguments[0];
+    calls.push({
+      model,
+      method: methodAccess.name.text,
+      call: node,
+      args: firstArg ? resolveObjectLiteral(firstArg) : undefined,
+      line: lineOf(sourceFile, node),
+    });
+  });
+
+  return calls;
+}
+
+// ============================================================================
+// DECORATORS
+// ============================================================================
+
+export function getDecorators(node: ts.Node): readonly ts.Decorator[] {
+  return ts.canHaveDecorators(node) ? ts.getDecorators(node) ?? [] : [];
+}
+
+/**
+ * Name of a decorator: `UseGuards` for `@UseGuards(JwtAuthGuard)`.
+ */
+export function getDecoratorName(decorator: ts.Decorator): string | undefined {
+  const expr = decorator.expression;
+  if (ts.isCallExpression(expr)) return getDottedName(expr.expression);
+  return getDottedName(expr);
+}
+
+export function getDecoratorArguments(decorator: ts.Decorator): readonly ts.Expression[] {
+  return ts.isCallExpression(decorator.expression) ? decorator.expression.arguments : [];
+}
+
+export function hasDecorator(node: ts.Node, name: string): boolean {
+  return getDecorators(node).some(d => getDecoratorName(d) === name);
+}
+
+// ============================================================================
+// COMMENTS
+// ============================================================================
+
+/**
+ * All comments in a file, in source order. Comments inside string and
+ * template literals are not included.
+ */
+export function getComments(sourceFile: ts.SourceFile): SourceComment[] {
+  const text = sourceFile.getFullText();
+  const seen = new Set<number>();
+  const comments: SourceComment[] = [];
+
+  const collect = (ranges: ts.CommentRange[] | undefined) => {
+    for (const range of ranges ?? []) {
+      if (seen.has(range.pos)) continue;
+      seen.add(range.pos);
+      comments.push({
+        text: text.substring(range.pos, range.end),
+        line: sourceFile.getLineAndCharacterOfPosition(range.pos).line + 1,
+        endLine: sourceFile.getLineAndCharacterOfPosition(range.end).line + 1,
+      });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    collect(ts.getLeadingCommentRanges(text, node.getFullStart()));
+    collect(ts.getTrailingCommentRanges(text, node.getEnd()));
+    for (const child of node.getChildren(sourceFile)) {
+      visit(child);
+    }
+  };
+
+  visit(sourceFile);
+  return comments.sort((a, b) => a.line - b.line);
+}
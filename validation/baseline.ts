@@ -0,0 +1,204 @@
+/**
+ * SOP Baseline - Grandfather existing violations
+ *
+ * A baseline is a checked-in JSON file listing the violations a codebase
+ * already had when sop-validate was adopted. Baselined violations are still
+ * reported, as pre-existing, but no longer gate the run, so only new ones
+ * fail it. Entries are matched by rule, file and a fingerprint of the
+ * offending line's content rather than its line number, so they survive
+ * unrelated edits that shift code up or down.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ValidationResult, Violation } from './validators';
+import { partitionResult } from './diff-filter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BaselineEntry {
+  /** Metric that reported the violation, e.g. `prisma-query-compliance` */
+  metric: string;
+
+  rule: string;
+
+  /** Path relative to the baseline file's directory, with forward slashes */
+  file: string;
+
+  /** Hash of the rule and the normalized content of the offending line */
+  fingerprint: string;
+
+  /** Message at the time the entry was recorded, for reviewers */
+  message: string;
+}
+
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Where a baseline lives and how to resolve the file keys of the
+ * ValidationContext (which may be relative to a target dir or the git root).
+ */
+export interface BaselineLocation {
+  baselinePath: string;
+  baseDir: string;
+}
+
+export interface BaselineOutcome {
+  results: ValidationResult[];
+
+  /** Violations matched by a baseline entry */
+  suppressed: number;
+
+  /** Entries for analyzed files and metrics that no longer occur */
+  stale: BaselineEntry[];
+}
+
+export const DEFAULT_BASELINE_FILE = '.sop-baseline.json';
+
+// ============================================================================
+// FINGERPRINTS
+// ============================================================================
+
+export function fingerprint(rule: string, lineText: string): string {
+  const normalized = lineText.trim().replace(/\s+/g, ' ');
+  return crypto.createHash('sha1').update(`${rule}\n${normalized}`).digest('hex').slice(0, 16);
+}
+
+function baselinePathOf(file: string, location: BaselineLocation): string {
+  const absolute = path.resolve(location.baseDir, file);
+  return path.relative(path.dirname(path.resolve(location.baselinePath)), absolute).split(path.sep).join('/');
+}
+
+function entryKey(entry: Pick<BaselineEntry, 'metric' | 'rule' | 'file' | 'fingerprint'>): string {
+  return `${entry.metric}|${entry.rule}|${entry.file}|${entry.fingerprint}`;
+}
+
+function toEntry(
+  metric: string,
+  violation: Violation,
+  fileContents: Map<string, string>,
+  location: BaselineLocation
+): BaselineEntry {
+  const lines = (fileContents.get(violation.file) ?? '').split('\n');
+  return {
+    metric,
+    rule: violation.rule,
+    file: baselinePathOf(violation.file, location),
+    fingerprint: fingerprint(violation.rule, lines[violation.line - 1] ?? ''),
+    message: violation.message,
+  };
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+export function createBaseline(
+  results: ValidationResult[],
+  fileContents: Map<string, string>,
+  location: BaselineLocation
+): Baseline {
+  const entries: BaselineEntry[] = [];
+
+  for (const result of results) {
+    for (const v of result.violations) {
+      entries.push(toEntry(result.metric, v, fileContents, location));
+    }
+  }
+
+  // Stable order keeps baseline diffs reviewable
+  entries.sort((a, b) => entryKey(a).localeCompare(entryKey(b)));
+
+  return { version: 1, createdAt: new Date().toISOString(), entries };
+}
+
+export function loadBaseline(baselinePath: string): Baseline {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+  } catch (e: any) {
+    throw new Error(`Could not read baseline ${baselinePath}: ${e.message}`);
+  }
+
+  if (data?.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error(`Invalid baseline ${baselinePath}: expected { "version": 1, "entries": [...] }`);
+  }
+
+  return data as Baseline;
+}
+
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n');
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Move baselined violations into each result's pre-existing findings and
+ * collect the entries that no longer match anything. Each entry absorbs at
+ * most one violation, so a second copy of a baselined line is still new.
+ */
+export function applyBaseline(
+  results: ValidationResult[],
+  baseline: Baseline,
+  fileContents: Map<string, string>,
+  location: BaselineLocation
+): BaselineOutcome {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.entries) {
+    const key = entryKey(entry);
+    remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+  }
+
+  let suppressed = 0;
+  const filtered = results.map(result =>
+    partitionResult(result, finding => {
+      if (!('severity' in finding)) return true;
+
+      const matches = remaining.get(entryKey(toEntry(result.metric, finding, fileContents, location)));
+      if (!matches || matches.length === 0) return true;
+
+      matches.pop();
+      suppressed++;
+      return false;
+    })
+  );
+
+  // Only entries this run could have matched are stale
+  const analyzedFiles = new Set([...fileContents.keys()].map(f => baselinePathOf(f, location)));
+  const analyzedMetrics = new Set(results.map(r => r.metric));
+  const stale = [...remaining.values()]
+    .flat()
+    .filter(e => analyzedFiles.has(e.file) && analyzedMetrics.has(e.metric));
+
+  return { results: filtered, suppressed, stale };
+}
+
+/**
+ * Drop stale entries from a baseline. Entries are removed one for one, so
+ * duplicate fingerprints only lose the copies that went away.
+ */
+export function pruneBaseline(baseline: Baseline, stale: BaselineEntry[]): Baseline {
+  const toRemove = new Map<string, number>();
+  for (const entry of stale) {
+    toRemove.set(entryKey(entry), (toRemove.get(entryKey(entry)) ?? 0) + 1);
+  }
+
+  const entries = baseline.entries.filter(entry => {
+    const count = toRemove.get(entryKey(entry)) ?? 0;
+    if (count === 0) return true;
+    toRemove.set(entryKey(entry), count - 1);
+    return false;
+  });
+
+  return { ...baseline, entries };
+}
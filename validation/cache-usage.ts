@@ -0,0 +1,352 @@
+/**
+ * SOP Cache Usage - Cache keys and invalidation of a service
+ *
+ * Finds the cache calls of a file (cacheManager.get/set/del/wrap/reset and
+ * the same on cache, cacheService or redis) and reconstructs each key from
+ * its expression: string literals, template literals, concatenation,
+ * `[...].join()`, local constants and key helpers of the same file
+ * (`this.usersKey(orgId)`) are followed, so
+ *
+ *   const key = this.listKey(user.organization_id);   // `org:${orgId}:users`
+ *
+ * is known to contain the organization. A key built from a parameter of the
+ * enclosing method (a caching wrapper) is resolved at each call of that
+ * method in the file.
+ *
+ * For invalidation, it records which Prisma models the cached values are
+ * read from, and which functions delete cache entries, so the
+ * cache-isolation validator (validators.ts) can report mutations of cached
+ * data that nothing invalidates.
+ */
+
+import * as ts from 'typescript';
+import {
+  walk,
+  lineOf,
+  unwrapExpression,
+  getCalleeName,
+  getDottedName,
+  getEnclosingFunction,
+  getOutermostFunction,
+  findLocalDeclaration,
+  findPrismaCalls,
+  collectFunctions,
+  getLocalCallee,
+  PrismaCall,
+} from './ast';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One piece of a key: literal text, a named value (`orgId`,
+ * `user.organization_id`), a value that can't be named (`JSON.stringify(f)`),
+ * or a parameter of the method the key is built in.
+ */
+export type KeyPart =
+  | { kind: 'literal'; text: string }
+  | { kind: 'value'; name: string }
+  | { kind: 'opaque'; text: string }
+  | { kind: 'param'; name: string; index: number };
+
+export interface CacheKey {
+  parts: KeyPart[];
+
+  /** Line the key is judged at: the cache call, or the wrapper call it came through */
+  line: number;
+
+  /** Function the key's values come from, for scope checks */
+  scope: ts.FunctionLikeDeclaration;
+}
+
+export interface CacheAccess {
+  operation: 'get' | 'set' | 'del' | 'wrap' | 'reset';
+  call: ts.CallExpression;
+  line: number;
+
+  /** Key variants (one per wrapper call site); empty for reset() */
+  keys: CacheKey[];
+
+  /** Method the call is in */
+  method?: ts.FunctionLikeDeclaration;
+}
+
+export interface CacheUsage {
+  accesses: CacheAccess[];
+
+  /** Cached models with the accesses that store them */
+  cachedModels: Map<string, CacheAccess[]>;
+
+  /** Functions that delete cache entries themselves */
+  invalidators: Set<ts.FunctionLikeDeclaration>;
+
+  /** Prisma mutations of the file */
+  mutations: PrismaCall[];
+  functions: Map<string, ts.FunctionLikeDeclaration>;
+}
+
+const CACHE_CLIENT = /^(this\.)?(cache|cacheManager|cacheService|redis)$/;
+const CACHE_OPERATIONS: Record<string, CacheAccess['operation']> = {
+  get: 'get',
+  set: 'set',
+  del: 'del',
+  wrap: 'wrap',
+  reset: 'reset',
+  mdel: 'del',
+};
+
+/** Helpers that invalidate: invalidateUsersCache(), evictOrg(), clearCache(), ... */
+const INVALIDATION_CALL = /^(invalidate|evict|bust|purge|clear\w*Cache)/i;
+
+const ORG_COMPONENT = /org|organization|tenant/i;
+const TEAM_COMPONENT = /team/i;
+
+const MUTATIONS = ['create', 'createMany', 'update', 'updateMany', 'upsert', 'delete', 'deleteMany'];
+const READS = ['findFirst', 'findFirstOrThrow', 'findUnique', 'findUniqueOrThrow', 'findMany', 'count', 'aggregate', 'groupBy'];
+
+/** How deep key helpers and same-file calls are followed */
+const MAX_DEPTH = 4;
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Parts of a key expression. Parameters of `fn` stay as 'param' parts for
+ * the caller to substitute.
+ */
+function keyParts(
+  expr: ts.Expression,
+  fn: ts.FunctionLikeDeclaration | undefined,
+  functions: Map<string, ts.FunctionLikeDeclaration>,
+  depth = 0
+): KeyPart[] {
+  const node = unwrapExpression(expr);
+  const sourceFile = node.getSourceFile();
+  const opaque = (): KeyPart[] => [{ kind: 'opaque', text: node.getText(sourceFile) }];
+  if (depth > MAX_DEPTH) return opaque();
+
+  if (ts.isStringLiteralLike(node)) return [{ kind: 'literal', text: node.text }];
+  if (ts.isNumericLiteral(node)) return [{ kind: 'literal', text: node.text }];
+
+  if (ts.isTemplateExpression(node)) {
+    return [
+      { kind: 'literal', text: node.head.text },
+      ...node.templateSpans.flatMap(span => [
+        ...keyParts(span.expression, fn, functions, depth),
+        { kind: 'literal' as const, text: span.literal.text },
+      ]),
+    ];
+  }
+
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return [...keyParts(node.left, fn, functions, depth), ...keyParts(node.right, fn, functions, depth)];
+  }
+
+  if (ts.isIdentifier(node)) {
+    const index = fn?.parameters.findIndex(param => ts.isIdentifier(param.name) && param.name.text === node.text) ?? -1;
+    if (index >= 0) return [{ kind: 'param', name: node.text, index }];
+
+    const declaration = findLocalDeclaration(node);
+    const isConst = declaration && ts.isVariableDeclarationList(declaration.parent) &&
+      (declaration.parent.flags & ts.NodeFlags.Const) !== 0;
+    if (isConst && declaration.initializer) return keyParts(declaration.initializer, fn, functions, depth + 1);
+    return [{ kind: 'value', name: node.text }];
+  }
+
+  if (ts.isPropertyAccessExpression(node)) {
+    const name = getDottedName(node);
+    return name ? [{ kind: 'value', name }] : opaque();
+  }
+
+  if (!ts.isCallExpression(node)) return opaque();
+
+  // [prefix, orgId, id].join(':')
+  if (ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === 'join' &&
+      ts.isArrayLiteralExpression(unwrapExpression(node.expression.expression))) {
+    const elements = (unwrapExpression(node.expression.expression) as ts.ArrayLiteralExpression).elements;
+    return elements.flatMap(el => keyParts(el, fn, functions, depth));
+  }
+
+  // Key helper of the same file: substitute its parameters with the arguments
+  const helper = getLocalCallee(node, functions);
+  const returned = helper && returnedExpression(helper);
+  if (!helper || !returned) return opaque();
+  return keyParts(returned, helper, functions, depth + 1).flatMap(part => {
+    if (part.kind !== 'param') return [part];
+    const arg = node.arguments[part.index];
+    return arg ? keyParts(arg, fn, functions, depth + 1) : [];
+  });
+}
+
+/** The single returned expression of a key helper */
+function returnedExpression(fn: ts.FunctionLikeDeclaration): ts.Expression | undefined {
+  if (fn.body && !ts.isBlock(fn.body)) return fn.body;
+  const returns = fn.body ? fn.body.statements.filter(ts.isReturnStatement) : [];
+  return returns.length === 1 ? returns[0].expression : undefined;
+}
+
+export function formatKey(parts: KeyPart[]): string {
+  return parts.map(part => {
+    if (part.kind === 'literal') return part.text;
+    if (part.kind === 'opaque') return `\${${part.text}}`;
+    return `\${${part.name}}`;
+  }).join('');
+}
+
+/**
+ * Whether a named value of the key matches: `orgId`, `user.organization_id`.
+ * Fixed text (`'organizations:all'`) and values that can't be named don't
+ * scope a key, whatever they say.
+ */
+function mentions(parts: KeyPart[], pattern: RegExp): boolean {
+  return parts.some(part => (part.kind === 'value' || part.kind === 'param') && pattern.test(part.name));
+}
+
+export function hasOrgComponent(parts: KeyPart[]): boolean {
+  return mentions(parts, ORG_COMPONENT);
+}
+
+export function hasTeamComponent(parts: KeyPart[]): boolean {
+  return mentions(parts, TEAM_COMPONENT);
+}
+
+/** Whether the key has parts whose value can't be told */
+export function isOpaque(parts: KeyPart[]): boolean {
+  return parts.some(part => part.kind === 'opaque' || part.kind === 'param');
+}
+
+/** Whether a function handles team-scoped data: it refers to a team id */
+export function usesTeamId(fn: ts.Node): boolean {
+  let found = false;
+  walk(fn, node => {
+    if (!found && ts.isIdentifier(node) && /^team_?id$/i.test(node.text)) found = true;
+  });
+  return found;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/** Functions reachable from `fn` through this.helper() / helper() calls, `fn` included */
+export function reachableFunctions(
+  fn: ts.FunctionLikeDeclaration,
+  functions: Map<string, ts.FunctionLikeDeclaration>
+): Set<ts.FunctionLikeDeclaration> {
+  const reached = new Set<ts.FunctionLikeDeclaration>([fn]);
+  const queue = [fn];
+  while (queue.length > 0) {
+    walk(queue.shift()!, node => {
+      if (!ts.isCallExpression(node)) return;
+      const callee = getLocalCallee(node, functions);
+      if (callee && !reached.has(callee)) {
+        reached.add(callee);
+        queue.push(callee);
+      }
+    });
+  }
+  return reached;
+}
+
+/**
+ * Parameters that aren't followed further: a key passed in (`key`,
+ * `cacheKey`) is unknown, other parameters are named values.
+ */
+function nameParams(parts: KeyPart[]): KeyPart[] {
+  return parts.map(part => {
+    if (part.kind !== 'param') return part;
+    return /key/i.test(part.name) ? { kind: 'opaque', text: part.name } : { kind: 'value', name: part.name };
+  });
+}
+
+/** Keys of an access, resolving wrapper parameters at each call of the wrapper */
+function resolveKeys(
+  expr: ts.Expression,
+  access: { line: number; method?: ts.FunctionLikeDeclaration },
+  functions: Map<string, ts.FunctionLikeDeclaration>,
+  sourceFile: ts.SourceFile
+): CacheKey[] {
+  const enclosing = getEnclosingFunction(expr);
+  const parts = keyParts(expr, enclosing, functions);
+  const scope = enclosing ?? access.method;
+  if (!parts.some(part => part.kind === 'param') || !enclosing) {
+    return scope ? [{ parts, line: access.line, scope }] : [];
+  }
+
+  const calls: ts.CallExpression[] = [];
+  walk(sourceFile, node => {
+    if (ts.isCallExpression(node) && getLocalCallee(node, functions) === enclosing) calls.push(node);
+  });
+  if (calls.length === 0) return [{ parts: nameParams(parts), line: access.line, scope: enclosing }];
+
+  return calls.map(call => {
+    const callerScope = getEnclosingFunction(call) ?? enclosing;
+    return {
+      parts: nameParams(parts.flatMap(part => {
+        if (part.kind !== 'param') return [part];
+        const arg = call.arguments[part.index];
+        return arg ? keyParts(arg, callerScope, functions) : [];
+      })),
+      line: lineOf(sourceFile, call),
+      scope: callerScope,
+    };
+  });
+}
+
+export function analyzeCacheUsage(sourceFile: ts.SourceFile): CacheUsage {
+  const functions = collectFunctions(sourceFile);
+  const accesses: CacheAccess[] = [];
+
+  walk(sourceFile, node => {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return;
+    const client = getDottedName(node.expression.expression) ?? '';
+    const operation = CACHE_OPERATIONS[node.expression.name.text];
+    if (!operation || !CACHE_CLIENT.test(client)) return;
+
+    const line = lineOf(sourceFile, node);
+    const method = getOutermostFunction(node);
+    const keys = operation !== 'reset' && node.arguments[0]
+      ? resolveKeys(node.arguments[0], { line, method }, functions, sourceFile)
+      : [];
+    accesses.push({ operation, call: node, line, keys, method });
+  });
+
+  const prismaCalls = findPrismaCalls(sourceFile);
+  const readsIn = (fn: ts.FunctionLikeDeclaration) => {
+    const reached = reachableFunctions(fn, functions);
+    return prismaCalls
+      .filter(call => READS.includes(call.method) &&
+        Array.from(reached).some(f => call.call.pos >= f.pos && call.call.end <= f.end))
+      .map(call => call.model);
+  };
+
+  // A value stored with set()/wrap() comes from the reads of the method storing it
+  const cachedModels = new Map<string, CacheAccess[]>();
+  for (const access of accesses) {
+    if ((access.operation !== 'set' && access.operation !== 'wrap') || !access.method) continue;
+    for (const model of readsIn(access.method)) {
+      cachedModels.set(model, [...(cachedModels.get(model) ?? []), access]);
+    }
+  }
+
+  const invalidators = new Set<ts.FunctionLikeDeclaration>();
+  for (const access of accesses) {
+    if ((access.operation === 'del' || access.operation === 'reset') && access.method) invalidators.add(access.method);
+  }
+  walk(sourceFile, node => {
+    if (!ts.isCallExpression(node)) return;
+    const name = (getCalleeName(node) ?? '').split('.').pop()!;
+    const fn = getOutermostFunction(node);
+    if (fn && INVALIDATION_CALL.test(name) && !getLocalCallee(node, functions)) invalidators.add(fn);
+  });
+
+  return {
+    accesses,
+    cachedModels,
+    invalidators,
+    mutations: prismaCalls.filter(call => MUTATIONS.includes(call.method)),
+    functions,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * SOP Cache - Per-file findings reused across runs
+ *
+ * Validators' per-file results (see parallel.ts) are stored on disk, by
+ * default in node_modules/.cache/sop-validate, keyed by the file's content
+ * hash. A cache file belongs to one target dir and records the validator
+ * code and effective config it was computed with; if either changed, every
+ * entry is discarded. A file whose content hash matches and that has results
+ * for every validator being run is not validated at all. Runs over the whole
+ * target dir drop the entries of files that no longer exist.
+ *
+ * Only validators with a scorer are cached, since only their per-file
+ * results can be merged back into a whole-run result.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as ts from 'typescript';
+import { validators, scorers, ValidatorName, ValidationContext, ValidationResult } from './validators';
+import { runValidatorsPerFile, mergeFileResults } from './parallel';
+import { ResolvedConfig } from './config';
+import { loadedPlugins } from './plugins';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CacheStats {
+  /** Files whose results all came from the cache */
+  hits: number;
+
+  /** Files that were validated */
+  misses: number;
+
+  /** Cache file read and written */
+  cacheFile: string;
+}
+
+interface CacheEntry {
+  /** Hash of the file content the results were computed from */
+  hash: string;
+  results: Partial<Record<ValidatorName, ValidationResult>>;
+}
+
+interface CacheFile {
+  version: 1;
+
+  /** Hash of the validator code and the effective config */
+  key: string;
+  files: Record<string, CacheEntry>;
+}
+
+/** Modules whose code determines the validators' findings */
+const VALIDATOR_MODULES = ['./validators', './general-practices-validator', './ast', './routes', './jwt-verification', './taint', './cache-usage'];
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+function hash(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+/**
+ * Version of the rule set: a hash of the validator modules' and plugins'
+ * code and the TypeScript version parsing the files, so any change to either
+ * invalidates the cache without a hand-maintained version number.
+ */
+export function rulesetVersion(): string {
+  const modules = [...VALIDATOR_MODULES.map(module => require.resolve(module)), ...loadedPlugins()];
+  const sources = modules.map(module => fs.readFileSync(module, 'utf-8'));
+  return hash([ts.version, ...sources].join('\0'));
+}
+
+/**
+ * Default cache dir: node_modules/.cache/sop-validate in the nearest
+ * directory with node_modules, or the OS temp dir.
+ */
+export function defaultCacheDir(startDir: string = process.cwd()): string {
+  let dir = path.resolve(startDir);
+  while (true) {
+    if (fs.existsSync(path.join(dir, 'node_modules'))) {
+      return path.join(dir, 'node_modules', '.cache', 'sop-validate');
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.join(os.tmpdir(), 'sop-validate');
+    dir = parent;
+  }
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+function readCacheFile(cacheFile: string, key: string): CacheFile {
+  try {
+    const data = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+    if (data?.version === 1 && data.key === key && typeof data.files === 'object') {
+      return data as CacheFile;
+    }
+  } catch {
+    // Missing or unreadable: start over
+  }
+  return { version: 1, key, files: {} };
+}
+
+/** Write through a temp file so concurrent runs never read a partial cache */
+function writeCacheFile(cacheFile: string, data: CacheFile): void {
+  fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+  const tempFile = `${cacheFile}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(data));
+  fs.renameSync(tempFile, cacheFile);
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+/**
+ * Run validators like runValidators, taking per-file results from the cache
+ * where the content is unchanged and storing the rest. With `wholeDirectory`
+ * (ctx.files is every file of the target dir), entries of other files are
+ * pruned.
+ */
+export function runValidatorsCached(
+  names: ValidatorName[],
+  ctx: ValidationContext,
+  options: { cacheDir: string; targetDir: string; config: ResolvedConfig; jobs?: number; wholeDirectory?: boolean }
+): { results: ValidationResult[]; stats: CacheStats } {
+  const cacheFile = path.join(options.cacheDir, `${hash(path.resolve(options.targetDir)).slice(0, 16)}.json`);
+  const key = hash(`${rulesetVersion()}\0${JSON.stringify(options.config)}`);
+  const cache = readCacheFile(cacheFile, key);
+
+  const cached = names.filter(name => scorers[name]);
+  const hashes = new Map(ctx.files.map(file => [file, hash(ctx.fileContents.get(file) ?? '')]));
+  const misses = ctx.files.filter(file => {
+    const entry = cache.files[file];
+    return entry?.hash !== hashes.get(file) || cached.some(name => !entry.results[name]);
+  });
+
+  // Validate only the files that missed, then store their results
+  const missCtx: ValidationContext = {
+    ...ctx,
+    files: misses,
+    fileContents: new Map(misses.map(file => [file, ctx.fileContents.get(file) ?? ''])),
+  };
+  const fresh = misses.length > 0 ? runValidatorsPerFile(cached, missCtx, options.jobs) : [];
+  misses.forEach((file, i) => {
+    const entry = cache.files[file];
+    const results = entry?.hash === hashes.get(file) ? entry.results : {};
+    cached.forEach((name, n) => { results[name] = fresh[n][i]; });
+    cache.files[file] = { hash: hashes.get(file)!, results };
+  });
+
+  const stale = options.wholeDirectory ? Object.keys(cache.files).filter(file => !hashes.has(file)) : [];
+  stale.forEach(file => delete cache.files[file]);
+
+  if (misses.length > 0 || stale.length > 0) writeCacheFile(cacheFile, cache);
+
+  const results = names.map(name => scorers[name]
+    ? mergeFileResults(name, ctx.files.map(file => cache.files[file].results[name]!))
+    : validators[name](ctx));
+
+  return {
+    results,
+    stats: { hits: ctx.files.length - misses.length, misses: misses.length, cacheFile },
+  };
+}
@@ -10,20 +10,9 @@
  *   - Claude should fix violations before presenting code to user
  */
 
-import {
-  validators,
-  ValidatorName,
-  ValidationResult,
-  ValidationContext,
-  Violation,
-  Warning,
-} from './validators';
-import {
-  METRIC_DEFINITIONS,
-  getBlockingMetrics,
-  evaluateGating,
-  DEFAULT_GATING_CONFIG,
-} from './metrics-config';
+import { ValidatorName } from './validators';
+import { runEngine, isBlockingViolation } from './engine';
+import { getPluginValidators } from './plugins';
 
 // ============================================================================
 // TYPES
@@ -99,7 +88,13 @@ export interface SuggestedFix {
 // VALIDATOR SELECTION
 // ============================================================================
 
-function selectValidatorsForFile(filename: string): ValidatorName[] {
+/**
+ * Validators relevant to a file, by its kind (service, controller, DTO, ...).
+ * Also used by watch mode to revalidate changed files. Never includes
+ * route-authorization: a single file doesn't show a route's global and
+ * module guards, so watch mode runs it over all files instead.
+ */
+export function selectValidatorsForFile(filename: string): ValidatorName[] {
   const validators: ValidatorName[] = [];
 
   // Service files - check most rules
@@ -110,6 +105,7 @@ function selectValidatorsForFile(filename: string): ValidatorName[] {
       'prisma-queries',
       'transactions',
       'tenant-isolation',
+      'cache-isolation',
       'code-safety',
       'external-services',
       'code-quality'
@@ -151,8 +147,8 @@ function selectValidatorsForFile(filename: string): ValidatorName[] {
     );
   }
 
-  // Guard files - check auth patterns
-  if (filename.includes('guard')) {
+  // Guard and passport strategy files - check auth patterns
+  if (filename.includes('guard') || filename.includes('strategy')) {
     validators.push('supabase-auth', 'code-quality');
   }
 
@@ -165,6 +161,9 @@ function selectValidatorsForFile(filename: string): ValidatorName[] {
     );
   }
 
+  // Plugin validators and general best practices apply to every file
+  validators.push(...getPluginValidators(), 'general-practices');
+
   return [...new Set(validators)]; // Deduplicate
 }
 
@@ -178,29 +177,16 @@ export function validateClaudeCode(input: ClaudeCodeInput): ClaudeValidationResu
   // Determine which validators to run
   const validatorsToRun = specifiedValidators || selectValidatorsForFile(filename);
 
-  // Create validation context
-  const ctx: ValidationContext = {
-    files: [filename],
-    fileContents: new Map([[filename, code]]),
-  };
+  const engineSummary = runEngine({
+    files: new Map([[filename, code]]),
+    validators: validatorsToRun,
+  });
 
-  // Run validators
-  const results: ValidationResult[] = [];
   const allBlockers: ClaudeViolation[] = [];
   const allWarnings: ClaudeViolation[] = [];
   const allSuggestions: string[] = [];
-  const details: ValidatorDetail[] = [];
-
-  for (const validatorName of validatorsToRun) {
-    const validator = validators[validatorName];
-    if (!validator) continue;
-
-    const result = validator(ctx);
-    results.push(result);
-
-    const metricDef = METRIC_DEFINITIONS.find(m => m.name === validatorName);
-    const isBlocker = metricDef?.blockOnFail ?? false;
 
+  for (const result of engineSummary.results) {
     // Collect violations
     for (const v of result.violations) {
       const violation: ClaudeViolation = {
@@ -212,7 +198,7 @@ export function validateClaudeCode(input: ClaudeCodeInput): ClaudeValidationResu
         fix: v.fix,
       };
 
-      if (isBlocker || v.severity === 'critical') {
+      if (isBlockingViolation(v)) {
         allBlockers.push(violation);
       } else {
         allWarnings.push(violation);
@@ -232,32 +218,19 @@ export function validateClaudeCode(input: ClaudeCodeInput): ClaudeValidationResu
 
     // Collect suggestions
     allSuggestions.push(...result.suggestions);
-
-    // Add to details
-    details.push({
-      name: validatorName,
-      sopFile: result.sopFile,
-      score: result.score,
-      passed: result.passed,
-      isBlocker,
-      violationCount: result.violations.length,
-      warningCount: result.warnings.length,
-    });
-  }
-
-  // Calculate overall score
-  let totalScore = 0;
-  let totalWeight = 0;
-  for (const detail of details) {
-    const metricDef = METRIC_DEFINITIONS.find(m => m.name === detail.name);
-    const weight = metricDef?.weight ?? 0.05;
-    totalScore += detail.score * weight;
-    totalWeight += weight;
   }
-  const score = totalWeight > 0 ? totalScore / totalWeight : 1.0;
 
-  // Determine if passed
-  const passed = allBlockers.length === 0 && score >= 0.85;
+  const details: ValidatorDetail[] = engineSummary.metrics.map(metric => ({
+    name: metric.name,
+    sopFile: metric.sopFile,
+    score: metric.score,
+    passed: metric.passed,
+    isBlocker: metric.blockOnFail,
+    violationCount: metric.violationCount,
+    warningCount: metric.warningCount,
+  }));
+
+  const { passed, totalScore: score } = engineSummary;
 
   // Generate summary
   const summary = generateSummary(passed, allBlockers, allWarnings, score);
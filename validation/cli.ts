@@ -14,7 +14,6 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
 
 // ============================================================================
 // INIT COMMAND - Copy SOP files to local project
@@ -93,23 +92,50 @@ function initSopFiles(targetDir: string = process.cwd()): void {
   console.log('  2. Reference SOPs in your AI assistant context');
   console.log('  3. Run: sop-validate --full -d ./src');
 }
+import { ValidatorName } from './validators';
 import {
-  validators,
-  ValidatorName,
-  ValidationContext,
-  ValidationResult,
-} from './validators';
-import { validateGeneralPractices } from './general-practices-validator';
+  createBaseline,
+  loadBaseline,
+  pruneBaseline,
+  writeBaseline,
+  BaselineLocation,
+  DEFAULT_BASELINE_FILE,
+} from './baseline';
+import { formatSuppressionReport } from './suppressions';
 import {
-  METRIC_DEFINITIONS,
-  evaluateGating,
-  DEFAULT_GATING_CONFIG,
-  STRICT_GATING_CONFIG,
-  GatingConfig,
-} from './metrics-config';
-
-// Add general practices to validators
-(validators as any)['general-practices'] = validateGeneralPractices;
+  createRatchet,
+  writeRatchet,
+  ratchetScope,
+  formatRatchetRegression,
+  RatchetLocation,
+  RatchetScope,
+  DEFAULT_RATCHET_FILE,
+} from './ratchet';
+import { resolveConfig } from './config';
+import { runEngine, loadDirectory, matchesFilePatterns, ValidationSummary } from './engine';
+import { formatSarif } from './sarif';
+import { formatJUnit } from './junit';
+import { formatHtml } from './html';
+import { formatAnnotations, formatStepSummary, writeStepSummary } from './github';
+import { compareRevisions, formatCompareConsole } from './compare';
+import { resolveJobs } from './parallel';
+import { defaultCacheDir } from './cache';
+import { startWatch } from './watch';
+import { getFormatter } from './plugins';
+import { startLanguageServer } from './lsp';
+import { analyzeRoutes, formatRouteInventory } from './routes';
+import {
+  FileChange,
+  getGitRoot,
+  readBlob,
+  getStagedFiles,
+  getChangedFiles,
+  getCommitFiles,
+  commitDiffArgs,
+  getMergeBase,
+  getBranchChanges,
+  collectChangedLines,
+} from './git';
 
 // ============================================================================
 // TYPES
@@ -122,141 +148,41 @@ interface CLIOptions {
   exclude: string[];
   validators: ValidatorName[];
   sopFiles: string[];
-  format: 'console' | 'json' | 'markdown' | 'github';
+  format: 'console' | 'json' | 'markdown' | 'github' | 'sarif' | 'junit' | 'html';
   verbose: boolean;
   strict: boolean;
   failOnWarnings: boolean;
   commit?: string;
   branch?: string;
+  base?: string;
   code?: string;
   filename?: string;
   includeGeneral: boolean;
-}
-
-interface FileChange {
-  path: string;
-  status: 'added' | 'modified' | 'deleted';
-  content?: string;
-  changedLines?: number[];
-}
-
-// ============================================================================
-// GIT HELPERS
-// ============================================================================
-
-function getGitRoot(): string {
-  try {
-    return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8' }).trim();
-  } catch {
-    throw new Error('Not a git repository');
-  }
-}
-
-function getStagedFiles(): FileChange[] {
-  try {
-    const output = execSync('git diff --cached --name-status', { encoding: 'utf-8' });
-    return parseGitStatus(output);
-  } catch {
-    return [];
-  }
-}
-
-function getChangedFiles(base = 'HEAD'): FileChange[] {
-  try {
-    const output = execSync(`git diff ${base} --name-status`, { encoding: 'utf-8' });
-    return parseGitStatus(output);
-  } catch {
-    return [];
-  }
-}
-
-function getCommitFiles(commit: string): FileChange[] {
-  try {
-    const output = execSync(`git diff-tree --no-commit-id --name-status -r ${commit}`, {
-      encoding: 'utf-8',
-    });
-    return parseGitStatus(output);
-  } catch {
-    throw new Error(`Invalid commit: ${commit}`);
-  }
-}
-
-function getBranchChanges(branch: string): FileChange[] {
-  try {
-    // Find merge base with main/master
-    let baseBranch = 'main';
-    try {
-      execSync('git rev-parse --verify main', { encoding: 'utf-8' });
-    } catch {
-      baseBranch = 'master';
-    }
-
-    const mergeBase = execSync(`git merge-base ${baseBranch} ${branch}`, {
-      encoding: 'utf-8',
-    }).trim();
-
-    const output = execSync(`git diff ${mergeBase}..${branch} --name-status`, {
-      encoding: 'utf-8',
-    });
-    return parseGitStatus(output);
-  } catch (e) {
-    throw new Error(`Failed to get branch changes: ${e}`);
-  }
-}
-
-function parseGitStatus(output: string): FileChange[] {
-  const files: FileChange[] = [];
-  const lines = output.trim().split('\n').filter(Boolean);
-
-  for (const line of lines) {
-    const [status, filePath] = line.split('\t');
-    if (!filePath) continue;
-
-    let fileStatus: 'added' | 'modified' | 'deleted';
-    if (status === 'A') fileStatus = 'added';
-    else if (status === 'D') fileStatus = 'deleted';
-    else fileStatus = 'modified';
-
-    files.push({ path: filePath, status: fileStatus });
-  }
-
-  return files;
-}
-
-function getChangedLines(filePath: string, base = 'HEAD'): number[] {
-  try {
-    const output = execSync(`git diff ${base} -U0 -- "${filePath}"`, {
-      encoding: 'utf-8',
-    });
-
-    const changedLines: number[] = [];
-    const lines = output.split('\n');
-
-    for (const line of lines) {
-      // Parse @@ -old,count +new,count @@ format
-      const match = line.match(/@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
-      if (match) {
-        const start = parseInt(match[1], 10);
-        const count = parseInt(match[2] || '1', 10);
-        for (let i = 0; i < count; i++) {
-          changedLines.push(start + i);
-        }
-      }
-    }
-
-    return changedLines;
-  } catch {
-    return [];
-  }
+  diffFilter: boolean;
+  showPreExisting: boolean;
+  baseline?: string;
+  useBaseline: boolean;
+  ratchet?: string;
+  useRatchet: boolean;
+  updateRatchet: boolean;
+  config?: string;
+  jobs: number;
+  useCache: boolean;
+  watch: boolean;
 }
 
 // ============================================================================
 // FILE LOADING
 // ============================================================================
 
+/**
+ * Read changed files from the working tree, or from `revision` in the git
+ * object database so historical commits validate the same from any checkout.
+ */
 function loadFiles(
   changes: FileChange[],
-  options: CLIOptions
+  options: CLIOptions,
+  revision?: string
 ): Map<string, string> {
   const contents = new Map<string, string>();
   const gitRoot = getGitRoot();
@@ -267,121 +193,123 @@ function loadFiles(
     const fullPath = path.join(gitRoot, change.path);
 
     // Check include/exclude patterns
-    if (!matchPatterns(change.path, options.include, options.exclude)) {
+    if (!matchesFilePatterns(change.path, options.include, options.exclude)) {
       continue;
     }
 
     try {
-      const content = fs.readFileSync(fullPath, 'utf-8');
+      const content = revision
+        ? readBlob(revision, change.path)
+        : fs.readFileSync(fullPath, 'utf-8');
       contents.set(change.path, content);
     } catch (e) {
-      console.error(`Warning: Could not read ${change.path}`);
+      console.error(`Warning: Could not read ${change.path}${revision ? ` at ${revision}` : ''}`);
     }
   }
 
   return contents;
 }
 
-function loadAllFiles(dir: string, options: CLIOptions): Map<string, string> {
-  const contents = new Map<string, string>();
-
-  function walkDir(currentDir: string) {
-    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = path.join(currentDir, entry.name);
-      const relativePath = path.relative(dir, fullPath);
-
-      if (!matchPatterns(relativePath, options.include, options.exclude)) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        walkDir(fullPath);
-      } else if (entry.isFile()) {
-        try {
-          const content = fs.readFileSync(fullPath, 'utf-8');
-          contents.set(relativePath, content);
-        } catch (e) {
-          console.error(`Warning: Could not read ${relativePath}`);
-        }
-      }
-    }
-  }
+// ============================================================================
+// VALIDATION
+// ============================================================================
 
-  walkDir(dir);
-  return contents;
+/**
+ * Directory the context's file keys are relative to: the target dir for
+ * full runs, the git root for diff modes.
+ */
+function getBaseDir(options: CLIOptions): string {
+  if (options.mode === 'full') return options.targetDir;
+  if (options.mode === 'code') return process.cwd();
+  return getGitRoot();
 }
 
-function matchPatterns(
-  filePath: string,
-  include: string[],
-  exclude: string[]
-): boolean {
-  // Check excludes first
-  for (const pattern of exclude) {
-    if (matchGlob(filePath, pattern)) return false;
-  }
-
-  // If no includes specified, include all (after exclusions)
-  if (include.length === 0) return true;
+/**
+ * The baseline file to apply, if any: --baseline <file>, or
+ * .sop-baseline.json in the current directory when it exists.
+ */
+function resolveBaselinePath(options: CLIOptions): string | undefined {
+  if (!options.useBaseline) return undefined;
+  if (options.baseline) return options.baseline;
+  return fs.existsSync(DEFAULT_BASELINE_FILE) ? DEFAULT_BASELINE_FILE : undefined;
+}
 
-  // Check includes
-  for (const pattern of include) {
-    if (matchGlob(filePath, pattern)) return true;
+/**
+ * The ratchet file to gate with, if any: --ratchet <file>, or
+ * .sop-ratchet.json in the current directory when it exists. Diff modes
+ * only see some files, so their counts can't be held to a ratchet.
+ */
+function resolveRatchetPath(options: CLIOptions): string | undefined {
+  if (!options.useRatchet) return undefined;
+  if (options.mode !== 'full') {
+    if (options.ratchet) throw new Error('--ratchet only applies to full runs');
+    return undefined;
   }
-
-  return false;
+  if (options.ratchet) return options.ratchet;
+  return fs.existsSync(DEFAULT_RATCHET_FILE) ? DEFAULT_RATCHET_FILE : undefined;
 }
 
-function matchGlob(filePath: string, pattern: string): boolean {
-  const regex = pattern
-    .replace(/\./g, '\\.')
-    .replace(/\*\*/g, '{{GLOBSTAR}}')
-    .replace(/\*/g, '[^/]*')
-    .replace(/{{GLOBSTAR}}/g, '.*');
-
-  return new RegExp(`^${regex}$`).test(filePath);
+/** The ratchet file of a full run, with the files the run covers */
+function resolveRatchetLocation(options: CLIOptions): RatchetLocation | undefined {
+  const ratchetPath = resolveRatchetPath(options);
+  return ratchetPath ? { ratchetPath, scope: getRatchetScope(options, ratchetPath) } : undefined;
 }
 
-// ============================================================================
-// VALIDATION
-// ============================================================================
+/** Target directory and effective include/exclude globs of a full run */
+function getRatchetScope(options: CLIOptions, ratchetPath: string): RatchetScope {
+  const config = resolveConfig({ configPath: options.config, searchFrom: options.targetDir });
+  return ratchetScope(
+    ratchetPath,
+    options.targetDir,
+    [...config.include, ...options.include],
+    [...config.exclude, ...options.exclude]
+  );
+}
 
 function runValidation(options: CLIOptions): {
-  results: ValidationResult[];
-  summary: any;
+  summary: ValidationSummary;
+  fileContents: Map<string, string>;
 } {
   let fileContents: Map<string, string>;
   let changedLines: Map<string, number[]> | undefined;
 
+  // Project config; --include/--exclude add to its globs
+  const config = resolveConfig({
+    configPath: options.config,
+    searchFrom: options.mode === 'full' ? options.targetDir : process.cwd(),
+  });
+  const fileOptions: CLIOptions = {
+    ...options,
+    include: [...config.include, ...options.include],
+    exclude: [...config.exclude, ...options.exclude],
+  };
+
   // Load files based on mode
   switch (options.mode) {
     case 'staged':
       const stagedFiles = getStagedFiles();
-      fileContents = loadFiles(stagedFiles, options);
-      changedLines = new Map();
-      for (const f of stagedFiles) {
-        if (f.status !== 'deleted') {
-          changedLines.set(f.path, getChangedLines(f.path, 'HEAD'));
-        }
-      }
+      fileContents = loadFiles(stagedFiles, fileOptions);
+      changedLines = collectChangedLines(fileContents, 'diff --cached');
       break;
 
     case 'changed':
       const changedFiles = getChangedFiles();
-      fileContents = loadFiles(changedFiles, options);
+      fileContents = loadFiles(changedFiles, fileOptions);
+      changedLines = collectChangedLines(fileContents, 'diff HEAD');
       break;
 
     case 'commit':
       if (!options.commit) throw new Error('Commit hash required');
       const commitFiles = getCommitFiles(options.commit);
-      fileContents = loadFiles(commitFiles, options);
+      fileContents = loadFiles(commitFiles, fileOptions, options.commit);
+      changedLines = collectChangedLines(fileContents, commitDiffArgs(options.commit));
       break;
 
     case 'branch':
-      const branchFiles = getBranchChanges(options.branch || 'HEAD');
-      fileContents = loadFiles(branchFiles, options);
+      const branch = options.branch || 'HEAD';
+      const branchFiles = getBranchChanges(branch, options.base);
+      fileContents = loadFiles(branchFiles, fileOptions, branch);
+      changedLines = collectChangedLines(fileContents, `diff ${getMergeBase(branch, options.base)} ${branch}`);
       break;
 
     case 'code':
@@ -393,131 +321,232 @@ function runValidation(options: CLIOptions): {
 
     case 'full':
     default:
-      fileContents = loadAllFiles(options.targetDir, options);
-  }
-
-  if (fileContents.size === 0) {
-    return {
-      results: [],
-      summary: {
-        passed: true,
-        score: 1.0,
-        filesAnalyzed: 0,
-        blockers: 0,
-        warnings: 0,
-        message: 'No files to validate',
-      },
-    };
-  }
-
-  // Determine validators to run
-  let validatorsToRun: ValidatorName[] = [];
-
-  if (options.validators.length > 0) {
-    validatorsToRun = options.validators;
-  } else if (options.sopFiles.length > 0) {
-    const sopMap: Record<string, ValidatorName[]> = {
-      '2-supabase': ['supabase-auth', 'tenant-isolation', 'audit-logging'],
-      '3-database-prisma': ['prisma-queries', 'transactions'],
-      '4-code-safety-patterns': ['code-safety'],
-      '5-error-handling-logging': ['exception-types', 'logging'],
-      '6-external-services-timing': ['external-services'],
-      '7-queue-job-processing': ['job-processing'],
-      '8-api-design-patterns': ['api-design'],
-      '9-testing-code-quality': ['code-quality'],
-    };
-
-    for (const sop of options.sopFiles) {
-      const sopValidators = sopMap[sop];
-      if (sopValidators) validatorsToRun.push(...sopValidators);
-    }
-  } else {
-    // Run all validators
-    validatorsToRun = Object.keys(validators) as ValidatorName[];
+      fileContents = loadDirectory(options.targetDir, fileOptions.include, fileOptions.exclude);
   }
 
-  // Add general practices if requested
-  if (options.includeGeneral && !validatorsToRun.includes('general-practices' as any)) {
-    validatorsToRun.push('general-practices' as any);
+  const baselinePath = resolveBaselinePath(options);
+  const summary = runEngine({
+    targetDir: getBaseDir(options),
+    files: fileContents,
+    validators: options.validators,
+    sopFiles: options.sopFiles,
+    includeGeneral: options.includeGeneral,
+    config,
+    strict: options.strict,
+    failOnWarnings: options.failOnWarnings,
+    changedLines: options.diffFilter ? changedLines : undefined,
+    baseline: baselinePath ? { baselinePath, baseDir: getBaseDir(options) } : undefined,
+    ratchet: resolveRatchetLocation(options),
+    jobs: options.jobs,
+    cacheDir: options.useCache ? defaultCacheDir() : undefined,
+  });
+
+  return { summary, fileContents };
+}
+
+// ============================================================================
+// BASELINE COMMAND
+// ============================================================================
+
+function runBaselineCommand(subcommand: string | undefined, args: string[]): void {
+  const options = parseArgs(args);
+  const baselinePath = options.baseline || DEFAULT_BASELINE_FILE;
+  const location: BaselineLocation = { baselinePath, baseDir: getBaseDir(options) };
+
+  switch (subcommand) {
+    case 'create': {
+      const { summary, fileContents } = runValidation({ ...options, useBaseline: false });
+      const baseline = createBaseline(summary.results, fileContents, location);
+      writeBaseline(baselinePath, baseline);
+      console.log(`Baseline written to ${baselinePath} (${baseline.entries.length} violations)`);
+      break;
+    }
+
+    case 'prune': {
+      const baseline = loadBaseline(baselinePath);
+      const staleBaseline = runValidation({ ...options, baseline: baselinePath, useBaseline: true })
+        .summary.staleBaseline ?? [];
+      writeBaseline(baselinePath, pruneBaseline(baseline, staleBaseline));
+      console.log(`Removed ${staleBaseline.length} stale entries from ${baselinePath}`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown baseline command: ${subcommand ?? '(none)'}. Use "create" or "prune".`);
   }
+}
 
-  // Create context
-  const ctx: ValidationContext = {
-    files: Array.from(fileContents.keys()),
-    fileContents,
-    changedLines,
-  };
+// ============================================================================
+// RATCHET COMMAND
+// ============================================================================
+
+function runRatchetCommand(subcommand: string | undefined, args: string[]): void {
+  const options = parseArgs(args);
+  const ratchetPath = options.ratchet || DEFAULT_RATCHET_FILE;
 
-  // Run validators
-  const results: ValidationResult[] = [];
+  if (options.mode !== 'full') throw new Error('A ratchet can only be recorded from a full run');
 
-  for (const name of validatorsToRun) {
-    const validator = (validators as any)[name];
-    if (validator) {
-      const result = validator(ctx);
-      results.push(result);
+  switch (subcommand) {
+    case 'create': {
+      const { summary } = runValidation({ ...options, useRatchet: false });
+      writeRatchet(ratchetPath, createRatchet(summary.metrics, getRatchetScope(options, ratchetPath)));
+      console.log(`Ratchet written to ${ratchetPath} (${summary.metrics.length} metrics)`);
+      break;
     }
+
+    default:
+      throw new Error(`Unknown ratchet command: ${subcommand ?? '(none)'}. Use "create".`);
   }
+}
 
-  // Calculate summary
-  const scores = new Map<ValidatorName, number>();
-  let blockers = 0;
-  let warnings = 0;
+/**
+ * Lock in improvements: a passing ratchet run writes the tightened values
+ * back, to be committed with the fixes. With --no-ratchet-update (read-only
+ * CI) it only says what would tighten.
+ */
+function tightenRatchet(summary: ValidationSummary, options: CLIOptions): void {
+  const ratchetPath = resolveRatchetPath(options);
+  if (!ratchetPath || !summary.ratchet || !summary.passed || summary.ratchet.improved.length === 0) return;
 
-  for (const result of results) {
-    scores.set(result.metric as ValidatorName, result.score);
-    blockers += result.violations.filter((v: any) => v.severity === 'critical' || v.severity === 'high').length;
-    warnings += result.warnings.length;
+  const improved = summary.ratchet.improved.join(', ');
+  if (!options.updateRatchet) {
+    console.error(`Ratchet can be tightened for ${improved} (${ratchetPath} not written: --no-ratchet-update)`);
+    return;
   }
+  writeRatchet(ratchetPath, summary.ratchet.tightened);
+  console.error(`Ratchet tightened for ${improved} in ${ratchetPath}`);
+}
 
-  const gatingConfig = options.strict ? STRICT_GATING_CONFIG : DEFAULT_GATING_CONFIG;
-  const gatingResult = evaluateGating(scores, blockers, warnings, gatingConfig);
+// ============================================================================
+// COMPARE COMMAND
+// ============================================================================
 
-  let totalScore = 0;
-  let totalWeight = 0;
-  for (const [name, score] of scores) {
-    const metric = METRIC_DEFINITIONS.find(m => m.name === name);
-    const weight = metric?.weight ?? 0.05;
-    totalScore += score * weight;
-    totalWeight += weight;
+function runCompareCommand(range: string | undefined, args: string[]): boolean {
+  if (!range || range.startsWith('-')) {
+    throw new Error('Revision range required, e.g. "sop-validate compare main..HEAD"');
   }
 
-  return {
-    results,
-    summary: {
-      passed: gatingResult.passed,
-      score: totalWeight > 0 ? totalScore / totalWeight : 1.0,
-      filesAnalyzed: fileContents.size,
-      blockers,
-      warnings,
-      message: gatingResult.reason,
-    },
-  };
+  const options = parseArgs(args);
+  const report = compareRevisions(range, {
+    config: resolveConfig({ configPath: options.config, searchFrom: process.cwd() }),
+    include: options.include,
+    exclude: options.exclude,
+    validators: options.validators,
+    sopFiles: options.sopFiles,
+    includeGeneral: options.includeGeneral,
+  });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatCompareConsole(report, options.verbose));
+  }
+
+  return report.passed;
+}
+
+// ============================================================================
+// ROUTES COMMAND
+// ============================================================================
+
+function runRoutesCommand(args: string[]): void {
+  const options = parseArgs(args);
+  const config = resolveConfig({ configPath: options.config, searchFrom: options.targetDir });
+  const fileContents = loadDirectory(
+    options.targetDir,
+    [...config.include, ...options.include],
+    [...config.exclude, ...options.exclude]
+  );
+  const inventory = analyzeRoutes({ files: Array.from(fileContents.keys()), fileContents });
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(inventory, null, 2));
+  } else {
+    console.log(formatRouteInventory(inventory));
+  }
+}
+
+// ============================================================================
+// WATCH MODE
+// ============================================================================
+
+function runWatch(options: CLIOptions): void {
+  if (options.mode !== 'full') {
+    throw new Error('--watch only applies to full runs');
+  }
+
+  const config = resolveConfig({ configPath: options.config, searchFrom: options.targetDir });
+  const stop = startWatch({
+    targetDir: options.targetDir,
+    config,
+    include: [...config.include, ...options.include],
+    exclude: [...config.exclude, ...options.exclude],
+    validators: options.validators,
+    sopFiles: options.sopFiles,
+    includeGeneral: options.includeGeneral,
+    jobs: options.jobs,
+    cacheDir: options.useCache ? defaultCacheDir() : undefined,
+    verbose: options.verbose,
+  });
+
+  process.on('SIGINT', () => {
+    stop();
+    process.exit(0);
+  });
 }
 
 // ============================================================================
 // OUTPUT FORMATTERS
 // ============================================================================
 
-function formatConsole(results: ValidationResult[], summary: any, verbose: boolean) {
+function formatConsole(
+  summary: ValidationSummary,
+  verbose: boolean,
+  showPreExisting = false
+) {
+  const { results, suppressions } = summary;
+
   console.log('\n' + '='.repeat(60));
   console.log('SOP VALIDATION REPORT');
   console.log('='.repeat(60));
   console.log(`Files analyzed: ${summary.filesAnalyzed}`);
-  console.log(`Score: ${(summary.score * 100).toFixed(1)}%`);
+  console.log(`Score: ${(summary.totalScore * 100).toFixed(1)}%`);
   console.log(`Status: ${summary.passed ? '✅ PASSED' : '❌ FAILED'}`);
-  if (summary.message) console.log(`Reason: ${summary.message}`);
+  if (summary.reason) console.log(`Reason: ${summary.reason}`);
+  if (verbose && summary.cache) {
+    console.log(`Cache: ${summary.cache.hits} hits, ${summary.cache.misses} misses (${summary.cache.cacheFile})`);
+  }
   console.log('');
 
   // Metrics breakdown
   console.log('-'.repeat(60));
-  for (const result of results) {
+  results.forEach((result, i) => {
+    const metric = summary.metrics[i];
     const icon = result.passed ? '✅' : '❌';
-    const blockerTag = METRIC_DEFINITIONS.find(m => m.name === result.metric)?.blockOnFail ? ' [BLOCKER]' : '';
-    console.log(`${icon} ${result.metric}: ${(result.score * 100).toFixed(1)}%${blockerTag}`);
+    const blockerTag = metric.blockOnFail ? ' [BLOCKER]' : '';
+    console.log(`${icon} ${metric.name}: ${(result.score * 100).toFixed(1)}%${blockerTag}`);
     if (result.violations.length > 0) {
       console.log(`   Violations: ${result.violations.length}`);
     }
+    if (result.preExisting) {
+      const count = result.preExisting.violations.length + result.preExisting.warnings.length;
+      console.log(`   Pre-existing (not gated): ${count}`);
+    }
+  });
+
+  if (summary.ratchet) {
+    console.log('');
+    console.log(`Ratchet regressions: ${summary.ratchet.regressions.length}`);
+    summary.ratchet.regressions.forEach(r => console.log(`  ${formatRatchetRegression(r)}`));
+  }
+
+  const staleCount = summary.staleBaseline?.length ?? 0;
+  if (summary.baselined || staleCount > 0) {
+    console.log('');
+    console.log(`Baselined violations: ${summary.baselined ?? 0}`);
+    if (staleCount > 0) {
+      console.log(`Stale baseline entries: ${staleCount} (run "sop-validate baseline prune" to remove)`);
+    }
   }
 
   // Violations
@@ -548,30 +577,51 @@ function formatConsole(results: ValidationResult[], summary: any, verbose: boole
     }
   }
 
-  console.log('');
-  console.log('='.repeat(60));
-}
+  // Suppressed findings and the comments behind them, for review
+  const suppressionLines = formatSuppressionReport(suppressions);
+  if (suppressionLines.length > 0) {
+    console.log('');
+    console.log('-'.repeat(60));
+    suppressionLines.forEach(line => console.log(line));
 
-function formatGitHub(results: ValidationResult[], summary: any) {
-  // GitHub Actions annotations format
-  for (const result of results) {
-    for (const v of result.violations) {
-      const level = v.severity === 'critical' ? 'error' : 'warning';
-      console.log(`::${level} file=${v.file},line=${v.line}::${v.rule}: ${v.message}`);
+    if (verbose) {
+      for (const result of results) {
+        for (const s of result.suppressed ?? []) {
+          console.log(`  ${s.finding.file}:${s.finding.line} ${s.finding.rule} silenced (${s.justification})`);
+        }
+      }
+    }
+  }
+
+  // Pre-existing findings outside the changed lines
+  if (showPreExisting && summary.preExisting > 0) {
+    console.log('');
+    console.log('-'.repeat(60));
+    console.log('PRE-EXISTING (outside changed lines, not gated):');
+
+    for (const result of results) {
+      for (const v of result.preExisting?.violations ?? []) {
+        console.log(`  [${v.severity.toUpperCase()}] ${v.file}:${v.line} - ${v.rule}: ${v.message}`);
+      }
+      for (const w of result.preExisting?.warnings ?? []) {
+        console.log(`  ${w.file}:${w.line} - ${w.message}`);
+      }
     }
   }
 
-  // Summary for GitHub
-  console.log('');
-  console.log('## SOP Validation Summary');
   console.log('');
-  console.log(`| Metric | Value |`);
-  console.log(`|--------|-------|`);
-  console.log(`| Status | ${summary.passed ? '✅ Passed' : '❌ Failed'} |`);
-  console.log(`| Score | ${(summary.score * 100).toFixed(1)}% |`);
-  console.log(`| Files | ${summary.filesAnalyzed} |`);
-  console.log(`| Blockers | ${summary.blockers} |`);
-  console.log(`| Warnings | ${summary.warnings} |`);
+  console.log('='.repeat(60));
+}
+
+function formatGitHub(summary: ValidationSummary) {
+  // Workflow-command annotations show findings inline on the PR diff
+  formatAnnotations(summary).forEach(line => console.log(line));
+
+  // The job summary goes to the run page; print it when run outside Actions
+  if (!writeStepSummary(summary)) {
+    console.log('');
+    console.log(formatStepSummary(summary));
+  }
 }
 
 // ============================================================================
@@ -582,8 +632,8 @@ function parseArgs(args: string[]): CLIOptions {
   const options: CLIOptions = {
     mode: 'full',
     targetDir: process.cwd(),
-    include: ['*.ts'],
-    exclude: ['node_modules/**', 'dist/**', '*.spec.ts', '*.test.ts', '*.d.ts'],
+    include: [],
+    exclude: [],
     validators: [],
     sopFiles: [],
     format: 'console',
@@ -591,6 +641,14 @@ function parseArgs(args: string[]): CLIOptions {
     strict: false,
     failOnWarnings: false,
     includeGeneral: true,
+    diffFilter: true,
+    showPreExisting: false,
+    useBaseline: true,
+    useRatchet: true,
+    updateRatchet: true,
+    jobs: 1,
+    useCache: true,
+    watch: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -620,10 +678,18 @@ function parseArgs(args: string[]): CLIOptions {
         options.branch = args[++i];
         break;
 
+      case '--base':
+        options.base = args[++i];
+        break;
+
       case '--full':
         options.mode = 'full';
         break;
 
+      case '--watch':
+        options.watch = true;
+        break;
+
       case '--code':
         options.mode = 'code';
         options.code = args[++i];
@@ -669,6 +735,48 @@ function parseArgs(args: string[]): CLIOptions {
         options.includeGeneral = false;
         break;
 
+      case '--no-diff-filter':
+        options.diffFilter = false;
+        break;
+
+      case '--show-pre-existing':
+        options.showPreExisting = true;
+        break;
+
+      case '--config':
+      case '-c':
+        options.config = args[++i];
+        break;
+
+      case '--baseline':
+        options.baseline = args[++i];
+        break;
+
+      case '--no-baseline':
+        options.useBaseline = false;
+        break;
+
+      case '--ratchet':
+        options.ratchet = args[++i];
+        break;
+
+      case '--no-ratchet':
+        options.useRatchet = false;
+        break;
+
+      case '--no-ratchet-update':
+        options.updateRatchet = false;
+        break;
+
+      case '--jobs':
+      case '-j':
+        options.jobs = resolveJobs(Number(args[++i]));
+        break;
+
+      case '--no-cache':
+        options.useCache = false;
+        break;
+
       case '--include':
         options.include.push(args[++i]);
         break;
@@ -701,6 +809,17 @@ Validate code against SOP rules. Supports full codebase, commits, and staged cha
 COMMANDS:
   init                 Copy SOP files to ./claude-sop-api/ in current directory
   validate             Run validation (default command)
+  baseline create      Record current violations in .sop-baseline.json
+  baseline prune       Remove baseline entries that no longer occur
+  ratchet create       Record current metric scores in .sop-ratchet.json
+  compare <base>..<head>
+                       Validate both revisions and report introduced and
+                       fixed violations and the score change per metric
+                       (<base>...<head> compares against the merge base)
+  routes [dir]         List every route with its effective guard chain
+                       (global, controller and handler guards)
+  lsp                  Language server over stdio: diagnostics and quick
+                       fixes in any LSP-capable editor
 
 MODES:
   --full               Validate entire codebase (default)
@@ -708,18 +827,44 @@ MODES:
   --changed            Validate uncommitted changes
   --commit <hash>      Validate a specific commit
   --branch <name>      Validate all changes on a branch
+  --base <ref>         Branch to diff --branch against (default: main, or
+                       master if there is no main)
+  --watch              Validate the target directory, then revalidate files
+                       as they change and print the findings that appeared
+                       or went away
 
 OPTIONS:
   -d, --dir <path>     Target directory (default: current dir)
   -s, --sop <name>     SOP file to validate against (can specify multiple)
-  -v, --validator <n>  Specific validator to run (can specify multiple)
-  -f, --format <type>  Output: console, json, markdown, github
+  -v, --validator <n>  Specific validator to run (can specify multiple),
+                       e.g. prisma-queries, general-practices
+  -f, --format <type>  Output: console, json, markdown, github, sarif, junit,
+                       html, or a format added by a plugin
+                       (github: PR annotations, plus $GITHUB_STEP_SUMMARY)
   --verbose            Show detailed output including warnings
   --strict             Use strict thresholds
   --fail-on-warnings   Exit non-zero if warnings present
   --no-general         Skip general best practices checks
-  --include <pattern>  File patterns to include
-  --exclude <pattern>  File patterns to exclude
+  --no-diff-filter     In diff modes, gate on every finding in touched files,
+                       not only those on changed lines
+  --show-pre-existing  List findings outside the changed lines
+  --baseline <file>    Baseline file (default: .sop-baseline.json if present)
+  --no-baseline        Ignore the baseline and gate on every violation
+  --ratchet <file>     Ratchet file for full runs (default: .sop-ratchet.json
+                       if present); fail when a metric regresses against it.
+                       The run must cover the directory and globs it was
+                       created for. Passing runs that improve on it write
+                       the tightened values back
+  --no-ratchet         Ignore the ratchet and gate on absolute thresholds
+  --no-ratchet-update  Never write the ratchet file (read-only CI)
+  -c, --config <file>  Project config (default: nearest .sopvalidaterc or
+                       sop-validate.config.ts/js)
+  -j, --jobs <n>       Validate in n worker threads (0: one per CPU);
+                       results are the same as with 1 (default)
+  --no-cache           Validate every file, ignoring cached findings in
+                       node_modules/.cache/sop-validate
+  --include <pattern>  File patterns to include, in addition to the config's
+  --exclude <pattern>  File patterns to exclude, in addition to the config's
   -h, --help           Show this help
 
 EXAMPLES:
@@ -741,12 +886,32 @@ EXAMPLES:
   # Validate feature branch changes
   sop-validate --branch feature/my-feature
 
+  # Revalidate files as you save them
+  sop-validate --watch -d src
+
+  # Roll out stricter rules: fail only when a metric gets worse
+  sop-validate ratchet create src/
+  sop-validate --full src/
+  sop-validate --full --no-ratchet-update src/   # in CI
+
+  # Violations a feature branch introduces and fixes
+  sop-validate compare main...feature/my-feature
+
+  # Grandfather existing violations, then fail only on new ones
+  sop-validate baseline create src/
+  sop-validate --full src/
+
   # Validate specific SOPs
   sop-validate --staged -s 3-database-prisma -s 2-supabase
 
   # CI with GitHub annotations
   sop-validate --staged -f github --strict
 
+SUPPRESSIONS:
+  // sop-disable-next-line INV-PRISMA-ORDERBY -- <justification>
+  // sop-disable INV-LOGGER -- <justification>   ...   // sop-enable
+  A justification is required; suppressions are listed in every report.
+
 SOP FILES:
   2-supabase, 3-database-prisma, 4-code-safety-patterns,
   5-error-handling-logging, 6-external-services-timing,
@@ -768,33 +933,110 @@ function main() {
     return;
   }
 
+  // Handle baseline command
+  if (args[0] === 'baseline') {
+    try {
+      runBaselineCommand(args[1], args.slice(2));
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Handle ratchet command
+  if (args[0] === 'ratchet') {
+    try {
+      runRatchetCommand(args[1], args.slice(2));
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Handle routes command
+  if (args[0] === 'routes') {
+    try {
+      runRoutesCommand(args.slice(1));
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Handle lsp command; serves until the editor sends exit
+  if (args[0] === 'lsp') {
+    startLanguageServer({ configPath: parseArgs(args.slice(1)).config });
+    return;
+  }
+
+  // Handle compare command
+  if (args[0] === 'compare') {
+    try {
+      process.exit(runCompareCommand(args[1], args.slice(2)) ? 0 : 1);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
   const options = parseArgs(args);
 
+  if (options.watch) {
+    try {
+      runWatch(options);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
   try {
-    const { results, summary } = runValidation(options);
+    const { summary, fileContents } = runValidation(options);
 
     switch (options.format) {
       case 'json':
-        console.log(JSON.stringify({ results, summary }, null, 2));
+        console.log(JSON.stringify(summary, null, 2));
         break;
 
       case 'github':
-        formatGitHub(results, summary);
+        formatGitHub(summary);
+        break;
+
+      case 'sarif':
+        console.log(JSON.stringify(formatSarif(summary), null, 2));
+        break;
+
+      case 'junit':
+        console.log(formatJUnit(summary));
+        break;
+
+      case 'html':
+        console.log(formatHtml(summary, { fileContents }));
         break;
 
       case 'markdown':
         console.log(`# SOP Validation Report\n`);
         console.log(`**Status:** ${summary.passed ? '✅ Passed' : '❌ Failed'}`);
-        console.log(`**Score:** ${(summary.score * 100).toFixed(1)}%\n`);
-        formatConsole(results, summary, options.verbose);
+        console.log(`**Score:** ${(summary.totalScore * 100).toFixed(1)}%\n`);
+        formatConsole(summary, options.verbose, options.showPreExisting);
         break;
 
-      default:
-        formatConsole(results, summary, options.verbose);
+      default: {
+        const formatter = getFormatter(options.format);
+        if (formatter) {
+          console.log(formatter(summary, { verbose: options.verbose, fileContents }));
+        } else {
+          formatConsole(summary, options.verbose, options.showPreExisting);
+        }
+      }
     }
 
-    const exitCode = summary.passed && (!options.failOnWarnings || summary.warnings === 0) ? 0 : 1;
-    process.exit(exitCode);
+    tightenRatchet(summary, options);
+    process.exit(summary.passed ? 0 : 1);
 
   } catch (error: any) {
     console.error(`Error: ${error.message}`);
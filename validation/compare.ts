@@ -0,0 +1,315 @@
+/**
+ * SOP Compare - New vs fixed violations between two revisions
+ *
+ * Runs the full validator set on the files of both revisions, read from the
+ * git object database, and matches findings by metric, rule, file and a
+ * fingerprint of the offending line (as the baseline does). Findings only
+ * at head were introduced, findings only at base were fixed. Line numbers
+ * don't take part in matching, so code moving around isn't reported.
+ */
+
+import { Violation, Warning, ValidatorName } from './validators';
+import { fingerprint } from './baseline';
+import { ResolvedConfig } from './config';
+import { runEngine, matchesFilePatterns, isBlockingViolation, ValidationSummary } from './engine';
+import { getGitRoot, getMergeBase, resolveRevision, listFiles, readBlobs } from './git';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CompareOptions {
+  /** Resolved project config; its include/exclude select the files */
+  config: ResolvedConfig;
+
+  /** Patterns added to the config's include/exclude globs */
+  include?: string[];
+  exclude?: string[];
+
+  /** Specific validators to run (default: all) */
+  validators?: ValidatorName[];
+
+  /** SOP files whose validators to run (ignored when validators are given) */
+  sopFiles?: string[];
+
+  /** Run general-practices when running all validators (default: true) */
+  includeGeneral?: boolean;
+}
+
+export interface CompareRevision {
+  /** The ref as given */
+  ref: string;
+  commit: string;
+  totalScore: number;
+  filesAnalyzed: number;
+}
+
+export interface CompareFinding {
+  metric: ValidatorName;
+  rule: string;
+  file: string;
+  line: number;
+  message: string;
+
+  /** Unset for warnings */
+  severity?: Violation['severity'];
+  blocking: boolean;
+  fingerprint: string;
+}
+
+export interface MetricDelta {
+  name: ValidatorName;
+  displayName: string;
+
+  /** Unset when the metric didn't run on that side */
+  baseScore?: number;
+  headScore?: number;
+
+  /** Zero unless both sides have a score */
+  delta: number;
+}
+
+export interface CompareReport {
+  base: CompareRevision;
+  head: CompareRevision;
+  scoreDelta: number;
+  metrics: MetricDelta[];
+  introduced: CompareFinding[];
+  fixed: CompareFinding[];
+  unchanged: CompareFinding[];
+
+  /** No blocking violation was introduced */
+  passed: boolean;
+}
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+/**
+ * Split `<base>..<head>` or `<base>...<head>` like git does: an empty side
+ * is HEAD, and the three-dot form compares against the merge base. A single
+ * ref is compared with HEAD.
+ */
+export function parseRange(range: string): { base: string; head: string; mergeBase: boolean } {
+  const match = range.match(/^(.*?)(\.\.\.?)(.*)$/);
+  if (!match) return { base: range, head: 'HEAD', mergeBase: false };
+
+  return {
+    base: match[1] || 'HEAD',
+    head: match[3] || 'HEAD',
+    mergeBase: match[2] === '...',
+  };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function validateRevision(commit: string, options: CompareOptions): {
+  summary: ValidationSummary;
+  files: Map<string, string>;
+} {
+  const include = [...options.config.include, ...(options.include ?? [])];
+  const exclude = [...options.config.exclude, ...(options.exclude ?? [])];
+  const paths = listFiles(commit).filter(p => matchesFilePatterns(p, include, exclude));
+  const files = readBlobs(commit, paths);
+
+  const summary = runEngine({
+    targetDir: getGitRoot(),
+    files,
+    config: options.config,
+    validators: options.validators,
+    sopFiles: options.sopFiles,
+    includeGeneral: options.includeGeneral,
+  });
+
+  return { summary, files };
+}
+
+/** Every violation and warning in a summary, fingerprinted by its line in `files` */
+export function collectFindings(summary: ValidationSummary, files: Map<string, string>): CompareFinding[] {
+  const findings: CompareFinding[] = [];
+
+  summary.results.forEach((result, i) => {
+    const metric = summary.metrics[i].name;
+    const toFinding = (finding: Violation | Warning): CompareFinding => {
+      const lines = (files.get(finding.file) ?? '').split('\n');
+      const violation = 'severity' in finding ? finding : undefined;
+      return {
+        metric,
+        rule: finding.rule,
+        file: finding.file,
+        line: finding.line,
+        message: finding.message,
+        severity: violation?.severity,
+        blocking: violation ? isBlockingViolation(violation) : false,
+        fingerprint: fingerprint(finding.rule, lines[finding.line - 1] ?? ''),
+      };
+    };
+
+    findings.push(...result.violations.map(toFinding), ...result.warnings.map(toFinding));
+  });
+
+  return findings;
+}
+
+function findingKey(finding: CompareFinding): string {
+  return `${finding.metric}|${finding.rule}|${finding.file}|${finding.fingerprint}`;
+}
+
+/**
+ * Match head findings against base findings. Keys are counted, so a second
+ * copy of an existing violation still shows up as introduced.
+ */
+export function matchFindings(
+  baseFindings: CompareFinding[],
+  headFindings: CompareFinding[]
+): Pick<CompareReport, 'introduced' | 'fixed' | 'unchanged'> {
+  const remaining = new Map<string, CompareFinding[]>();
+  for (const finding of baseFindings) {
+    const key = findingKey(finding);
+    remaining.set(key, [...(remaining.get(key) ?? []), finding]);
+  }
+
+  const introduced: CompareFinding[] = [];
+  const unchanged: CompareFinding[] = [];
+  for (const finding of headFindings) {
+    const matches = remaining.get(findingKey(finding));
+    if (matches?.length) {
+      matches.shift();
+      unchanged.push(finding);
+    } else {
+      introduced.push(finding);
+    }
+  }
+
+  const fixed = Array.from(remaining.values()).flat();
+  return { introduced, fixed, unchanged };
+}
+
+function compareMetrics(base: ValidationSummary, head: ValidationSummary): MetricDelta[] {
+  const deltas = new Map<ValidatorName, MetricDelta>();
+
+  for (const metric of base.metrics) {
+    deltas.set(metric.name, {
+      name: metric.name,
+      displayName: metric.displayName,
+      baseScore: metric.score,
+      delta: 0,
+    });
+  }
+  for (const metric of head.metrics) {
+    const baseScore = deltas.get(metric.name)?.baseScore;
+    deltas.set(metric.name, {
+      name: metric.name,
+      displayName: metric.displayName,
+      baseScore,
+      headScore: metric.score,
+      delta: baseScore === undefined ? 0 : metric.score - baseScore,
+    });
+  }
+
+  return Array.from(deltas.values());
+}
+
+export function compareRevisions(range: string, options: CompareOptions): CompareReport {
+  const parsed = parseRange(range);
+  const headCommit = resolveRevision(parsed.head);
+  const baseCommit = parsed.mergeBase
+    ? getMergeBase(headCommit, resolveRevision(parsed.base))
+    : resolveRevision(parsed.base);
+
+  const base = validateRevision(baseCommit, options);
+  const head = validateRevision(headCommit, options);
+  const matched = matchFindings(
+    collectFindings(base.summary, base.files),
+    collectFindings(head.summary, head.files)
+  );
+
+  return {
+    base: {
+      ref: parsed.base,
+      commit: baseCommit,
+      totalScore: base.summary.totalScore,
+      filesAnalyzed: base.summary.filesAnalyzed,
+    },
+    head: {
+      ref: parsed.head,
+      commit: headCommit,
+      totalScore: head.summary.totalScore,
+      filesAnalyzed: head.summary.filesAnalyzed,
+    },
+    scoreDelta: head.summary.totalScore - base.summary.totalScore,
+    metrics: compareMetrics(base.summary, head.summary),
+    ...matched,
+    passed: !matched.introduced.some(f => f.blocking),
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? '-' : `${(score * 100).toFixed(1)}%`;
+}
+
+function formatDelta(delta: number): string {
+  const points = (delta * 100).toFixed(1);
+  if (points === '0.0' || points === '-0.0') return '±0.0';
+  return delta > 0 ? `+${points}` : points;
+}
+
+function formatFinding(finding: CompareFinding): string[] {
+  const severity = finding.severity ? finding.severity.toUpperCase() : 'WARNING';
+  return [
+    `  [${severity}] ${finding.file}:${finding.line}`,
+    `    ${finding.rule}: ${finding.message}`,
+  ];
+}
+
+export function formatCompareConsole(report: CompareReport, verbose = false): string {
+  const lines: string[] = [];
+  const short = (commit: string) => commit.slice(0, 7);
+
+  lines.push('\n' + '='.repeat(60));
+  lines.push('SOP COMPARE REPORT');
+  lines.push('='.repeat(60));
+  lines.push(`Base: ${report.base.ref} (${short(report.base.commit)}), ${report.base.filesAnalyzed} files`);
+  lines.push(`Head: ${report.head.ref} (${short(report.head.commit)}), ${report.head.filesAnalyzed} files`);
+  lines.push(
+    `Score: ${formatScore(report.base.totalScore)} → ${formatScore(report.head.totalScore)} ` +
+    `(${formatDelta(report.scoreDelta)})`
+  );
+  lines.push(`Introduced: ${report.introduced.length}, fixed: ${report.fixed.length}, unchanged: ${report.unchanged.length}`);
+  lines.push(`Status: ${report.passed ? '✅ PASSED' : '❌ FAILED (blocking violations introduced)'}`);
+  lines.push('');
+
+  // Score change per metric
+  lines.push('-'.repeat(60));
+  for (const metric of report.metrics) {
+    lines.push(
+      `${metric.name}: ${formatScore(metric.baseScore)} → ${formatScore(metric.headScore)} ` +
+      `(${formatDelta(metric.delta)})`
+    );
+  }
+
+  const sections: Array<[string, CompareFinding[]]> = [
+    ['INTRODUCED:', report.introduced],
+    ['FIXED:', report.fixed],
+    ...(verbose ? [['UNCHANGED:', report.unchanged] as [string, CompareFinding[]]] : []),
+  ];
+  for (const [heading, findings] of sections) {
+    if (findings.length === 0) continue;
+    lines.push('');
+    lines.push('-'.repeat(60));
+    lines.push(heading);
+    for (const finding of findings) lines.push(...formatFinding(finding));
+  }
+
+  lines.push('');
+  lines.push('='.repeat(60));
+
+  return lines.join('\n');
+}
@@ -0,0 +1,508 @@
+/**
+ * SOP Project Configuration
+ *
+ * Loads the project's sop-validate config and merges it over the built-in
+ * defaults from metrics-config.ts and validators.ts. The first of these
+ * files found in the target directory or any parent is used:
+ *
+ *   .sopvalidaterc            JSON or YAML
+ *   .sopvalidaterc.json
+ *   .sopvalidaterc.yaml / .yml
+ *   sop-validate.config.ts    default export (or module.exports)
+ *   sop-validate.config.js
+ *
+ * Example:
+ *
+ *   {
+ *     "gating": { "minimumScore": 0.9 },
+ *     "metrics": { "code-quality": { "weight": 0.1, "blockOnFail": true } },
+ *     "rules": { "INV-TODO": "off", "INV-ANY-TYPE": "high" },
+ *     "entities": { "softDelete": ["organizations", "invoices"] },
+ *     "guardOrder": [["JwtAuthGuard"], ["RolesGuard", "PermissionsGuard"], ["OrgScopeGuard"]],
+ *     "exclude": ["src/generated/**"],
+ *     "plugins": ["./sop/payments-plugin.ts"]
+ *   }
+ *
+ * Entity lists not set in the config are derived from the project's Prisma
+ * schema when one is found (see prisma-schema.ts), else the built-in lists.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { parse as parseYaml } from 'yaml';
+import {
+  ValidationResult,
+  Violation,
+  Warning,
+  EntityConfig,
+  DEFAULT_ENTITIES,
+  GuardOrder,
+  DEFAULT_GUARD_ORDER,
+} from './validators';
+import {
+  METRIC_DEFINITIONS,
+  DEFAULT_GATING_CONFIG,
+  STRICT_GATING_CONFIG,
+  GatingConfig,
+  MetricDefinition,
+} from './metrics-config';
+import { rescoreResult } from './diff-filter';
+import { findPrismaSchema, loadPrismaSchema, entitiesFromSchema } from './prisma-schema';
+import { loadPlugins, resolvePlugin, getPluginMetrics } from './plugins';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RuleSetting = 'off' | 'warning' | Violation['severity'];
+
+export interface MetricOverride {
+  /** Set to false to skip the validator entirely */
+  enabled?: boolean;
+  weight?: number;
+  blockOnFail?: boolean;
+  thresholds?: Partial<MetricDefinition['thresholds']>;
+}
+
+/** Shape of a config file; every field is optional */
+export interface ProjectConfig {
+  gating?: Partial<GatingConfig>;
+  strictGating?: Partial<GatingConfig>;
+  metrics?: Record<string, MetricOverride>;
+  rules?: Record<string, RuleSetting>;
+  entities?: Partial<EntityConfig>;
+
+  /** Guard hierarchy, first level authenticates (see DEFAULT_GUARD_ORDER) */
+  guardOrder?: GuardOrder;
+  include?: string[];
+  exclude?: string[];
+
+  /** Path to schema.prisma (or a schema folder), or false to skip discovery */
+  schema?: string | false;
+
+  /** Plugin paths (relative to the config file) or package names, see plugins.ts */
+  plugins?: string[];
+}
+
+/** Config with defaults applied, ready to use */
+export interface ResolvedConfig {
+  /** File the config was loaded from, if any */
+  path?: string;
+
+  /** Prisma schema the entity lists were derived from, if any */
+  schemaPath?: string;
+  gating: GatingConfig;
+  strictGating: GatingConfig;
+  metrics: MetricDefinition[];
+  disabledMetrics: string[];
+  rules: Record<string, RuleSetting>;
+  entities: EntityConfig;
+  guardOrder: GuardOrder;
+  include: string[];
+  exclude: string[];
+
+  /** Module paths of the config's plugins, loaded by loadProjectConfig */
+  plugins: string[];
+}
+
+// ============================================================================
+// FILE GLOBS
+// ============================================================================
+
+export const DEFAULT_INCLUDE = ['*.ts'];
+
+export const DEFAULT_EXCLUDE = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '*.spec.ts',
+  '*.test.ts',
+  '*.d.ts',
+  'sop-validate.config.ts',
+];
+
+/**
+ * Match a relative path against a glob. Patterns without a slash match the
+ * file name at any depth (`*.spec.ts`); `**` matches any number of
+ * directories, including none (`**\/dist/**` matches `dist/x.js`).
+ */
+export function matchGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.split(path.sep).join('/');
+  const target = pattern.includes('/') ? normalized : path.posix.basename(normalized);
+
+  const regex = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '{{GLOBSTAR_DIR}}')
+    .replace(/\*\*/g, '{{GLOBSTAR}}')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/{{GLOBSTAR_DIR}}/g, '(?:.*/)?')
+    .replace(/{{GLOBSTAR}}/g, '.*');
+
+  return new RegExp(`^${regex}$`).test(target);
+}
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+const CONFIG_FILES = [
+  '.sopvalidaterc',
+  '.sopvalidaterc.json',
+  '.sopvalidaterc.yaml',
+  '.sopvalidaterc.yml',
+  'sop-validate.config.ts',
+  'sop-validate.config.js',
+];
+
+/**
+ * Find the nearest config file, searching `startDir` and its parents.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Identity helper so `sop-validate.config.ts` files get type checking:
+ *
+ *   export default defineConfig({ rules: { 'INV-TODO': 'off' } });
+ */
+export function defineConfig(config: ProjectConfig): ProjectConfig {
+  return config;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Evaluate a .ts or .js file as a CommonJS module, transpiling TypeScript on
+ * the fly, and return its default export (or module.exports). Used for
+ * config files and plugins, which shouldn't need a build step.
+ */
+export function evaluateModule(modulePath: string): unknown {
+  const content = fs.readFileSync(modulePath, 'utf-8');
+  const source = path.extname(modulePath) === '.ts'
+    ? ts.transpileModule(content, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+        fileName: modulePath,
+      }).outputText
+    : content;
+
+  const module: { exports: unknown } = { exports: {} };
+  const localRequire = (id: string) =>
+    require(id.startsWith('.') ? path.resolve(path.dirname(modulePath), id) : id);
+  new Function('module', 'exports', 'require', '__filename', '__dirname', source)(
+    module, module.exports, localRequire, modulePath, path.dirname(modulePath)
+  );
+  return defaultExport(module.exports);
+}
+
+/** A module's default export, or the module itself without one */
+export function defaultExport(exported: unknown): unknown {
+  return isObject(exported) && exported.default !== undefined ? exported.default : exported;
+}
+
+function readConfigFile(configPath: string): unknown {
+  const ext = path.extname(configPath);
+  if (ext === '.ts' || ext === '.js') return evaluateModule(configPath);
+
+  const content = fs.readFileSync(configPath, 'utf-8');
+  if (ext === '.json') return JSON.parse(content);
+
+  // .sopvalidaterc may be either; YAML is a superset of JSON
+  return parseYaml(content);
+}
+
+/**
+ * Load and validate a config file. Throws an Error listing every problem
+ * found when the file can't be parsed or doesn't match the schema.
+ */
+export function loadProjectConfig(configPath: string): ProjectConfig {
+  let data: unknown;
+  try {
+    data = readConfigFile(configPath);
+  } catch (e: any) {
+    throw new Error(`Could not load config ${configPath}: ${e.message}`);
+  }
+
+  // Plugins first, so their metrics can be configured in the same file. This
+  // is the only place plugins are loaded; mergeConfig just resolves their paths
+  if (isObject(data) && isStringArray(data.plugins)) {
+    loadPlugins(data.plugins, path.dirname(configPath));
+  }
+
+  const issues = validateProjectConfig(data ?? {});
+  if (issues.length > 0) {
+    throw new Error(`Invalid config ${configPath}:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+  }
+
+  return (data ?? {}) as ProjectConfig;
+}
+
+/**
+ * Load the explicit config, or the nearest discovered one, and merge it
+ * over the defaults.
+ */
+export function resolveConfig(options: { configPath?: string; searchFrom: string }): ResolvedConfig {
+  const configPath = options.configPath ?? findConfigFile(options.searchFrom);
+  const config = configPath ? loadProjectConfig(configPath) : {};
+
+  let schemaPath: string | undefined;
+  if (typeof config.schema === 'string') {
+    schemaPath = path.resolve(path.dirname(configPath!), config.schema);
+    if (!fs.existsSync(schemaPath)) {
+      throw new Error(`Invalid config ${configPath}:\n  - schema: ${schemaPath} does not exist`);
+    }
+  } else if (config.schema !== false) {
+    schemaPath = findPrismaSchema(options.searchFrom);
+  }
+
+  return mergeConfig(config, configPath, schemaPath);
+}
+
+/**
+ * Merge a project config over the defaults. The config's plugins must
+ * already be loaded (loadProjectConfig does that).
+ */
+export function mergeConfig(
+  config: ProjectConfig,
+  configPath?: string,
+  schemaPath?: string
+): ResolvedConfig {
+  const baseDir = configPath ? path.dirname(configPath) : process.cwd();
+  const plugins = (config.plugins ?? []).map(spec => resolvePlugin(spec, baseDir));
+
+  const metrics = [...METRIC_DEFINITIONS, ...getPluginMetrics()].map(metric => {
+    const override = config.metrics?.[metric.name];
+    if (!override) return metric;
+    return {
+      ...metric,
+      weight: override.weight ?? metric.weight,
+      blockOnFail: override.blockOnFail ?? metric.blockOnFail,
+      thresholds: { ...metric.thresholds, ...override.thresholds },
+    };
+  });
+
+  const schemaEntities = schemaPath ? entitiesFromSchema(loadPrismaSchema(schemaPath).models) : {};
+
+  return {
+    path: configPath,
+    schemaPath,
+    gating: { ...DEFAULT_GATING_CONFIG, ...config.gating },
+    strictGating: { ...STRICT_GATING_CONFIG, ...config.strictGating },
+    metrics,
+    disabledMetrics: Object.entries(config.metrics ?? {})
+      .filter(([, override]) => override.enabled === false)
+      .map(([name]) => name),
+    rules: config.rules ?? {},
+    entities: { ...DEFAULT_ENTITIES, ...schemaEntities, ...config.entities },
+    guardOrder: config.guardOrder ?? DEFAULT_GUARD_ORDER,
+    include: config.include ?? DEFAULT_INCLUDE,
+    exclude: config.exclude ?? DEFAULT_EXCLUDE,
+    plugins,
+  };
+}
+
+// ============================================================================
+// SCHEMA VALIDATION
+// ============================================================================
+
+const GATING_KEYS: Record<keyof GatingConfig, 'number' | 'boolean'> = {
+  minimumScore: 'number',
+  blockOnBlockers: 'boolean',
+  failOnWarnings: 'boolean',
+  maxBlockers: 'number',
+  maxWarnings: 'number',
+};
+
+const RULE_SETTINGS: RuleSetting[] = ['off', 'warning', 'medium', 'high', 'critical'];
+
+const ENTITY_KEYS: (keyof EntityConfig)[] = ['softDelete', 'tenantExempt', 'audited'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isScore(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * Check a parsed config against the ProjectConfig schema. Returns one
+ * message per problem, each prefixed with the offending key path.
+ */
+export function validateProjectConfig(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(data)) return ['config must be an object'];
+
+  const known = ['gating', 'strictGating', 'metrics', 'rules', 'entities', 'guardOrder', 'include', 'exclude', 'schema', 'plugins'];
+  for (const key of Object.keys(data)) {
+    if (!known.includes(key)) issues.push(`${key}: unknown option (expected one of ${known.join(', ')})`);
+  }
+
+  for (const section of ['gating', 'strictGating']) {
+    const gating = data[section];
+    if (gating === undefined) continue;
+    if (!isObject(gating)) {
+      issues.push(`${section}: must be an object`);
+      continue;
+    }
+    for (const [key, value] of Object.entries(gating)) {
+      const expected = GATING_KEYS[key as keyof GatingConfig];
+      if (!expected) {
+        issues.push(`${section}.${key}: unknown option`);
+      } else if (typeof value !== expected) {
+        issues.push(`${section}.${key}: must be a ${expected}`);
+      } else if (key === 'minimumScore' && !isScore(value)) {
+        issues.push(`${section}.${key}: must be between 0 and 1`);
+      } else if ((key === 'maxBlockers' || key === 'maxWarnings') && (value as number) < 0) {
+        issues.push(`${section}.${key}: must not be negative`);
+      }
+    }
+  }
+
+  if (data.metrics !== undefined) {
+    if (!isObject(data.metrics)) {
+      issues.push('metrics: must be an object keyed by metric name');
+    } else {
+      const metricNames = [...METRIC_DEFINITIONS, ...getPluginMetrics()].map(m => m.name as string);
+      for (const [name, override] of Object.entries(data.metrics)) {
+        const at = `metrics.${name}`;
+        if (!metricNames.includes(name)) {
+          issues.push(`${at}: unknown metric (expected one of ${metricNames.join(', ')})`);
+          continue;
+        }
+        if (!isObject(override)) {
+          issues.push(`${at}: must be an object`);
+          continue;
+        }
+        for (const [key, value] of Object.entries(override)) {
+          if (key === 'enabled' || key === 'blockOnFail') {
+            if (typeof value !== 'boolean') issues.push(`${at}.${key}: must be a boolean`);
+          } else if (key === 'weight') {
+            if (typeof value !== 'number' || value < 0) issues.push(`${at}.weight: must be a non-negative number`);
+          } else if (key === 'thresholds') {
+            if (!isObject(value)) {
+              issues.push(`${at}.thresholds: must be an object`);
+              continue;
+            }
+            for (const [level, threshold] of Object.entries(value)) {
+              if (!['pass', 'warn', 'fail'].includes(level)) {
+                issues.push(`${at}.thresholds.${level}: unknown threshold (expected pass, warn or fail)`);
+              } else if (!isScore(threshold)) {
+                issues.push(`${at}.thresholds.${level}: must be a number between 0 and 1`);
+              }
+            }
+          } else {
+            issues.push(`${at}.${key}: unknown option`);
+          }
+        }
+      }
+    }
+  }
+
+  if (data.rules !== undefined) {
+    if (!isObject(data.rules)) {
+      issues.push('rules: must be an object keyed by rule id');
+    } else {
+      for (const [rule, setting] of Object.entries(data.rules)) {
+        if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+          issues.push(`rules.${rule}: must be one of ${RULE_SETTINGS.join(', ')}`);
+        }
+      }
+    }
+  }
+
+  if (data.entities !== undefined) {
+    if (!isObject(data.entities)) {
+      issues.push('entities: must be an object');
+    } else {
+      for (const [key, value] of Object.entries(data.entities)) {
+        if (!ENTITY_KEYS.includes(key as keyof EntityConfig)) {
+          issues.push(`entities.${key}: unknown entity list (expected one of ${ENTITY_KEYS.join(', ')})`);
+        } else if (!isStringArray(value)) {
+          issues.push(`entities.${key}: must be an array of table names`);
+        }
+      }
+    }
+  }
+
+  if (data.guardOrder !== undefined &&
+      (!Array.isArray(data.guardOrder) || data.guardOrder.length === 0 || !data.guardOrder.every(isStringArray))) {
+    issues.push('guardOrder: must be a non-empty array of guard name lists, e.g. [["JwtAuthGuard"], ["RolesGuard"]]');
+  }
+
+  if (data.schema !== undefined && typeof data.schema !== 'string' && data.schema !== false) {
+    issues.push('schema: must be a path to schema.prisma or false');
+  }
+
+  for (const key of ['include', 'exclude']) {
+    if (data[key] !== undefined && !isStringArray(data[key])) {
+      issues.push(`${key}: must be an array of glob patterns`);
+    }
+  }
+
+  if (data.plugins !== undefined && !isStringArray(data.plugins)) {
+    issues.push('plugins: must be an array of paths or package names');
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// RULE OVERRIDES
+// ============================================================================
+
+/**
+ * Apply per-rule settings to a result: drop rules that are off and move
+ * findings between violations and warnings when their severity changes.
+ * The result is regated on the new severities.
+ */
+export function applyRuleOverrides(
+  result: ValidationResult,
+  rules: Record<string, RuleSetting>
+): ValidationResult {
+  if (!Object.keys(rules).some(rule =>
+    result.violations.some(v => v.rule === rule) || result.warnings.some(w => w.rule === rule))) {
+    return result;
+  }
+
+  const violations: Violation[] = [];
+  const warnings: Warning[] = [];
+
+  const place = (finding: Violation | Warning, current: RuleSetting) => {
+    const setting = rules[finding.rule] ?? current;
+    if (setting === 'off') return;
+
+    if (setting === 'warning') {
+      const { file, line, rule, message } = finding;
+      warnings.push({ file, line, rule, message });
+      return;
+    }
+
+    violations.push({ ...finding, severity: setting });
+  };
+
+  for (const v of result.violations) place(v, v.severity);
+  for (const w of result.warnings) place(w, 'warning');
+
+  return rescoreResult(result, violations, warnings);
+}
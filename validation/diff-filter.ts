@@ -0,0 +1,107 @@
+/**
+ * SOP Diff Filter - Scope validation results to the lines a change touched
+ *
+ * Validators always analyze whole files, because most rules need the
+ * surrounding method or class. In diff modes (--staged, --changed, --commit,
+ * --branch) this step attributes each violation and warning to the changed
+ * hunks: findings on changed lines gate the run, everything else is kept
+ * aside as pre-existing so a one-line edit to a legacy file isn't blocked by
+ * debt it didn't introduce.
+ */
+
+import { ValidationResult, Violation, Warning, scorerForMetric } from './validators';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PreExistingFindings = NonNullable<ValidationResult['preExisting']>;
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+/**
+ * True when a finding was introduced by the change. Files without changed
+ * line information (e.g. newly added files the diff couldn't be read for)
+ * count as entirely new.
+ */
+export function isOnChangedLine(
+  finding: { file: string; line: number },
+  changedLines: Map<string, Set<number>>
+): boolean {
+  const lines = changedLines.get(finding.file);
+  return !lines || lines.has(finding.line);
+}
+
+/**
+ * Move every finding `isIntroduced` rejects into the result's pre-existing
+ * findings, then rescore and regate it on the remaining ones. Findings are
+ * visited once each, in order, so stateful predicates (e.g. baseline
+ * matching) are safe.
+ */
+export function partitionResult(
+  result: ValidationResult,
+  isIntroduced: (finding: Violation | Warning) => boolean
+): ValidationResult {
+  const violations: Violation[] = [];
+  const warnings: Warning[] = [];
+  const preExisting: PreExistingFindings = {
+    violations: [...(result.preExisting?.violations ?? [])],
+    warnings: [...(result.preExisting?.warnings ?? [])],
+  };
+
+  for (const v of result.violations) {
+    (isIntroduced(v) ? violations : preExisting.violations).push(v);
+  }
+  for (const w of result.warnings) {
+    (isIntroduced(w) ? warnings : preExisting.warnings).push(w);
+  }
+
+  if (violations.length === result.violations.length && warnings.length === result.warnings.length) {
+    return result;
+  }
+
+  return { ...rescoreResult(result, violations, warnings), preExisting };
+}
+
+/**
+ * Replace a result's findings (usually with a subset of them), then rescore
+ * and regate it on the new findings with the validator's scorer. Plugin
+ * validators without a scorer keep their score and fail on any remaining
+ * critical or high violation.
+ */
+export function rescoreResult(
+  result: ValidationResult,
+  violations: Violation[],
+  warnings: Warning[]
+): ValidationResult {
+  const scorer = scorerForMetric(result.metric);
+  const { score, passed } = scorer
+    ? scorer({ violations, warnings, tally: result.tally })
+    : { score: result.score, passed: !violations.some(v => v.severity === 'critical' || v.severity === 'high') };
+
+  return {
+    ...result,
+    score,
+    passed,
+    violations,
+    warnings,
+  };
+}
+
+/**
+ * Split a result into findings on changed lines and pre-existing ones, then
+ * rescore and regate it on the introduced findings only.
+ */
+export function applyDiffFilter(
+  result: ValidationResult,
+  changedLines: Map<string, number[]>
+): ValidationResult {
+  const lineSets = new Map<string, Set<number>>();
+  for (const [file, lines] of changedLines) {
+    lineSets.set(file, new Set(lines));
+  }
+
+  return partitionResult(result, finding => isOnChangedLine(finding, lineSets));
+}
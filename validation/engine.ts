@@ -0,0 +1,391 @@
+/**
+ * SOP Validation Engine
+ *
+ * The one place validators are selected, run, post-processed and scored.
+ * cli.ts, runner.ts and claude-code-validator.ts only gather files and
+ * format the ValidationSummary this returns, so every entry point reports
+ * the same score and pass/fail for the same code.
+ *
+ * Pipeline: validators (across worker threads with jobs > 1, parallel.ts)
+ * → rule overrides → sop-disable comments → baseline → diff filter
+ * → weighted score and gating (metrics-config.ts), or the ratchet
+ * (ratchet.ts) in its place.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  validators,
+  ValidatorName,
+  ValidationContext,
+  ValidationResult,
+  Violation,
+} from './validators';
+import { applyDiffFilter } from './diff-filter';
+import { runValidators } from './parallel';
+import { runValidatorsCached, CacheStats } from './cache';
+import { applyBaseline, loadBaseline, BaselineEntry, BaselineLocation } from './baseline';
+import { applySuppressions, SuppressionReport } from './suppressions';
+import { applyRatchet, loadRatchet, formatRatchetRegression, RatchetOutcome, RatchetLocation } from './ratchet';
+import { calculateWeightedScore, evaluateGating, MetricDefinition } from './metrics-config';
+import { resolveConfig, applyRuleOverrides, matchGlob, ResolvedConfig } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EngineOptions {
+  /** Directory to analyze; file keys are relative to it (default: cwd) */
+  targetDir?: string;
+
+  /** Files to analyze, keyed by path (default: included files under targetDir) */
+  files?: Map<string, string>;
+
+  /** Patterns added to the project config's include/exclude globs */
+  include?: string[];
+  exclude?: string[];
+
+  /** Specific validators to run */
+  validators?: ValidatorName[];
+
+  /** SOP files whose validators to run (ignored when validators are given) */
+  sopFiles?: string[];
+
+  /** Run general-practices when running all validators (default: true) */
+  includeGeneral?: boolean;
+
+  /** Resolved project config (default: discovered from targetDir) */
+  config?: ResolvedConfig;
+
+  /** Gate with the config's strict gating */
+  strict?: boolean;
+
+  /** Fail when any warning remains */
+  failOnWarnings?: boolean;
+
+  /** Changed lines per file; findings elsewhere are reported but not gated */
+  changedLines?: Map<string, number[]>;
+
+  /** Baseline file of grandfathered violations */
+  baseline?: BaselineLocation;
+
+  /** Ratchet file; gate on regressions against it instead of thresholds */
+  ratchet?: RatchetLocation;
+
+  /** Worker threads to shard files across (default: 1, no workers) */
+  jobs?: number;
+
+  /** Directory for cached per-file findings (default: no cache) */
+  cacheDir?: string;
+}
+
+export interface ValidationSummary {
+  timestamp: string;
+  targetDir: string;
+  filesAnalyzed: number;
+
+  /** Paths of the analyzed files, as keyed in the findings */
+  files: string[];
+  totalScore: number;
+  passed: boolean;
+
+  /** Why gating failed */
+  reason?: string;
+
+  /** Critical and high violations */
+  blockers: number;
+  warnings: number;
+  suggestions: number;
+  results: ValidationResult[];
+
+  /** One entry per result, in the same order */
+  metrics: MetricSummary[];
+
+  /** Findings outside the changed lines */
+  preExisting: number;
+
+  /** Findings silenced by sop-disable comments */
+  suppressed: number;
+
+  /** Violations suppressed by the baseline */
+  baselined?: number;
+
+  /** Baseline entries that no longer occur */
+  staleBaseline?: BaselineEntry[];
+
+  /** sop-disable comments in the analyzed files */
+  suppressions: SuppressionReport;
+
+  /** Comparison with the ratchet file, in ratchet mode */
+  ratchet?: RatchetOutcome;
+
+  /** Cache hits and misses, when a cache dir was given */
+  cache?: CacheStats;
+}
+
+export interface MetricSummary {
+  name: ValidatorName;
+  displayName: string;
+  sopFile: string;
+  score: number;
+  passed: boolean;
+  blockOnFail: boolean;
+  violationCount: number;
+  warningCount: number;
+}
+
+// ============================================================================
+// VALIDATOR SELECTION
+// ============================================================================
+
+/**
+ * Validators for an SOP file, from the metric definitions' `sopFile`.
+ */
+export function getValidatorsForSop(
+  sopFile: string,
+  metrics: MetricDefinition[]
+): ValidatorName[] {
+  return metrics.filter(m => m.sopFile === sopFile).map(m => m.name);
+}
+
+/**
+ * Validators a run selects: those given, those of the SOP files given, or
+ * all of them, minus metrics the project config disables.
+ */
+export function selectValidators(options: EngineOptions, config: ResolvedConfig): ValidatorName[] {
+  let selected: ValidatorName[];
+
+  if (options.validators && options.validators.length > 0) {
+    selected = [...options.validators];
+  } else if (options.sopFiles && options.sopFiles.length > 0) {
+    selected = options.sopFiles.flatMap(sop => getValidatorsForSop(sop, config.metrics));
+  } else {
+    // Run all validators
+    selected = (Object.keys(validators) as ValidatorName[])
+      .filter(name => options.includeGeneral !== false || name !== 'general-practices');
+  }
+
+  // Deduplicate and drop metrics the project config disables
+  return [...new Set(selected)].filter(name => !config.disabledMetrics.includes(name));
+}
+
+/**
+ * Violations that count as blockers for gating.
+ */
+export function isBlockingViolation(violation: Violation): boolean {
+  return violation.severity === 'critical' || violation.severity === 'high';
+}
+
+// ============================================================================
+// FILE LOADING
+// ============================================================================
+
+/**
+ * Whether a path passes the include/exclude globs. Excludes win; no
+ * includes means everything not excluded.
+ */
+export function matchesFilePatterns(
+  filePath: string,
+  include: string[],
+  exclude: string[]
+): boolean {
+  if (exclude.some(pattern => matchGlob(filePath, pattern))) return false;
+  return include.length === 0 || include.some(pattern => matchGlob(filePath, pattern));
+}
+
+/**
+ * Read every included file under `dir`, keyed by its path relative to `dir`.
+ */
+export function loadDirectory(
+  dir: string,
+  include: string[],
+  exclude: string[]
+): Map<string, string> {
+  const contents = new Map<string, string>();
+
+  function walkDir(currentDir: string) {
+    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentDir, entry.name);
+      const relativePath = path.relative(dir, fullPath);
+
+      if (entry.isDirectory()) {
+        // Directories are only pruned by excludes; includes apply to files
+        if (!exclude.some(pattern => matchGlob(`${relativePath}/`, pattern))) {
+          walkDir(fullPath);
+        }
+      } else if (entry.isFile()) {
+        if (!matchesFilePatterns(relativePath, include, exclude)) continue;
+
+        try {
+          contents.set(relativePath, fs.readFileSync(fullPath, 'utf-8'));
+        } catch {
+          console.error(`Warning: Could not read ${relativePath}`);
+        }
+      }
+    }
+  }
+
+  if (fs.existsSync(dir)) {
+    walkDir(dir);
+  }
+
+  return contents;
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export function runEngine(options: EngineOptions): ValidationSummary {
+  const targetDir = options.targetDir ?? process.cwd();
+  const config = options.config ?? resolveConfig({ searchFrom: targetDir });
+
+  const fileContents = options.files ?? loadDirectory(
+    targetDir,
+    [...config.include, ...(options.include ?? [])],
+    [...config.exclude, ...(options.exclude ?? [])]
+  );
+
+  // Validators see whole files; diff scoping happens after
+  const ctx: ValidationContext = {
+    files: Array.from(fileContents.keys()),
+    fileContents,
+    changedLines: options.changedLines,
+    entities: config.entities,
+    guardOrder: config.guardOrder,
+  };
+
+  const ran = (fileContents.size > 0 ? selectValidators(options, config) : [])
+    .filter(name => validators[name]);
+  const validated = options.cacheDir
+    ? runValidatorsCached(ran, ctx, {
+        cacheDir: options.cacheDir,
+        targetDir,
+        config,
+        jobs: options.jobs,
+        wholeDirectory: !options.files,
+      })
+    : { results: runValidators(ran, ctx, options.jobs), stats: undefined };
+  let results = validated.results.map(result => applyRuleOverrides(result, config.rules));
+
+  // Inline sop-disable comments apply to every validator's findings
+  const suppressed = applySuppressions(results, ctx);
+  results = suppressed.results;
+
+  // Baseline before the diff filter, so entries on unchanged lines aren't mistaken for stale
+  let baselineOutcome: ReturnType<typeof applyBaseline> | undefined;
+  if (options.baseline) {
+    const baseline = loadBaseline(options.baseline.baselinePath);
+    baselineOutcome = applyBaseline(results, baseline, fileContents, options.baseline);
+    results = baselineOutcome.results;
+  }
+
+  if (options.changedLines) {
+    const changedLines = options.changedLines;
+    results = results.map(result => applyDiffFilter(result, changedLines));
+  }
+
+  const summary = summarize(results, ran, options, config, {
+    targetDir,
+    filesAnalyzed: fileContents.size,
+    files: ctx.files,
+    suppressions: suppressed.report,
+    baselined: baselineOutcome?.suppressed,
+    staleBaseline: baselineOutcome?.stale,
+    cache: validated.stats,
+  });
+
+  return options.ratchet ? applyRatchetGating(summary, options.ratchet) : summary;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function summarize(
+  results: ValidationResult[],
+  ran: ValidatorName[],
+  options: EngineOptions,
+  config: ResolvedConfig,
+  run: Pick<
+    ValidationSummary,
+    'targetDir' | 'filesAnalyzed' | 'files' | 'suppressions' | 'baselined' | 'staleBaseline' | 'cache'
+  >
+): ValidationSummary {
+  const scores = new Map<ValidatorName, number>();
+  const metrics: MetricSummary[] = [];
+  let blockers = 0;
+  let warnings = 0;
+  let suggestions = 0;
+  let preExisting = 0;
+  let suppressed = 0;
+
+  results.forEach((result, i) => {
+    const name = ran[i];
+    const definition = config.metrics.find(m => m.name === name);
+
+    scores.set(name, result.score);
+    blockers += result.violations.filter(isBlockingViolation).length;
+    warnings += result.warnings.length;
+    suggestions += result.suggestions.length;
+    suppressed += result.suppressed?.length ?? 0;
+    if (result.preExisting) {
+      preExisting += result.preExisting.violations.length + result.preExisting.warnings.length;
+    }
+
+    metrics.push({
+      name,
+      displayName: definition?.displayName ?? name,
+      sopFile: result.sopFile,
+      score: result.score,
+      passed: result.passed,
+      blockOnFail: definition?.blockOnFail ?? false,
+      violationCount: result.violations.length,
+      warningCount: result.warnings.length,
+    });
+  });
+
+  let gating = options.strict ? config.strictGating : config.gating;
+  if (options.failOnWarnings) {
+    gating = { ...gating, failOnWarnings: true, maxWarnings: 0 };
+  }
+
+  const gatingResult = run.filesAnalyzed === 0
+    ? { passed: true, reason: 'No files to validate' }
+    : evaluateGating(scores, blockers, warnings, gating, config.metrics);
+
+  return {
+    timestamp: new Date().toISOString(),
+    ...run,
+    totalScore: calculateWeightedScore(scores, config.metrics),
+    passed: gatingResult.passed,
+    reason: gatingResult.reason,
+    blockers,
+    warnings,
+    suggestions,
+    results,
+    metrics,
+    preExisting,
+    suppressed,
+  };
+}
+
+/**
+ * Ratchet mode: the run passes unless a metric regressed against the
+ * recorded values, whatever the absolute thresholds say.
+ */
+function applyRatchetGating(summary: ValidationSummary, location: RatchetLocation): ValidationSummary {
+  if (summary.filesAnalyzed === 0) return summary;
+
+  const ratchet = applyRatchet(loadRatchet(location.ratchetPath), summary.metrics, location.scope);
+  const passed = ratchet.regressions.length === 0;
+
+  return {
+    ...summary,
+    passed,
+    reason: passed ? undefined : `Ratchet: ${ratchet.regressions.map(formatRatchetRegression).join('; ')}`,
+    ratchet,
+  };
+}
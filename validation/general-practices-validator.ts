@@ -5,7 +5,8 @@
  * These are NOT codebase-specific rules - they apply to any code Claude writes.
  */
 
-import { ValidationResult, Violation, Warning, ValidationContext } from './validators';
+import { ValidationResult, Violation, Warning, ValidationContext, ScoringInput, Score } from './validators';
+import { getPluginRules } from './plugins';
 
 // ============================================================================
 // GENERAL BEST PRACTICES RULES
@@ -553,6 +554,15 @@ const maintainabilityRules: GeneralRule[] = [
 // MAIN VALIDATOR
 // ============================================================================
 
+export function scoreGeneralPractices({ violations, warnings }: ScoringInput): Score {
+  const criticalCount = violations.filter(v => v.severity === 'critical').length;
+  const highCount = violations.filter(v => v.severity === 'high').length;
+  return {
+    score: Math.max(0, 1 - (criticalCount * 0.3) - (highCount * 0.1) - (warnings.length * 0.02)),
+    passed: criticalCount === 0,
+  };
+}
+
 export function validateGeneralPractices(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
@@ -564,6 +574,7 @@ export function validateGeneralPractices(ctx: ValidationContext): ValidationResu
     ...performanceRules,
     ...reliabilityRules,
     ...maintainabilityRules,
+    ...getPluginRules(),
   ];
 
   for (const [filename, content] of ctx.fileContents) {
@@ -610,15 +621,10 @@ export function validateGeneralPractices(ctx: ValidationContext): ValidationResu
     });
   }
 
-  const criticalCount = violations.filter(v => v.severity === 'critical').length;
-  const highCount = violations.filter(v => v.severity === 'high').length;
-  const score = Math.max(0, 1 - (criticalCount * 0.3) - (highCount * 0.1) - (warnings.length * 0.02));
-
   return {
     sopFile: 'general-practices',
     metric: 'general-best-practices',
-    score,
-    passed: criticalCount === 0,
+    ...scoreGeneralPractices({ violations, warnings }),
     violations,
     warnings,
     suggestions,
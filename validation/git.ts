@@ -0,0 +1,262 @@
+/**
+ * SOP Git Helpers - Changed files, changed lines and file contents at a revision
+ *
+ * Paths are relative to the repository root, as git reports them. Contents of
+ * historical revisions come from the object database, so they don't depend on
+ * what is checked out and work in bare clones.
+ */
+
+import { execSync } from 'child_process';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  content?: string;
+  changedLines?: number[];
+}
+
+// ============================================================================
+// REPOSITORY
+// ============================================================================
+
+export function getGitRoot(): string {
+  try {
+    return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8', stdio: 'pipe' }).trim();
+  } catch {
+    // Bare clones have no working tree; revisions are read from the object database
+    if (isBareRepository()) return process.cwd();
+    throw new Error('Not a git repository');
+  }
+}
+
+export function isBareRepository(): boolean {
+  try {
+    return execSync('git rev-parse --is-bare-repository', { encoding: 'utf-8', stdio: 'pipe' }).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// CHANGED FILES
+// ============================================================================
+
+export function getStagedFiles(): FileChange[] {
+  try {
+    const output = execSync('git diff --cached --name-status', { encoding: 'utf-8' });
+    return parseGitStatus(output);
+  } catch {
+    return [];
+  }
+}
+
+export function getChangedFiles(base = 'HEAD'): FileChange[] {
+  try {
+    const output = execSync(`git diff ${base} --name-status`, { encoding: 'utf-8' });
+    return parseGitStatus(output);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * `git` arguments for the changes a single commit made. Merges are compared
+ * with their first parent, i.e. what the merge brought into the branch,
+ * rather than as a combined diff, which leaves out most of their changes.
+ */
+export function commitDiffArgs(commit: string): string {
+  return `show --format= -m --first-parent ${commit}`;
+}
+
+export function getCommitFiles(commit: string): FileChange[] {
+  try {
+    const output = execSync(`git ${commitDiffArgs(commit)} --name-status`, {
+      encoding: 'utf-8',
+    });
+    return parseGitStatus(output);
+  } catch {
+    throw new Error(`Invalid commit: ${commit}`);
+  }
+}
+
+/**
+ * Default base branch: `main` if it exists, otherwise `master`.
+ */
+export function getDefaultBranch(): string {
+  try {
+    execSync('git rev-parse --verify main', { encoding: 'utf-8', stdio: 'pipe' });
+    return 'main';
+  } catch {
+    return 'master';
+  }
+}
+
+export function getMergeBase(branch: string, base = getDefaultBranch()): string {
+  return execSync(`git merge-base ${base} ${branch}`, {
+    encoding: 'utf-8',
+  }).trim();
+}
+
+export function getBranchChanges(branch: string, base?: string): FileChange[] {
+  try {
+    const mergeBase = getMergeBase(branch, base);
+
+    const output = execSync(`git diff ${mergeBase}..${branch} --name-status`, {
+      encoding: 'utf-8',
+    });
+    return parseGitStatus(output);
+  } catch (e) {
+    throw new Error(`Failed to get branch changes: ${e}`);
+  }
+}
+
+export function parseGitStatus(output: string): FileChange[] {
+  const files: FileChange[] = [];
+  const lines = output.trim().split('\n').filter(Boolean);
+
+  for (const line of lines) {
+    // Renames and copies list the old and new path; the new one is what exists
+    const [status, ...paths] = line.split('\t');
+    const filePath = paths[paths.length - 1];
+    if (!filePath) continue;
+
+    let fileStatus: 'added' | 'modified' | 'deleted';
+    if (status === 'A') fileStatus = 'added';
+    else if (status === 'D') fileStatus = 'deleted';
+    else fileStatus = 'modified';
+
+    files.push({ path: filePath, status: fileStatus });
+  }
+
+  return files;
+}
+
+// ============================================================================
+// CHANGED LINES
+// ============================================================================
+
+/**
+ * Lines added or modified in a file, as 1-based line numbers of its new
+ * version. `diffArgs` selects the comparison, e.g. `diff --cached` for staged
+ * changes or commitDiffArgs(commit) for a single commit.
+ */
+export function getChangedLines(filePath: string, diffArgs = 'diff HEAD'): number[] {
+  try {
+    // Paths from --name-status are relative to the repository root
+    const output = execSync(`git ${diffArgs} -U0 -- "${filePath}"`, {
+      encoding: 'utf-8',
+      cwd: getGitRoot(),
+    });
+
+    const changedLines: number[] = [];
+    const lines = output.split('\n');
+
+    for (const line of lines) {
+      // Parse @@ -old,count +new,count @@ (and combined @@@ -a -b +new @@@) hunks
+      const match = line.match(/^@@+ (?:-\d+(?:,\d+)? )+\+(\d+)(?:,(\d+))? @@/);
+      if (match) {
+        const start = parseInt(match[1], 10);
+        const count = parseInt(match[2] || '1', 10);
+        for (let i = 0; i < count; i++) {
+          changedLines.push(start + i);
+        }
+      }
+    }
+
+    return changedLines;
+  } catch {
+    return [];
+  }
+}
+
+export function collectChangedLines(
+  fileContents: Map<string, string>,
+  diffArgs: string
+): Map<string, number[]> {
+  const changedLines = new Map<string, number[]>();
+  for (const file of fileContents.keys()) {
+    changedLines.set(file, getChangedLines(file, diffArgs));
+  }
+  return changedLines;
+}
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/**
+ * Full commit id for a ref, so both sides of a comparison stay fixed even if
+ * a branch moves while the run is in progress.
+ */
+export function resolveRevision(ref: string): string {
+  try {
+    return execSync(`git rev-parse --verify "${ref}^{commit}"`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    }).trim();
+  } catch {
+    throw new Error(`Unknown revision: ${ref}`);
+  }
+}
+
+/** Every file tracked at a revision, relative to the repository root */
+export function listFiles(revision: string): string[] {
+  const output = execSync(`git ls-tree -r --name-only ${revision}`, {
+    encoding: 'utf-8',
+    cwd: getGitRoot(),
+    stdio: 'pipe',
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Contents of a file at a revision, read from the git object database
+ * rather than the checkout. `filePath` is relative to the repository root.
+ */
+export function readBlob(revision: string, filePath: string): string {
+  return execSync(`git show "${revision}:${filePath}"`, {
+    encoding: 'utf-8',
+    cwd: getGitRoot(),
+    stdio: 'pipe',
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/**
+ * Contents of many files at a revision through a single `git cat-file --batch`
+ * process. Paths that aren't blobs at that revision are left out.
+ */
+export function readBlobs(revision: string, filePaths: string[]): Map<string, string> {
+  const contents = new Map<string, string>();
+  if (filePaths.length === 0) return contents;
+
+  const output = execSync('git cat-file --batch', {
+    cwd: getGitRoot(),
+    input: filePaths.map(p => `${revision}:${p}`).join('\n') + '\n',
+    stdio: 'pipe',
+    maxBuffer: 512 * 1024 * 1024,
+  });
+
+  // Each object is "<sha> <type> <size>\n<content>\n"; missing ones are "<name> missing\n"
+  let offset = 0;
+  for (const filePath of filePaths) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    if (headerEnd === -1) break;
+    const header = output.toString('utf-8', offset, headerEnd).match(/^[0-9a-f]+ (\w+) (\d+)$/);
+    offset = headerEnd + 1;
+
+    if (!header) continue;
+    const size = parseInt(header[2], 10);
+    if (header[1] === 'blob') {
+      contents.set(filePath, output.toString('utf-8', offset, offset + size));
+    }
+    offset += size + 1;
+  }
+
+  return contents;
+}
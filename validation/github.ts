@@ -0,0 +1,149 @@
+/**
+ * SOP GitHub Output - Workflow-command annotations and the job summary
+ *
+ * Annotations (`::error file=…,line=…,title=…::message`) make findings show
+ * up inline on the PR diff. Only gated findings are annotated, so in diff
+ * modes nothing outside the changed lines is flagged. The markdown summary
+ * goes to $GITHUB_STEP_SUMMARY when Actions provides it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Violation, Warning } from './validators';
+import { ValidationSummary, isBlockingViolation } from './engine';
+
+// ============================================================================
+// ANNOTATIONS
+// ============================================================================
+
+export type AnnotationLevel = 'error' | 'warning' | 'notice';
+
+/** Escape message data per the workflow-command spec */
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/** Property values additionally escape the `:` and `,` delimiters */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * Paths in annotations are relative to the workspace root, while findings
+ * are keyed relative to the run's target dir.
+ */
+function toWorkspacePath(file: string, targetDir: string): string {
+  const workspace = process.env.GITHUB_WORKSPACE ?? process.cwd();
+  return path.relative(workspace, path.resolve(targetDir, file)).split(path.sep).join('/');
+}
+
+export function formatAnnotation(
+  level: AnnotationLevel,
+  properties: { file: string; line: number; title?: string },
+  message: string
+): string {
+  const props = [`file=${escapeProperty(properties.file)}`, `line=${properties.line}`];
+  if (properties.title) props.push(`title=${escapeProperty(properties.title)}`);
+  return `::${level} ${props.join(',')}::${escapeData(message)}`;
+}
+
+/**
+ * One annotation per gated finding: blocking violations are errors, the
+ * rest warnings. Suppressions are surfaced as notices with their
+ * justification so reviewers see them on the diff.
+ */
+export function formatAnnotations(summary: ValidationSummary): string[] {
+  const lines: string[] = [];
+  const at = (file: string, line: number, title?: string) =>
+    ({ file: toWorkspacePath(file, summary.targetDir), line, title });
+
+  for (const result of summary.results) {
+    for (const v of result.violations) {
+      const level = isBlockingViolation(v) ? 'error' : 'warning';
+      lines.push(formatAnnotation(level, at(v.file, v.line, v.rule), findingMessage(v)));
+    }
+    for (const w of result.warnings) {
+      lines.push(formatAnnotation('warning', at(w.file, w.line, w.rule), findingMessage(w)));
+    }
+  }
+
+  for (const s of summary.suppressions.suppressions) {
+    lines.push(formatAnnotation(
+      'notice',
+      at(s.file, s.line, `sop-disable ${s.rules.join(', ')}`),
+      s.justification
+    ));
+  }
+  for (const i of summary.suppressions.invalid) {
+    lines.push(formatAnnotation('warning', at(i.file, i.line, 'Invalid sop-disable'), i.reason));
+  }
+
+  return lines;
+}
+
+function findingMessage(finding: Violation | Warning): string {
+  const fix = 'fix' in finding && finding.fix ? `\nFix: ${finding.fix}` : '';
+  return `${finding.message}${fix}`;
+}
+
+// ============================================================================
+// JOB SUMMARY
+// ============================================================================
+
+/** Findings listed in the job summary before it is truncated */
+const MAX_SUMMARY_FINDINGS = 50;
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function formatStepSummary(summary: ValidationSummary): string {
+  let md = '## SOP Validation Summary\n\n';
+
+  md += `| Metric | Value |\n`;
+  md += `|--------|-------|\n`;
+  md += `| Status | ${summary.passed ? '✅ Passed' : '❌ Failed'} |\n`;
+  md += `| Score | ${(summary.totalScore * 100).toFixed(1)}% |\n`;
+  md += `| Files | ${summary.filesAnalyzed} |\n`;
+  md += `| Blockers | ${summary.blockers} |\n`;
+  md += `| Warnings | ${summary.warnings} |\n`;
+  if (summary.suppressed) {
+    md += `| Suppressed | ${summary.suppressed} |\n`;
+  }
+  if (summary.preExisting) {
+    md += `| Pre-existing | ${summary.preExisting} |\n`;
+  }
+  if (summary.staleBaseline?.length) {
+    md += `| Stale baseline entries | ${summary.staleBaseline.length} |\n`;
+  }
+  if (summary.reason) {
+    md += `\n> ${summary.reason}\n`;
+  }
+
+  const violations = summary.results.flatMap(r => r.violations);
+  if (violations.length > 0) {
+    md += `\n### Violations\n\n`;
+    md += `| Severity | Location | Rule | Message |\n`;
+    md += `|----------|----------|------|---------|\n`;
+    for (const v of violations.slice(0, MAX_SUMMARY_FINDINGS)) {
+      const location = `${toWorkspacePath(v.file, summary.targetDir)}:${v.line}`;
+      md += `| ${v.severity.toUpperCase()} | \`${location}\` | ${v.rule} | ${escapeCell(v.message)} |\n`;
+    }
+    if (violations.length > MAX_SUMMARY_FINDINGS) {
+      md += `\n_…and ${violations.length - MAX_SUMMARY_FINDINGS} more._\n`;
+    }
+  }
+
+  return md;
+}
+
+/**
+ * Append the summary to $GITHUB_STEP_SUMMARY. Returns false outside Actions.
+ */
+export function writeStepSummary(summary: ValidationSummary): boolean {
+  const summaryPath = process.env.GITHUB_STEP_SUMMARY;
+  if (!summaryPath) return false;
+
+  fs.appendFileSync(summaryPath, formatStepSummary(summary) + '\n');
+  return true;
+}
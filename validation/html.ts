@@ -0,0 +1,375 @@
+/**
+ * SOP HTML Report - A single self-contained HTML file
+ *
+ * Score overview per SOP file, a sortable and filterable table of every
+ * finding, source excerpts per file with the offending lines highlighted,
+ * and links from each rule to its section in sop-files/*.md. Styles and
+ * scripts are inlined so the report opens offline, e.g. from a CI artifact.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Violation, Warning } from './validators';
+import { ValidationSummary, MetricSummary } from './engine';
+
+// ============================================================================
+// SOP DOCUMENTATION LINKS
+// ============================================================================
+
+/** Where sop-files/*.md are published */
+export const DEFAULT_SOP_DOCS_URL =
+  'https://github.com/rakshit-hsv/framework_for_claude/blob/main/validation/sop-files/';
+
+/**
+ * Heading in sop-files/<sopFile>.md that documents each rule. Rules not
+ * listed link to the top of their SOP file.
+ */
+const RULE_SECTIONS: Record<string, { sopFile: string; heading: string }> = {
+  'INV-SUPABASE-1': { sopFile: '2-supabase', heading: '1. SUPABASE JWT VALIDATION' },
+  'INV-SUPABASE-2': { sopFile: '2-supabase', heading: '2. AUTH MODEL (INTERNAL + ORG USERS)' },
+  'INV-SUPABASE-3': { sopFile: '2-supabase', heading: '3. FAIL-CLOSED AUTHORIZATION' },
+  'INV-SUPABASE-4': { sopFile: '2-supabase', heading: '4. TENANT ISOLATION (MANDATORY)' },
+  'INV-SUPABASE-5': { sopFile: '2-supabase', heading: '5. MULTI-ORG USERS' },
+  'INV-SUPABASE-6': { sopFile: '2-supabase', heading: '6. CACHE ISOLATION' },
+  'INV-CACHE-INVALIDATION': { sopFile: '2-supabase', heading: '6. CACHE ISOLATION' },
+  'INV-SUPABASE-8': { sopFile: '2-supabase', heading: '8. AUDIT RULES (NO LEAKAGE)' },
+  'INV-AUDIT-LOG': { sopFile: '2-supabase', heading: '8. AUDIT RULES (NO LEAKAGE)' },
+  'INV-API-GUARD': { sopFile: '2-supabase', heading: '3. FAIL-CLOSED AUTHORIZATION' },
+  'INV-PRISMA-ORG-INPUT': { sopFile: '3-database-prisma', heading: '1.5 Never Trust Client-Provided Org IDs' },
+  'INV-PRISMA-ORDERBY': { sopFile: '3-database-prisma', heading: '2.3 Ordering (Deterministic Results) - MANDATORY' },
+  'INV-PRISMA-SOFT-DELETE': { sopFile: '3-database-prisma', heading: '2.4 Soft Deletes' },
+  'INV-PRISMA-TRANSACTION': { sopFile: '3-database-prisma', heading: '3.1 Use Transactions for Multi-Step Operations' },
+  'INV-PRISMA-PAGINATION': { sopFile: '3-database-prisma', heading: '6.2 Pagination' },
+  'INV-PRISMA-COUNT': { sopFile: '3-database-prisma', heading: '6.3 Count Queries' },
+  'INV-STATUS-ACCURACY': { sopFile: '4-code-safety-patterns', heading: '3. STATUS/PROGRESS MESSAGES (MANDATORY ACCURACY)' },
+  'INV-ERROR-TYPE': { sopFile: '5-error-handling-logging', heading: '1.1 Use NestJS Exceptions' },
+  'INV-ERROR-CONTEXT': { sopFile: '5-error-handling-logging', heading: '3.1 Never Lose Original Error Context' },
+  'INV-LOGGER': { sopFile: '5-error-handling-logging', heading: '5.1 Use Correct Log Level' },
+  'INV-LOGGER-INIT': { sopFile: '5-error-handling-logging', heading: '5.1 Use Correct Log Level' },
+  'INV-LOG-CONTEXT': { sopFile: '5-error-handling-logging', heading: '6.1 Always Include Identifiers' },
+  'INV-LOG-SENSITIVE': { sopFile: '5-error-handling-logging', heading: '7.1 Never Log Sensitive Data' },
+  'INV-HARDCODED-SECRET': { sopFile: '5-error-handling-logging', heading: '8.1 Never Hardcode Secrets' },
+  'INV-EXTERNAL-RETRY': { sopFile: '6-external-services-timing', heading: '2. RETRY PATTERN (MANDATORY)' },
+  'INV-EXTERNAL-ERROR-EXPOSE': { sopFile: '6-external-services-timing', heading: '7.2 Never Expose External Errors to User' },
+  'INV-JOB-IDEMPOTENT': { sopFile: '7-queue-job-processing', heading: '1. IDEMPOTENT JOBS (MANDATORY)' },
+  'INV-JOB-LOGGING': { sopFile: '7-queue-job-processing', heading: '5. JOB LOGGING (MANDATORY)' },
+  'INV-JOB-TENANT': { sopFile: '7-queue-job-processing', heading: '7.1 Tenant Context in Jobs' },
+  'INV-DTO-VALIDATION': { sopFile: '8-api-design-patterns', heading: '4.1 Always Validate Input' },
+  'INV-TODO': { sopFile: '9-testing-code-quality', heading: '4.3 TODO/FIXME Comments' },
+  'INV-ANY-TYPE': { sopFile: '9-testing-code-quality', heading: '2.4 Code Quality' },
+};
+
+/** GitHub's anchor for a markdown heading */
+function headingAnchor(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Link to the documentation of a rule, or undefined for findings without
+ * an SOP file (e.g. general practices).
+ */
+export function sopLink(rule: string, sopFile: string, docsUrl = DEFAULT_SOP_DOCS_URL): string | undefined {
+  const section = RULE_SECTIONS[rule];
+  if (section) return `${docsUrl}${section.sopFile}.md#${headingAnchor(section.heading)}`;
+  if (/^\d+-/.test(sopFile)) return `${docsUrl}${sopFile}.md`;
+  return undefined;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export interface HtmlReportOptions {
+  /** File contents for source excerpts (default: read from summary.targetDir) */
+  fileContents?: Map<string, string>;
+
+  /** Base URL of sop-files/*.md */
+  sopDocsUrl?: string;
+}
+
+interface Finding {
+  severity: Violation['severity'] | 'warning';
+  finding: Violation | Warning;
+  metric: MetricSummary;
+}
+
+/** Lines of context shown around each finding */
+const EXCERPT_CONTEXT = 3;
+
+const SEVERITY_ORDER: Record<Finding['severity'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  warning: 3,
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function percent(score: number): string {
+  return `${(score * 100).toFixed(1)}%`;
+}
+
+/** Element id of a file's excerpts, from a hash so distinct paths never share one */
+function fileAnchor(file: string): string {
+  return `file-${crypto.createHash('sha1').update(file).digest('hex').slice(0, 12)}`;
+}
+
+function readSource(file: string, summary: ValidationSummary, options: HtmlReportOptions): string[] | undefined {
+  const content = options.fileContents?.get(file);
+  if (content !== undefined) return content.split('\n');
+
+  try {
+    return fs.readFileSync(path.resolve(summary.targetDir, file), 'utf-8').split('\n');
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
+function renderOverview(summary: ValidationSummary): string {
+  const bySop = new Map<string, MetricSummary[]>();
+  for (const metric of summary.metrics) {
+    bySop.set(metric.sopFile, [...(bySop.get(metric.sopFile) ?? []), metric]);
+  }
+
+  const cards = [...bySop].map(([sopFile, metrics]) => {
+    const score = metrics.reduce((sum, m) => sum + m.score, 0) / metrics.length;
+    const rows = metrics.map(m => `
+        <tr class="${m.passed ? 'pass' : 'fail'}">
+          <td>${escapeHtml(m.displayName)}${m.blockOnFail ? ' <span class="tag">blocker</span>' : ''}</td>
+          <td><div class="bar"><span style="width:${(m.score * 100).toFixed(0)}%"></span></div></td>
+          <td class="num">${percent(m.score)}</td>
+          <td class="num">${m.violationCount}</td>
+          <td class="num">${m.warningCount}</td>
+        </tr>`).join('');
+
+    return `
+    <section class="card">
+      <h3>${escapeHtml(sopFile)} <span class="score">${percent(score)}</span></h3>
+      <table>
+        <thead><tr><th>Metric</th><th></th><th>Score</th><th>Violations</th><th>Warnings</th></tr></thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </section>`;
+  });
+
+  return `<div class="cards">${cards.join('')}\n  </div>`;
+}
+
+function renderFindingsTable(findings: Finding[], options: HtmlReportOptions): string {
+  if (findings.length === 0) return '<p>No findings.</p>';
+
+  const selectOptions = (values: string[]) =>
+    [...new Set(values)].sort().map(v => `<option>${escapeHtml(v)}</option>`).join('');
+
+  const rows = findings.map(({ severity, finding, metric }) => {
+    const link = sopLink(finding.rule, metric.sopFile, options.sopDocsUrl);
+    const rule = link
+      ? `<a href="${escapeHtml(link)}" target="_blank" rel="noopener">${escapeHtml(finding.rule)}</a>`
+      : escapeHtml(finding.rule);
+    const fix = 'fix' in finding && finding.fix ? escapeHtml(finding.fix) : '';
+
+    return `
+      <tr data-sop="${escapeHtml(metric.sopFile)}" data-rule="${escapeHtml(finding.rule)}" data-file="${escapeHtml(finding.file)}">
+        <td data-sort="${SEVERITY_ORDER[severity]}"><span class="sev ${severity}">${severity}</span></td>
+        <td>${rule}</td>
+        <td>${escapeHtml(metric.sopFile)}</td>
+        <td data-sort="${escapeHtml(finding.file)}:${String(finding.line).padStart(6, '0')}"><a href="#${fileAnchor(finding.file)}">${escapeHtml(finding.file)}:${finding.line}</a></td>
+        <td>${escapeHtml(finding.message)}</td>
+        <td>${fix}</td>
+      </tr>`;
+  }).join('');
+
+  return `
+  <div class="filters">
+    <label>SOP <select data-filter="sop"><option value="">All</option>${selectOptions(findings.map(f => f.metric.sopFile))}</select></label>
+    <label>Rule <select data-filter="rule"><option value="">All</option>${selectOptions(findings.map(f => f.finding.rule))}</select></label>
+    <label>File <select data-filter="file"><option value="">All</option>${selectOptions(findings.map(f => f.finding.file))}</select></label>
+  </div>
+  <table id="findings" class="sortable">
+    <thead><tr><th>Severity</th><th>Rule</th><th>SOP</th><th>Location</th><th>Message</th><th>Fix</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>`;
+}
+
+/**
+ * Source excerpts for one file: each finding's line with a few lines of
+ * context, overlapping ranges merged.
+ */
+function renderFileExcerpts(file: string, findings: Finding[], source: string[] | undefined): string {
+  const byLine = new Map<number, Finding[]>();
+  for (const f of findings) {
+    byLine.set(f.finding.line, [...(byLine.get(f.finding.line) ?? []), f]);
+  }
+
+  let body: string;
+  if (!source) {
+    body = '<p class="muted">Source not available.</p>';
+  } else {
+    const ranges: Array<[number, number]> = [];
+    for (const line of [...byLine.keys()].sort((a, b) => a - b)) {
+      const from = Math.max(1, line - EXCERPT_CONTEXT);
+      const to = Math.min(source.length, line + EXCERPT_CONTEXT);
+      const last = ranges[ranges.length - 1];
+      if (last && from <= last[1] + 1) last[1] = Math.max(last[1], to);
+      else ranges.push([from, to]);
+    }
+
+    body = ranges.map(([from, to]) => {
+      const lines: string[] = [];
+      for (let n = from; n <= to; n++) {
+        const hits = byLine.get(n);
+        const note = hits
+          ? `<span class="note">${hits.map(h => escapeHtml(`${h.finding.rule}: ${h.finding.message}`)).join('<br>')}</span>`
+          : '';
+        const rowClass = hits ? ` class="hit ${hits[0].severity}"` : '';
+        lines.push(`<tr${rowClass}><td class="ln">${n}</td><td><code>${escapeHtml(source[n - 1] ?? '')}</code>${note}</td></tr>`);
+      }
+      return `<table class="source">${lines.join('')}</table>`;
+    }).join('<div class="gap">⋯</div>');
+  }
+
+  return `
+  <details id="${fileAnchor(file)}" open>
+    <summary>${escapeHtml(file)} <span class="muted">(${findings.length} finding${findings.length === 1 ? '' : 's'})</span></summary>
+    ${body}
+  </details>`;
+}
+
+function renderSuggestions(summary: ValidationSummary): string {
+  const items = summary.results.flatMap((result, i) =>
+    result.suggestions.map(s => `<li><strong>${escapeHtml(summary.metrics[i].displayName)}:</strong> ${escapeHtml(s)}</li>`)
+  );
+  return items.length > 0 ? `<h2>Suggestions</h2>\n  <ul>${items.join('')}</ul>` : '';
+}
+
+function renderSuppressions(summary: ValidationSummary): string {
+  const { suppressions, invalid } = summary.suppressions;
+  if (suppressions.length === 0 && invalid.length === 0) return '';
+
+  const rows = [
+    ...suppressions.map(s =>
+      `<tr><td>${escapeHtml(s.file)}:${s.line}</td><td>${escapeHtml(s.rules.join(', '))}</td><td class="num">${s.matched}</td><td>${escapeHtml(s.justification)}</td></tr>`),
+    ...invalid.map(i =>
+      `<tr><td>${escapeHtml(i.file)}:${i.line}</td><td>-</td><td>invalid</td><td>${escapeHtml(i.reason)}</td></tr>`),
+  ];
+
+  return `<h2>Suppressions</h2>
+  <table>
+    <thead><tr><th>Location</th><th>Rules</th><th>Silenced</th><th>Justification</th></tr></thead>
+    <tbody>${rows.join('')}</tbody>
+  </table>`;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+const STYLES = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0 auto; max-width: 1200px; padding: 24px; color: #1f2328; }
+  h1 { margin-bottom: 4px; } h2 { margin-top: 32px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; } th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  th { background: #f6f8fa; } .sortable th { cursor: pointer; user-select: none; } .num { text-align: right; }
+  .status { font-size: 18px; font-weight: 600; } .status.pass { color: #1a7f37; } .status.fail { color: #cf222e; }
+  .stats { display: flex; gap: 24px; flex-wrap: wrap; margin: 12px 0; } .stats div { background: #f6f8fa; border-radius: 6px; padding: 8px 16px; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(360px, 1fr)); gap: 16px; }
+  .card { border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 12px; } .card h3 { margin: 4px 0 8px; display: flex; justify-content: space-between; }
+  .bar { background: #eaeef2; border-radius: 3px; height: 8px; width: 80px; } .bar span { display: block; height: 8px; border-radius: 3px; background: #2da44e; }
+  tr.fail .bar span { background: #cf222e; } .tag { font-size: 11px; background: #ddf4ff; border-radius: 8px; padding: 0 6px; }
+  .sev { border-radius: 8px; padding: 0 8px; font-size: 12px; color: #fff; } .sev.critical { background: #82071e; } .sev.high { background: #cf222e; }
+  .sev.medium { background: #bf8700; } .sev.warning { background: #6e7781; }
+  .filters { display: flex; gap: 16px; margin: 8px 0; } .muted { color: #6e7781; }
+  details { margin: 12px 0; border: 1px solid #d0d7de; border-radius: 6px; } summary { padding: 6px 12px; background: #f6f8fa; cursor: pointer; font-family: monospace; }
+  .source { font-family: ui-monospace, monospace; font-size: 12px; } .source td { border: 0; padding: 0 8px; } .source code { white-space: pre; }
+  .ln { color: #6e7781; text-align: right; width: 48px; } tr.hit { background: #fff8c5; } tr.hit.critical, tr.hit.high { background: #ffebe9; }
+  .note { display: block; color: #cf222e; font-family: sans-serif; } .gap { color: #6e7781; padding-left: 24px; }
+`;
+
+const SCRIPT = `
+  document.querySelectorAll('table.sortable th').forEach(function (th, column) {
+    th.addEventListener('click', function () {
+      var tbody = th.closest('table').tBodies[0];
+      var ascending = th.dataset.order !== 'asc';
+      th.dataset.order = ascending ? 'asc' : 'desc';
+      var key = function (row) { var cell = row.cells[column]; return cell.dataset.sort || cell.textContent; };
+      Array.from(tbody.rows)
+        .sort(function (a, b) { return key(a).localeCompare(key(b), undefined, { numeric: true }) * (ascending ? 1 : -1); })
+        .forEach(function (row) { tbody.appendChild(row); });
+    });
+  });
+  document.querySelectorAll('select[data-filter]').forEach(function (select) {
+    select.addEventListener('change', function () {
+      var filters = Array.from(document.querySelectorAll('select[data-filter]'));
+      document.querySelectorAll('#findings tbody tr').forEach(function (row) {
+        row.hidden = filters.some(function (f) { return f.value && row.dataset[f.dataset.filter] !== f.value; });
+      });
+    });
+  });
+`;
+
+export function formatHtml(summary: ValidationSummary, options: HtmlReportOptions = {}): string {
+  const findings: Finding[] = summary.results.flatMap((result, i) => [
+    ...result.violations.map(v => ({ severity: v.severity, finding: v, metric: summary.metrics[i] })),
+    ...result.warnings.map(w => ({ severity: 'warning' as const, finding: w, metric: summary.metrics[i] })),
+  ]);
+  findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  const byFile = new Map<string, Finding[]>();
+  for (const f of findings) {
+    byFile.set(f.finding.file, [...(byFile.get(f.finding.file) ?? []), f]);
+  }
+  const excerpts = [...byFile.keys()].sort().map(file =>
+    renderFileExcerpts(file, byFile.get(file)!, readSource(file, summary, options))
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SOP Validation Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>SOP Validation Report</h1>
+  <div class="muted">${escapeHtml(summary.targetDir)} · ${escapeHtml(summary.timestamp)}</div>
+  <p class="status ${summary.passed ? 'pass' : 'fail'}">${summary.passed ? '✅ Passed' : '❌ Failed'}${summary.reason ? ` — ${escapeHtml(summary.reason)}` : ''}</p>
+  <div class="stats">
+    <div>Score <strong>${percent(summary.totalScore)}</strong></div>
+    <div>Files <strong>${summary.filesAnalyzed}</strong></div>
+    <div>Blockers <strong>${summary.blockers}</strong></div>
+    <div>Warnings <strong>${summary.warnings}</strong></div>
+    <div>Suppressed <strong>${summary.suppressed}</strong></div>
+  </div>
+
+  <h2>Scores by SOP</h2>
+  ${renderOverview(summary)}
+
+  <h2>Findings</h2>
+  ${renderFindingsTable(findings, options)}
+
+  <h2>Files</h2>
+  ${excerpts.join('') || '<p>No findings.</p>'}
+
+  ${renderSuggestions(summary)}
+  ${renderSuppressions(summary)}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
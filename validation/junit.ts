@@ -0,0 +1,131 @@
+/**
+ * SOP JUnit Output - JUnit XML for CI test dashboards
+ *
+ * One <testsuite> per metric that ran and one <testcase> per file in it.
+ * Violations of blocking metrics (blockOnFail) are <failure>s; findings of
+ * non-blocking metrics mark the case <skipped> and are listed in
+ * <system-out>, so they're visible without failing the report.
+ */
+
+import { Violation, Warning } from './validators';
+import { ValidationSummary, MetricSummary } from './engine';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+}
+
+function describeFinding(finding: Violation | Warning): string {
+  const severity = 'severity' in finding ? ` [${finding.severity.toUpperCase()}]` : '';
+  const fix = 'fix' in finding && finding.fix ? `\n  Fix: ${finding.fix}` : '';
+  return `${finding.rule}${severity} line ${finding.line}: ${finding.message}${fix}`;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+interface TestCaseOutcome {
+  xml: string;
+  failed: boolean;
+  skipped: boolean;
+}
+
+function formatTestCase(
+  file: string,
+  metric: MetricSummary,
+  violations: Violation[],
+  warnings: Warning[]
+): TestCaseOutcome {
+  const open = `    <testcase ${attributes({ name: file, classname: `${metric.sopFile}.${metric.name}` })}`;
+  const body: string[] = [];
+  let failed = false;
+  let skipped = false;
+
+  if (metric.blockOnFail && violations.length > 0) {
+    failed = true;
+    const rules = [...new Set(violations.map(v => v.rule))].join(', ');
+    body.push(
+      `      <failure ${attributes({ message: `${violations.length} violation(s): ${rules}`, type: violations[0].rule })}>` +
+      escapeXml(violations.map(describeFinding).join('\n')) +
+      '</failure>'
+    );
+  }
+
+  // Non-blocking findings are informational
+  const informational = [...(failed ? [] : violations), ...warnings];
+  if (informational.length > 0) {
+    if (!failed) {
+      skipped = true;
+      body.push(`      <skipped ${attributes({ message: `${informational.length} non-blocking finding(s)` })}/>`);
+    }
+    body.push(`      <system-out>${escapeXml(informational.map(describeFinding).join('\n'))}</system-out>`);
+  }
+
+  const xml = body.length === 0
+    ? `${open}/>`
+    : `${open}>\n${body.join('\n')}\n    </testcase>`;
+  return { xml, failed, skipped };
+}
+
+export function formatJUnit(summary: ValidationSummary): string {
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+  let totalSkipped = 0;
+
+  summary.results.forEach((result, i) => {
+    const metric = summary.metrics[i];
+    const cases = summary.files.map(file => formatTestCase(
+      file,
+      metric,
+      result.violations.filter(v => v.file === file),
+      result.warnings.filter(w => w.file === file)
+    ));
+
+    const failures = cases.filter(c => c.failed).length;
+    const skipped = cases.filter(c => c.skipped).length;
+    totalTests += cases.length;
+    totalFailures += failures;
+    totalSkipped += skipped;
+
+    const suiteAttributes = attributes({
+      name: metric.displayName,
+      tests: cases.length,
+      failures,
+      errors: 0,
+      skipped,
+      timestamp: summary.timestamp,
+    });
+    suites.push(`  <testsuite ${suiteAttributes}>\n${cases.map(c => c.xml).join('\n')}\n  </testsuite>`);
+  });
+
+  const rootAttributes = attributes({
+    name: 'sop-validate',
+    tests: totalTests,
+    failures: totalFailures,
+    errors: 0,
+    skipped: totalSkipped,
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${rootAttributes}>`,
+    ...suites,
+    '</testsuites>',
+  ].join('\n');
+}
@@ -0,0 +1,283 @@
+/**
+ * SOP JWT Verification - How a file verifies access tokens
+ *
+ * Finds the places a file configures or performs JWT verification with one
+ * of the libraries NestJS backends use:
+ *
+ *   passport-jwt  super({...}) in a PassportStrategy(Strategy) subclass,
+ *                 or new Strategy({...})
+ *   jose          jwtVerify(token, key, {...})
+ *   jsonwebtoken  jwt.verify(token, key, {...})
+ *
+ * and reports what each one checks: where the key comes from (a remote JWKS
+ * or a shared secret), the algorithm allowlist, audience and issuer, and
+ * whether expiry is ignored. The supabase-auth validator (validators.ts)
+ * decides which of these SOP 2-supabase §1 requires.
+ *
+ * Options passed in from elsewhere (another file, a function argument) can't
+ * be inspected; their checks come back as 'unknown' rather than 'missing',
+ * so callers only report what is definitely absent.
+ */
+
+import * as ts from 'typescript';
+import {
+  walk,
+  lineOf,
+  unwrapExpression,
+  getCalleeName,
+  getDottedName,
+  getProperty,
+  resolveObjectLiteral,
+  findLocalDeclaration,
+  mayHaveOwnProperty,
+} from './ast';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JwtLibrary = 'passport-jwt' | 'jose' | 'jsonwebtoken';
+
+/** Whether an option is definitely set, definitely not set, or can't be told */
+export type OptionState = 'set' | 'missing' | 'unknown';
+
+export interface JwtVerification {
+  library: JwtLibrary;
+  line: number;
+
+  /** jwks: remote key set; secret: shared secret or local key */
+  keySource: 'jwks' | 'secret' | 'unknown';
+
+  /** Allowed algorithms, when given as a literal list */
+  algorithms: string[] | 'missing' | 'unknown';
+  audience: OptionState;
+  issuer: OptionState;
+
+  /** ignoreExpiration: true */
+  ignoresExpiration: boolean;
+}
+
+/** jwks-rsa helpers that fetch signing keys from a JWKS endpoint */
+const JWKS_PROVIDERS = /^(passportJwtSecret|expressJwtSecret|koaJwtSecret|jwksClient|JwksClient|createRemoteJWKSet)$/;
+
+/** Local key material: shared secrets and keys that never rotate */
+const LOCAL_KEYS = /^(TextEncoder|createSecretKey|createPublicKey|importSPKI|importJWK|importX509|Buffer\.from)$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Local names bound by imports from a module: `import { Strategy as JwtStrategy }`
+ * maps JwtStrategy to Strategy; default and namespace imports map to
+ * 'default' and '*'.
+ */
+function importsFrom(sourceFile: ts.SourceFile, moduleName: string): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.moduleSpecifier.text !== moduleName) {
+      continue;
+    }
+    const clause = statement.importClause;
+    if (clause?.name) names.set(clause.name.text, 'default');
+    const bindings = clause?.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) names.set(bindings.name.text, '*');
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        names.set(element.name.text, element.propertyName?.text ?? element.name.text);
+      }
+    }
+  }
+  return names;
+}
+
+/** Calls made anywhere inside an expression, by callee name (`new X()` included) */
+function calleesIn(node: ts.Node): string[] {
+  const callees: string[] = [];
+  walk(node, child => {
+    if (ts.isCallExpression(child) || ts.isNewExpression(child)) {
+      const name = getCalleeName(child);
+      if (name) callees.push(name);
+    }
+  });
+  return callees;
+}
+
+/**
+ * Where a key expression comes from. Identifiers and `this.x` are followed
+ * to their declaration or assignment in the same file.
+ */
+function keySourceOf(expr: ts.Expression | undefined, sourceFile: ts.SourceFile): JwtVerification['keySource'] {
+  if (!expr) return 'unknown';
+  const unwrapped = unwrapExpression(expr);
+
+  const candidates: ts.Node[] = [unwrapped];
+  if (ts.isIdentifier(unwrapped)) {
+    const declaration = findLocalDeclaration(unwrapped);
+    if (declaration?.initializer) candidates.push(declaration.initializer);
+  }
+
+  // `this.jwks = createRemoteJWKSet(...)` or a property initializer
+  const name = ts.isPropertyAccessExpression(unwrapped) ? unwrapped.name.text : undefined;
+  if (name) {
+    walk(sourceFile, node => {
+      if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(node.left) && node.left.name.text === name) {
+        candidates.push(node.right);
+      }
+      if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === name && node.initializer) {
+        candidates.push(node.initializer);
+      }
+    });
+  }
+
+  const callees = candidates.flatMap(calleesIn);
+  if (callees.some(callee => JWKS_PROVIDERS.test(callee.split('.').pop()!))) return 'jwks';
+  if (callees.some(callee => LOCAL_KEYS.test(callee))) return 'secret';
+  if (candidates.some(node => ts.isStringLiteralLike(node) || /process\.env\.|configService\.get/i.test(node.getText(sourceFile)))) {
+    return 'secret';
+  }
+  return 'unknown';
+}
+
+/** State of a verify option, also looked up in passport-jwt's jsonWebTokenOptions */
+function optionState(options: ts.ObjectLiteralExpression | undefined, name: string): OptionState {
+  if (!options) return 'unknown';
+  if (getProperty(options, name)) return 'set';
+
+  const nestedExpr = getProperty(options, 'jsonWebTokenOptions');
+  if (nestedExpr) {
+    const nested = resolveObjectLiteral(nestedExpr);
+    if (!nested) return 'unknown';
+    if (getProperty(nested, name)) return 'set';
+    if (mayHaveOwnProperty(nested, name)) return 'unknown';
+  }
+
+  return mayHaveOwnProperty(options, name) ? 'unknown' : 'missing';
+}
+
+function algorithmsOf(options: ts.ObjectLiteralExpression | undefined): JwtVerification['algorithms'] {
+  if (!options) return 'unknown';
+  const value = getProperty(options, 'algorithms');
+  if (!value) return mayHaveOwnProperty(options, 'algorithms') ? 'unknown' : 'missing';
+
+  const list = unwrapExpression(value);
+  if (!ts.isArrayLiteralExpression(list) || !list.elements.every(el => ts.isStringLiteralLike(el))) return 'unknown';
+  return list.elements.map(el => (el as ts.StringLiteralLike).text);
+}
+
+/** ignoreExpiration: true, at the top level or in nested options (jsonWebTokenOptions) */
+function ignoresExpiration(options: ts.ObjectLiteralExpression | undefined): boolean {
+  let ignored = false;
+  if (options) {
+    walk(options, node => {
+      if (ts.isPropertyAssignment(node) && ts.isIdentifier(node.name) && node.name.text === 'ignoreExpiration' &&
+          node.initializer.kind === ts.SyntaxKind.TrueKeyword) {
+        ignored = true;
+      }
+    });
+  }
+  return ignored;
+}
+
+function describe(
+  library: JwtLibrary,
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+  keySource: JwtVerification['keySource'],
+  optionsExpr: ts.Expression | undefined
+): JwtVerification {
+  // No options argument at all: nothing is checked
+  const options = optionsExpr ? resolveObjectLiteral(optionsExpr) : ts.factory.createObjectLiteralExpression();
+  return {
+    library,
+    line: lineOf(sourceFile, node),
+    keySource,
+    algorithms: algorithmsOf(options),
+    audience: optionState(options, 'audience'),
+    issuer: optionState(options, 'issuer'),
+    ignoresExpiration: ignoresExpiration(options),
+  };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export function findJwtVerifications(sourceFile: ts.SourceFile): JwtVerification[] {
+  const passport = importsFrom(sourceFile, 'passport-jwt');
+  const jose = importsFrom(sourceFile, 'jose');
+  const jsonwebtoken = importsFrom(sourceFile, 'jsonwebtoken');
+  if (passport.size === 0 && jose.size === 0 && jsonwebtoken.size === 0) return [];
+
+  const isPassportStrategy = (name: string | undefined) =>
+    name !== undefined && (passport.get(name) === 'Strategy' || passport.get(name.split('.')[0]) === '*');
+
+  const verifications: JwtVerification[] = [];
+  walk(sourceFile, node => {
+    // passport-jwt: the strategy options go to super() or the constructor
+    if (ts.isClassDeclaration(node)) {
+      const base = node.heritageClauses
+        ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)?.types[0]?.expression;
+      const strategy = base && ts.isCallExpression(base) && getCalleeName(base) === 'PassportStrategy'
+        ? base.arguments[0] && getDottedName(base.arguments[0])
+        : base && getDottedName(base);
+      if (!isPassportStrategy(strategy)) return;
+
+      walk(node, inner => {
+        if (ts.isCallExpression(inner) && inner.expression.kind === ts.SyntaxKind.SuperKeyword) {
+          verifications.push(passportVerification(inner, inner.arguments[0], sourceFile));
+        }
+      });
+    }
+
+    if (ts.isNewExpression(node) && isPassportStrategy(getCalleeName(node))) {
+      verifications.push(passportVerification(node, node.arguments?.[0], sourceFile));
+    }
+
+    if (!ts.isCallExpression(node)) return;
+    const callee = getCalleeName(node) ?? '';
+    const [object, method] = callee.includes('.') ? callee.split('.') : [undefined, callee];
+
+    // jose: jwtVerify(token, key, options) or jose.jwtVerify(...)
+    if (method === 'jwtVerify' && (object ? jose.get(object) === '*' : jose.get(method) === 'jwtVerify')) {
+      verifications.push(describe('jose', node, sourceFile, keySourceOf(node.arguments[1], sourceFile), node.arguments[2]));
+    }
+
+    // jsonwebtoken: jwt.verify(token, key, options?, callback?) or verify(...)
+    const isVerify = object
+      ? method === 'verify' && ['default', '*'].includes(jsonwebtoken.get(object) ?? '')
+      : jsonwebtoken.get(method) === 'verify';
+    if (isVerify) {
+      const options = node.arguments[2] && !ts.isFunctionLike(unwrapExpression(node.arguments[2]))
+        ? node.arguments[2]
+        : undefined;
+      // A getKey callback is a JWKS lookup when the file uses a JWKS client
+      let keySource = keySourceOf(node.arguments[1], sourceFile);
+      if (keySource === 'unknown' && calleesIn(sourceFile).some(name => JWKS_PROVIDERS.test(name.split('.').pop()!))) {
+        keySource = 'jwks';
+      }
+      verifications.push(describe('jsonwebtoken', node, sourceFile, keySource, options));
+    }
+  });
+
+  return verifications;
+}
+
+/** passport-jwt takes the key as secretOrKeyProvider (JWKS) or secretOrKey */
+function passportVerification(
+  node: ts.Node,
+  optionsExpr: ts.Expression | undefined,
+  sourceFile: ts.SourceFile
+): JwtVerification {
+  const options = optionsExpr ? resolveObjectLiteral(optionsExpr) : undefined;
+  let keySource: JwtVerification['keySource'] = 'unknown';
+  if (options) {
+    const provider = getProperty(options, 'secretOrKeyProvider');
+    const secret = getProperty(options, 'secretOrKey');
+    if (provider) keySource = keySourceOf(provider, sourceFile) === 'jwks' ? 'jwks' : 'unknown';
+    else if (secret) keySource = 'secret';
+  }
+  return describe('passport-jwt', node, sourceFile, keySource, optionsExpr);
+}
@@ -0,0 +1,371 @@
+/**
+ * SOP Language Server - Diagnostics and quick fixes in the editor
+ *
+ * `sop-validate lsp` speaks the Language Server Protocol over stdio, so any
+ * LSP-capable editor can show SOP violations as the user types. Each open
+ * document is validated on its own by the engine (same validators, project
+ * config, rule overrides, suppressions and baseline as the CLI) a moment
+ * after the last change, and its findings are published as diagnostics:
+ *
+ *   code                the rule id (INV-LOGGER, SEC-001, ...)
+ *   severity            critical/high: error, medium: warning, warnings: info
+ *   relatedInformation  the SOP file the rule comes from
+ *
+ * Findings with a fix pattern in self-correction.ts get a quick-fix code
+ * action that rewrites the line, adding the import the fix needs.
+ *
+ * Only the parts of the protocol this needs are implemented: full document
+ * sync, publishDiagnostics and codeAction.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Violation, Warning } from './validators';
+import { resolveConfig, ResolvedConfig } from './config';
+import { runEngine, matchesFilePatterns } from './engine';
+import { DEFAULT_BASELINE_FILE } from './baseline';
+import { getLineFixes, getImportFix } from './self-correction';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface Diagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+  relatedInformation?: Array<{ location: { uri: string; range: Range }; message: string }>;
+}
+
+interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+interface Message {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface LspOptions {
+  /** Project config file (default: discovered from the workspace root) */
+  configPath?: string;
+
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/** Diagnostics are published this long after the last change */
+const DEBOUNCE_MS = 300;
+
+const SOURCE = 'sop-validate';
+
+const DiagnosticSeverity = { Error: 1, Warning: 2, Information: 3 };
+
+const ErrorCodes = {
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+};
+
+// ============================================================================
+// DIAGNOSTICS
+// ============================================================================
+
+/** Range of a whole line, without its indentation */
+function lineRange(lines: string[], line: number): Range {
+  const index = Math.min(Math.max(line - 1, 0), Math.max(lines.length - 1, 0));
+  const text = lines[index] ?? '';
+  const start = text.length - text.trimStart().length;
+  return { start: { line: index, character: start }, end: { line: index, character: text.length } };
+}
+
+/**
+ * The SOP file a metric comes from: the copy `sop-validate init` made in the
+ * workspace, else the one shipped with the package.
+ */
+function findSopFile(root: string, sopFile: string): string | undefined {
+  const candidates = [
+    path.join(root, 'claude-sop-api', `${sopFile}.md`),
+    path.join(__dirname, 'sop-files', `${sopFile}.md`),
+    path.join(__dirname, '..', 'sop-files', `${sopFile}.md`),
+  ];
+  return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+function toDiagnostic(
+  finding: Violation | Warning,
+  sopFile: string,
+  lines: string[],
+  uri: string,
+  root: string
+): Diagnostic {
+  const range = lineRange(lines, finding.line);
+  const severity = !('severity' in finding)
+    ? DiagnosticSeverity.Information
+    : finding.severity === 'medium' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error;
+  const sopPath = findSopFile(root, sopFile);
+  const message = 'fix' in finding && finding.fix ? `${finding.message}\nFix: ${finding.fix}` : finding.message;
+
+  return {
+    range,
+    severity,
+    code: finding.rule,
+    source: SOURCE,
+    message,
+    relatedInformation: [{
+      location: sopPath
+        ? { uri: pathToFileURL(sopPath).href, range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } } }
+        : { uri, range },
+      message: `SOP: ${sopFile}`,
+    }],
+  };
+}
+
+// ============================================================================
+// CODE ACTIONS
+// ============================================================================
+
+/** Insert position for a new import: after the last import, or at the top */
+function importPosition(lines: string[]): Position {
+  let last = -1;
+  lines.forEach((line, index) => {
+    if (/^import\s/.test(line)) last = index;
+  });
+  return { line: last + 1, character: 0 };
+}
+
+function quickFixes(uri: string, text: string, diagnostics: Diagnostic[]): object[] {
+  const lines = text.split('\n');
+  const actions: object[] = [];
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.source !== SOURCE) continue;
+
+    const line = lines[diagnostic.range.start.line] ?? '';
+    for (const fix of getLineFixes(line, String(diagnostic.code))) {
+      const edits: TextEdit[] = [{
+        range: {
+          start: { line: diagnostic.range.start.line, character: 0 },
+          end: { line: diagnostic.range.start.line, character: line.length },
+        },
+        newText: fix.after,
+      }];
+
+      for (const name of fix.imports) {
+        const statement = getImportFix(name);
+        const imported = new RegExp(`import\\s*{[^}]*\\b${name}\\b`).test(text);
+        if (statement && !imported) {
+          const position = importPosition(lines);
+          edits.push({ range: { start: position, end: position }, newText: `${statement}\n` });
+        }
+      }
+
+      actions.push({
+        title: `${fix.description} (${diagnostic.code})`,
+        kind: 'quickfix',
+        diagnostics: [diagnostic],
+        edit: { changes: { [uri]: edits } },
+      });
+    }
+  }
+
+  return actions;
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Serve LSP until the client sends `exit`. Reads stdin and writes stdout by
+ * default; nothing else may write to stdout while it runs.
+ */
+export function startLanguageServer(options: LspOptions = {}): void {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+
+  const documents = new Map<string, string>();
+  const timers = new Map<string, NodeJS.Timeout>();
+  let root = process.cwd();
+  let config: ResolvedConfig | undefined;
+  let initialized = false;
+  let shuttingDown = false;
+
+  const send = (message: Omit<Message, 'jsonrpc'>) => {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  };
+  const notify = (method: string, params: unknown) => send({ method, params });
+  const log = (message: string) => notify('window/logMessage', { type: 1, message: `${SOURCE}: ${message}` });
+
+  const publish = (uri: string) => {
+    const text = documents.get(uri);
+    if (text === undefined || !config) return;
+
+    let diagnostics: Diagnostic[] = [];
+    try {
+      const file = path.relative(root, fileURLToPath(uri));
+      if (uri.startsWith('file:') && matchesFilePatterns(file, config.include, config.exclude)) {
+        const baselinePath = path.join(root, DEFAULT_BASELINE_FILE);
+        const summary = runEngine({
+          targetDir: root,
+          files: new Map([[file, text]]),
+          config,
+          baseline: fs.existsSync(baselinePath) ? { baselinePath, baseDir: root } : undefined,
+        });
+
+        const lines = text.split('\n');
+        diagnostics = summary.results.flatMap(result => [...result.violations, ...result.warnings]
+          .map(finding => toDiagnostic(finding, result.sopFile, lines, uri, root)));
+      }
+    } catch (e: any) {
+      log(`Could not validate ${uri}: ${e.message}`);
+    }
+
+    notify('textDocument/publishDiagnostics', { uri, diagnostics });
+  };
+
+  const schedule = (uri: string) => {
+    clearTimeout(timers.get(uri));
+    timers.set(uri, setTimeout(() => {
+      timers.delete(uri);
+      publish(uri);
+    }, DEBOUNCE_MS));
+  };
+
+  const requests: Record<string, (params: any) => unknown> = {
+    initialize: params => {
+      const rootUri = params?.workspaceFolders?.[0]?.uri ?? params?.rootUri;
+      root = rootUri ? fileURLToPath(rootUri) : params?.rootPath ?? process.cwd();
+      config = resolveConfig({ configPath: options.configPath, searchFrom: root });
+      initialized = true;
+
+      return {
+        capabilities: {
+          // Full document sync
+          textDocumentSync: { openClose: true, change: 1 },
+          codeActionProvider: { codeActionKinds: ['quickfix'] },
+        },
+        serverInfo: { name: SOURCE },
+      };
+    },
+
+    shutdown: () => {
+      shuttingDown = true;
+      return null;
+    },
+
+    'textDocument/codeAction': params => {
+      const text = documents.get(params.textDocument.uri);
+      if (text === undefined) return [];
+      return quickFixes(params.textDocument.uri, text, params.context?.diagnostics ?? []);
+    },
+  };
+
+  const notifications: Record<string, (params: any) => void> = {
+    'textDocument/didOpen': params => {
+      documents.set(params.textDocument.uri, params.textDocument.text);
+      publish(params.textDocument.uri);
+    },
+
+    'textDocument/didChange': params => {
+      // Full sync: the last change holds the whole document
+      const changes = params.contentChanges ?? [];
+      if (changes.length === 0) return;
+      documents.set(params.textDocument.uri, changes[changes.length - 1].text);
+      schedule(params.textDocument.uri);
+    },
+
+    'textDocument/didClose': params => {
+      const uri = params.textDocument.uri;
+      clearTimeout(timers.get(uri));
+      timers.delete(uri);
+      documents.delete(uri);
+      notify('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+    },
+
+    exit: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      process.exit(shuttingDown ? 0 : 1);
+    },
+  };
+
+  const handle = (message: Message) => {
+    const { id, method, params } = message;
+    if (!method) return;
+
+    // Requests have an id; notifications don't get a response
+    if (id === undefined || id === null) {
+      if (!initialized && method !== 'exit') return;
+      notifications[method]?.(params);
+      return;
+    }
+
+    if (!initialized && method !== 'initialize') {
+      send({ id, error: { code: ErrorCodes.ServerNotInitialized, message: 'Server not initialized' } });
+      return;
+    }
+
+    const handler = requests[method];
+    if (!handler) {
+      send({ id, error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` } });
+      return;
+    }
+
+    try {
+      send({ id, result: handler(params) });
+    } catch (e: any) {
+      send({ id, error: { code: ErrorCodes.InternalError, message: e.message } });
+    }
+  };
+
+  // Messages are framed by a Content-Length header
+  let buffer = Buffer.alloc(0);
+  input.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (true) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) return;
+
+      const length = buffer.subarray(0, headerEnd).toString('ascii').match(/Content-Length:\s*(\d+)/i);
+      if (!length) {
+        // Unparseable header: drop it and resynchronize on the next one
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (buffer.length < bodyEnd) return;
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      buffer = buffer.subarray(bodyEnd);
+
+      try {
+        handle(JSON.parse(body));
+      } catch (e: any) {
+        log(`Invalid message: ${e.message}`);
+      }
+    }
+  });
+  input.on('end', () => process.exit(shuttingDown ? 0 : 1));
+}
@@ -39,15 +39,27 @@ export const METRIC_DEFINITIONS: MetricDefinition[] = [
     blockOnFail: true,
     thresholds: { pass: 1.0, warn: 0.95, fail: 0.9 },
     invariants: [
-      'INV-SUPABASE-1: JWKS validation required, no decode-only',
+      'INV-SUPABASE-1: JWKS validation with an algorithm allowlist, audience/issuer and expiry checks; no decode-only',
       'INV-SUPABASE-2: Guard chain order (JwtAuthGuard → RolesGuard/PermissionsGuard → OrgScopeGuard)',
       'INV-SUPABASE-8: Never log JWTs, claims, or sensitive data',
     ],
   },
+  {
+    name: 'route-authorization',
+    displayName: 'Route Authorization',
+    description: 'Effective guard chain of every route, fail-closed authentication',
+    sopFile: '2-supabase',
+    weight: 0.10,
+    blockOnFail: true,
+    thresholds: { pass: 1.0, warn: 0.95, fail: 0.9 },
+    invariants: [
+      'INV-SUPABASE-3: Every reachable route is authenticated unless explicitly @Public()',
+    ],
+  },
   {
     name: 'tenant-isolation',
     displayName: 'Tenant Isolation',
-    description: 'Organization scoping, cache isolation, cross-tenant prevention',
+    description: 'Organization scoping, cross-tenant prevention',
     sopFile: '2-supabase',
     weight: 0.15,
     blockOnFail: true,
@@ -55,7 +67,20 @@ export const METRIC_DEFINITIONS: MetricDefinition[] = [
     invariants: [
       'INV-SUPABASE-4: Every query must include organization_id',
       'INV-SUPABASE-5: Multi-org users must validate org scope explicitly',
-      'INV-SUPABASE-6: Cache keys must include organization_id',
+      'INV-PRISMA-ORG-INPUT: Never trust client-provided organization/team IDs without an access check',
+    ],
+  },
+  {
+    name: 'cache-isolation',
+    displayName: 'Cache Isolation',
+    description: 'Tenant-scoped cache keys, invalidation when cached data changes',
+    sopFile: '2-supabase',
+    weight: 0.05,
+    blockOnFail: true,
+    thresholds: { pass: 1.0, warn: 0.95, fail: 0.85 },
+    invariants: [
+      'INV-SUPABASE-6: Cache keys must include organization_id (and team_id for team-scoped data)',
+      'INV-CACHE-INVALIDATION: Mutations of cached data, roles, permissions or membership invalidate the cache',
     ],
   },
   {
@@ -221,6 +246,26 @@ export const METRIC_DEFINITIONS: MetricDefinition[] = [
       'INV-ANY-TYPE: Avoid "any" type usage',
     ],
   },
+
+  // ============================================================================
+  // GENERAL BEST PRACTICES
+  // ============================================================================
+  {
+    name: 'general-practices',
+    displayName: 'General Best Practices',
+    description: 'Security, error handling, performance, reliability, maintainability',
+    sopFile: 'general-practices',
+    weight: 0.05,
+    blockOnFail: false,
+    thresholds: { pass: 1.0, warn: 0.8, fail: 0.6 },
+    invariants: [
+      'SEC-*: No eval, hardcoded credentials, SQL concatenation or unsanitized exec',
+      'ERR-*: No empty catch blocks; errors carry messages and rejections are handled',
+      'PERF-*: No await or function creation in loops, no sync file I/O',
+      'REL-*: No floating promises; guard null access and async timeouts',
+      'MAINT-*: No magic numbers, deep nesting, commented-out code or long functions',
+    ],
+  },
 ];
 
 // ============================================================================
@@ -272,17 +317,20 @@ export function getMetricsBySop(sopFile: string): MetricDefinition[] {
   return METRIC_DEFINITIONS.filter(m => m.sopFile === sopFile);
 }
 
-export function getBlockingMetrics(): MetricDefinition[] {
-  return METRIC_DEFINITIONS.filter(m => m.blockOnFail);
+export function getBlockingMetrics(
+  metrics: MetricDefinition[] = METRIC_DEFINITIONS
+): MetricDefinition[] {
+  return metrics.filter(m => m.blockOnFail);
 }
 
 export function calculateWeightedScore(
-  scores: Map<ValidatorName, number>
+  scores: Map<ValidatorName, number>,
+  metrics: MetricDefinition[] = METRIC_DEFINITIONS
 ): number {
   let weightedSum = 0;
   let totalWeight = 0;
 
-  for (const metric of METRIC_DEFINITIONS) {
+  for (const metric of metrics) {
     const score = scores.get(metric.name);
     if (score !== undefined) {
       weightedSum += score * metric.weight;
@@ -297,7 +345,8 @@ export function evaluateGating(
   scores: Map<ValidatorName, number>,
   blockerCount: number,
   warningCount: number,
-  config: GatingConfig = DEFAULT_GATING_CONFIG
+  config: GatingConfig = DEFAULT_GATING_CONFIG,
+  metrics: MetricDefinition[] = METRIC_DEFINITIONS
 ): { passed: boolean; reason?: string } {
   // Check blockers
   if (config.blockOnBlockers && blockerCount > config.maxBlockers) {
@@ -316,7 +365,7 @@ export function evaluateGating(
   }
 
   // Check individual blocking metrics
-  for (const metric of getBlockingMetrics()) {
+  for (const metric of getBlockingMetrics(metrics)) {
     const score = scores.get(metric.name);
     if (score !== undefined && score < metric.thresholds.fail) {
       return {
@@ -327,7 +376,7 @@ export function evaluateGating(
   }
 
   // Check total score
-  const totalScore = calculateWeightedScore(scores);
+  const totalScore = calculateWeightedScore(scores, metrics);
   if (totalScore < config.minimumScore) {
     return {
       passed: false,
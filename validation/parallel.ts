@@ -0,0 +1,300 @@
+/**
+ * SOP Parallel Execution - Validators over shards of files in worker threads
+ *
+ * Files are split into contiguous shards, in the order the engine was given
+ * them, and each worker runs the validators over its shard one file at a
+ * time. Validators look at one file at a time, so a validator's findings for
+ * all files are the per-file findings concatenated in file order, and
+ * rescoring them with the validator's scorer (validators.ts) gives the score
+ * a single run would. Validators without a scorer run over every file on the
+ * main thread. Per-file results are also what the cache (cache.ts) stores.
+ *
+ * runEngine is synchronous, so the main thread blocks on a shared counter
+ * until every worker has reported, then reads the results off their ports.
+ */
+
+import * as os from 'os';
+import { Worker, MessageChannel, MessagePort, receiveMessageOnPort } from 'worker_threads';
+import {
+  validators,
+  scorers,
+  ValidatorName,
+  ValidationContext,
+  ValidationResult,
+  EntityConfig,
+  GuardOrder,
+} from './validators';
+import { loadPlugins, loadedPlugins } from './plugins';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type FileEntry = [file: string, content: string];
+
+/** What a worker needs to validate one shard */
+export interface ShardTask {
+  names: ValidatorName[];
+  files: FileEntry[];
+  changedLines?: Array<[string, number[]]>;
+  entities?: EntityConfig;
+  guardOrder?: GuardOrder;
+
+  /** Plugin modules to load first, so their validators exist in the worker */
+  plugins: string[];
+
+  /** Results go back on this port */
+  port: MessagePort;
+
+  /** Int32 counter of finished workers, shared with the main thread */
+  done: SharedArrayBuffer;
+}
+
+/** Per validator, one result per file of the shard */
+type ShardOutcome = { results: ValidationResult[][] } | { error: string };
+
+/**
+ * Loads this module in the worker (through ts-node when running from
+ * source) and reports even if that fails, so the main thread never waits on
+ * a worker that won't finish.
+ */
+const WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const { task } = workerData;
+let outcome;
+try {
+  if (workerData.tsNode) {
+    require(workerData.tsNode).register({ transpileOnly: true, projectSearchDir: require('path').dirname(workerData.entry) });
+  }
+  outcome = { results: require(workerData.entry).runShard(task) };
+} catch (e) {
+  outcome = { error: (e && e.stack) || String(e) };
+}
+task.port.postMessage(outcome);
+const done = new Int32Array(task.done);
+Atomics.add(done, 0, 1);
+Atomics.notify(done, 0);
+`;
+
+// ============================================================================
+// SHARDING
+// ============================================================================
+
+/**
+ * Worker count for a --jobs value: a positive number as given, 0 for one per
+ * CPU.
+ */
+export function resolveJobs(jobs: number): number {
+  if (!Number.isInteger(jobs) || jobs < 0) {
+    throw new Error(`Invalid job count: ${jobs}`);
+  }
+  return jobs === 0 ? Math.max(1, os.cpus().length) : jobs;
+}
+
+/**
+ * Split files into at most `shardCount` contiguous shards of roughly equal
+ * size, keeping their order.
+ */
+export function shardFiles(fileContents: Map<string, string>, shardCount: number): FileEntry[][] {
+  const entries = Array.from(fileContents);
+  const totalSize = entries.reduce((sum, [, content]) => sum + content.length, 0);
+  const shards: FileEntry[][] = [];
+  let current: FileEntry[] = [];
+  let size = 0;
+
+  for (const entry of entries) {
+    current.push(entry);
+    size += entry[1].length;
+
+    // Close a shard once the shards so far hold their share of the total
+    if (shards.length < shardCount - 1 && size >= (totalSize * (shards.length + 1)) / shardCount) {
+      shards.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) shards.push(current);
+
+  return shards;
+}
+
+// ============================================================================
+// WORKERS
+// ============================================================================
+
+/**
+ * One result per file, in the context's file order. Files share the
+ * context's parse cache.
+ */
+function validateEachFile(name: ValidatorName, ctx: ValidationContext): ValidationResult[] {
+  ctx.sourceFiles = ctx.sourceFiles ?? new Map();
+  return ctx.files.map(file => validators[name]({
+    ...ctx,
+    files: [file],
+    fileContents: new Map([[file, ctx.fileContents.get(file) ?? '']]),
+  }));
+}
+
+/**
+ * Run validators over one shard. Called inside the worker.
+ */
+export function runShard(task: Omit<ShardTask, 'port' | 'done'>): ValidationResult[][] {
+  loadPlugins(task.plugins, process.cwd());
+
+  const fileContents = new Map(task.files);
+  const ctx: ValidationContext = {
+    files: Array.from(fileContents.keys()),
+    fileContents,
+    changedLines: task.changedLines ? new Map(task.changedLines) : undefined,
+    entities: task.entities,
+    guardOrder: task.guardOrder,
+  };
+  return task.names.map(name => validateEachFile(name, ctx));
+}
+
+function startWorker(task: ShardTask): Worker {
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: {
+      task,
+      entry: __filename,
+      tsNode: __filename.endsWith('.ts') ? require.resolve('ts-node') : undefined,
+    },
+    transferList: [task.port],
+  });
+  worker.unref();
+  return worker;
+}
+
+/**
+ * Per-file results of each validator over all shards, in file order. Blocks
+ * until every worker has finished; `whileWaiting` runs on the main thread
+ * meanwhile.
+ */
+function runShards(
+  shards: FileEntry[][],
+  names: ValidatorName[],
+  ctx: ValidationContext,
+  whileWaiting: () => void
+): ValidationResult[][] {
+  const done = new SharedArrayBuffer(4);
+  const counter = new Int32Array(done);
+
+  const ports = shards.map(files => {
+    const { port1, port2 } = new MessageChannel();
+    const changedLines = ctx.changedLines
+      ? files.flatMap(([file]): Array<[string, number[]]> => {
+        const lines = ctx.changedLines?.get(file);
+        return lines ? [[file, lines]] : [];
+      })
+      : undefined;
+
+    startWorker({ names, files, changedLines, entities: ctx.entities, guardOrder: ctx.guardOrder, plugins: loadedPlugins(), port: port2, done });
+    return port1;
+  });
+
+  whileWaiting();
+
+  let finished = Atomics.load(counter, 0);
+  while (finished < shards.length) {
+    Atomics.wait(counter, 0, finished);
+    finished = Atomics.load(counter, 0);
+  }
+
+  const shardResults = ports.map((port, i) => {
+    const outcome = receiveMessageOnPort(port)?.message as ShardOutcome | undefined;
+    port.close();
+    if (!outcome) throw new Error(`Worker for shard ${i + 1} exited without results`);
+    if ('error' in outcome) throw new Error(`Worker for shard ${i + 1} failed: ${outcome.error}`);
+    return outcome.results;
+  });
+
+  return names.map((_, index) => shardResults.flatMap(results => results[index]));
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+function sumTallies(parts: ValidationResult[]): Record<string, number> | undefined {
+  let tally: Record<string, number> | undefined;
+  for (const part of parts) {
+    for (const [key, count] of Object.entries(part.tally ?? {})) {
+      tally = tally ?? {};
+      tally[key] = (tally[key] ?? 0) + count;
+    }
+  }
+  return tally;
+}
+
+/**
+ * One validator's per-file results as a single result, with the same
+ * findings order, score and pass/fail as running it over all files at once.
+ */
+export function mergeFileResults(name: ValidatorName, parts: ValidationResult[]): ValidationResult {
+  const scorer = scorers[name];
+  if (!scorer) throw new Error(`Validator ${name} can't be merged across files`);
+
+  const violations = parts.flatMap(p => p.violations);
+  const warnings = parts.flatMap(p => p.warnings);
+  const suggestions = parts.flatMap(p => p.suggestions);
+  const tally = sumTallies(parts);
+
+  return {
+    sopFile: parts[0].sopFile,
+    metric: parts[0].metric,
+    ...scorer({ violations, warnings, tally }),
+    ...(tally && { tally }),
+    violations,
+    warnings,
+    suggestions,
+  };
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+/**
+ * Per-file results of validators that have a scorer: one array per name,
+ * with one result per file in the context's file order. Runs across up to
+ * `jobs` worker threads.
+ */
+export function runValidatorsPerFile(
+  names: ValidatorName[],
+  ctx: ValidationContext,
+  jobs = 1
+): ValidationResult[][] {
+  const shards = jobs > 1 && names.length > 0 ? shardFiles(ctx.fileContents, jobs) : [];
+  if (shards.length < 2) {
+    return names.map(name => validateEachFile(name, ctx));
+  }
+  return runShards(shards, names, ctx, () => undefined);
+}
+
+/**
+ * Run validators over the context's files, across up to `jobs` worker
+ * threads. Results are in `names` order and identical to a sequential run.
+ */
+export function runValidators(
+  names: ValidatorName[],
+  ctx: ValidationContext,
+  jobs = 1
+): ValidationResult[] {
+  const sharded = jobs > 1 ? names.filter(name => scorers[name]) : [];
+  const shards = sharded.length > 0 ? shardFiles(ctx.fileContents, jobs) : [];
+  if (shards.length < 2) {
+    return names.map(name => validators[name](ctx));
+  }
+
+  const local = new Map<ValidatorName, ValidationResult>();
+  const perFile = runShards(shards, sharded, ctx, () => {
+    for (const name of names) {
+      if (!sharded.includes(name)) local.set(name, validators[name](ctx));
+    }
+  });
+
+  return names.map(name => {
+    const index = sharded.indexOf(name);
+    return index === -1 ? local.get(name)! : mergeFileResults(name, perFile[index]);
+  });
+}
@@ -0,0 +1,279 @@
+/**
+ * SOP Plugins - Team-specific validators, rules, fixes and formatters
+ *
+ * A plugin is a module whose default export (or module.exports) is a
+ * SopPlugin. Plugins are listed in the project config, as paths relative to
+ * the config file or as installed package names:
+ *
+ *   { "plugins": ["./sop/payments-plugin.ts", "@acme/sop-rules"] }
+ *
+ * A plugin can contribute:
+ *
+ *   validators  Whole validators with their metric metadata; they take part
+ *               in scoring and gating like the built-in ones and can be
+ *               selected with -v, -s or configured under "metrics"
+ *   rules       Line rules run by general-practices (see GeneralRule)
+ *   fixes       Fix patterns applied by self-correction.ts
+ *   formatters  Output formats, selected with -f <name>
+ *
+ * Example (sop/payments-plugin.ts):
+ *
+ *   import { definePlugin } from '@rakshit-hsv/sop-validate/dist/plugins';
+ *
+ *   export default definePlugin({
+ *     name: 'payments',
+ *     rules: [{
+ *       id: 'PAY-001',
+ *       name: 'No float money',
+ *       description: 'Amounts are integers in minor units',
+ *       category: 'reliability',
+ *       severity: 'high',
+ *       check: line => /amount:\s*number\s*=\s*\d+\.\d/.test(line)
+ *         ? { message: 'Fractional amount literal', fix: 'Use minor units (cents)' }
+ *         : null,
+ *     }],
+ *   });
+ *
+ * Plugins are loaded once, by loadProjectConfig, and stay registered for
+ * the whole process until unloadPlugins; worker threads (parallel.ts) load
+ * the same modules again by path.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  validators,
+  scorers,
+  ValidatorName,
+  ValidationContext,
+  ValidationResult,
+  ScoringInput,
+  Score,
+} from './validators';
+import { MetricDefinition } from './metrics-config';
+import { GeneralRule, generalRules } from './general-practices-validator';
+import { FixPattern } from './self-correction';
+import { ValidationSummary } from './engine';
+import { evaluateModule, defaultExport } from './config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PluginValidator {
+  /** Metric metadata; `name` is the validator's name in -v, -s and config */
+  metric: Omit<MetricDefinition, 'name'> & { name: string };
+  validate: (ctx: ValidationContext) => ValidationResult;
+
+  /**
+   * Score from findings alone, as for the built-in validators (see scorers
+   * in validators.ts). Without one, the validator always runs on the main
+   * thread and isn't cached.
+   */
+  score?: (findings: ScoringInput) => Score;
+}
+
+export type OutputFormatter = (
+  summary: ValidationSummary,
+  options: { verbose: boolean; fileContents: Map<string, string> }
+) => string;
+
+export interface SopPlugin {
+  name: string;
+  validators?: PluginValidator[];
+  rules?: GeneralRule[];
+  fixes?: FixPattern[];
+  formatters?: Record<string, OutputFormatter>;
+}
+
+/** Formats the CLI implements itself; plugins can't replace them */
+export const BUILT_IN_FORMATS = ['console', 'json', 'markdown', 'github', 'sarif', 'junit', 'html'];
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/** Loaded plugins by resolved module path */
+const loaded = new Map<string, SopPlugin>();
+
+const pluginValidators: ValidatorName[] = [];
+const pluginMetrics: MetricDefinition[] = [];
+const pluginRules: GeneralRule[] = [];
+const pluginFixes: FixPattern[] = [];
+const pluginFormatters = new Map<string, OutputFormatter>();
+
+/**
+ * Identity helper so plugin modules get type checking.
+ */
+export function definePlugin(plugin: SopPlugin): SopPlugin {
+  return plugin;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a plugin module's export against SopPlugin, then register it.
+ * Everything is checked before anything is registered, so a bad plugin
+ * leaves no trace.
+ */
+function registerPlugin(exported: unknown, source: string): SopPlugin {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid plugin ${source}: ${message}`);
+  };
+
+  if (!isObject(exported) || typeof exported.name !== 'string') {
+    fail('expected an object with a name (see definePlugin)');
+  }
+  const shape = exported as Record<string, unknown>;
+  for (const key of ['validators', 'rules', 'fixes']) {
+    if (shape[key] !== undefined && !Array.isArray(shape[key])) fail(`${key} must be an array`);
+  }
+  if (shape.formatters !== undefined && !isObject(shape.formatters)) {
+    fail('formatters must be an object keyed by format');
+  }
+
+  const names = new Set(Object.keys(validators));
+  const ruleIds = new Set([...Object.values(generalRules).flat(), ...pluginRules].map(rule => rule.id));
+  for (const validator of (shape.validators ?? []) as unknown[]) {
+    const metric = isObject(validator) ? validator.metric : undefined;
+    if (!isObject(validator) || !isObject(metric) || typeof metric.name !== 'string' || typeof validator.validate !== 'function') {
+      return fail('validators need a metric with a name and a validate function');
+    }
+    if (validator.score !== undefined && typeof validator.score !== 'function') {
+      fail(`validator ${metric.name} score must be a function`);
+    }
+    if (names.has(metric.name)) fail(`validator ${metric.name} already exists`);
+    names.add(metric.name);
+  }
+  for (const rule of (shape.rules ?? []) as unknown[]) {
+    if (!isObject(rule) || typeof rule.id !== 'string' || typeof rule.check !== 'function') {
+      return fail('rules need an id and a check function');
+    }
+    if (ruleIds.has(rule.id)) fail(`rule ${rule.id} already exists`);
+    ruleIds.add(rule.id);
+  }
+  for (const fix of (shape.fixes ?? []) as unknown[]) {
+    if (!isObject(fix) || typeof fix.rule !== 'string' || !(fix.pattern instanceof RegExp)) {
+      fail('fixes need a rule and a pattern');
+    }
+  }
+  for (const [format, formatter] of Object.entries(shape.formatters ?? {})) {
+    if (typeof formatter !== 'function') fail(`formatter ${format} must be a function`);
+    if (BUILT_IN_FORMATS.includes(format) || pluginFormatters.has(format)) {
+      fail(`format ${format} already exists`);
+    }
+  }
+
+  const plugin = exported as SopPlugin;
+  for (const validator of plugin.validators ?? []) {
+    const name = validator.metric.name as ValidatorName;
+    (validators as Record<string, PluginValidator['validate']>)[name] = validator.validate;
+    if (validator.score) scorers[name] = validator.score;
+    pluginMetrics.push({ ...validator.metric, name });
+    pluginValidators.push(name);
+  }
+  pluginRules.push(...(plugin.rules ?? []));
+  pluginFixes.push(...(plugin.fixes ?? []));
+  for (const [format, formatter] of Object.entries(plugin.formatters ?? {})) {
+    pluginFormatters.set(format, formatter);
+  }
+  return plugin;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Module path of a plugin: a path relative to `baseDir` (extension and
+ * /index optional), or a package installed there.
+ */
+export function resolvePlugin(spec: string, baseDir: string): string {
+  if (spec.startsWith('.') || path.isAbsolute(spec)) {
+    const base = path.resolve(baseDir, spec);
+    const candidates = ['', '.ts', '.js', '/index.ts', '/index.js'].map(suffix => base + suffix);
+    const found = candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    if (!found) throw new Error(`Plugin not found: ${spec} (resolved to ${base})`);
+    return found;
+  }
+
+  try {
+    return require.resolve(spec, { paths: [baseDir] });
+  } catch {
+    throw new Error(`Plugin not found: ${spec} (not installed in ${baseDir})`);
+  }
+}
+
+/**
+ * Load and register plugins; returns their module paths. A module that is
+ * already loaded isn't registered again.
+ */
+export function loadPlugins(specs: string[], baseDir: string): string[] {
+  return specs.map(spec => {
+    const modulePath = resolvePlugin(spec, baseDir);
+    if (loaded.has(modulePath)) return modulePath;
+
+    let exported: unknown;
+    try {
+      exported = modulePath.endsWith('.ts') ? evaluateModule(modulePath) : defaultExport(require(modulePath));
+    } catch (e: any) {
+      throw new Error(`Could not load plugin ${spec}: ${e.message}`);
+    }
+
+    loaded.set(modulePath, registerPlugin(exported, spec));
+    return modulePath;
+  });
+}
+
+// ============================================================================
+// ACCESSORS
+// ============================================================================
+
+/** Module paths of every loaded plugin, in load order */
+export function loadedPlugins(): string[] {
+  return Array.from(loaded.keys());
+}
+
+export function getPluginValidators(): ValidatorName[] {
+  return [...pluginValidators];
+}
+
+/** Metric definitions of the plugin validators, in load order */
+export function getPluginMetrics(): MetricDefinition[] {
+  return pluginMetrics;
+}
+
+export function getPluginRules(): GeneralRule[] {
+  return pluginRules;
+}
+
+export function getPluginFixes(): FixPattern[] {
+  return pluginFixes;
+}
+
+export function getFormatter(format: string): OutputFormatter | undefined {
+  return pluginFormatters.get(format);
+}
+
+// ============================================================================
+// UNLOADING
+// ============================================================================
+
+/**
+ * Unregister every loaded plugin, so tests (or a process that loads another
+ * project's config) start from the built-in validators and rules only.
+ */
+export function unloadPlugins(): void {
+  for (const name of pluginValidators) {
+    delete (validators as Record<string, unknown>)[name];
+    delete scorers[name];
+  }
+  pluginValidators.length = 0;
+  pluginMetrics.length = 0;
+  pluginRules.length = 0;
+  pluginFixes.length = 0;
+  pluginFormatters.clear();
+  loaded.clear();
+}
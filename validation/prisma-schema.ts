@@ -0,0 +1,155 @@
+/**
+ * SOP Prisma Schema - Model metadata from the project's schema.prisma
+ *
+ * Tenant isolation and soft-delete rules depend on which models carry
+ * `organization_id` and `deleted_at`. Reading that from the schema keeps the
+ * rules in step with the database instead of a hand-maintained list.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EntityConfig } from './validators';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PrismaModel {
+  /** Model name as declared, e.g. `role_plays` */
+  name: string;
+
+  /** Prisma client accessor, e.g. `prisma.role_plays` */
+  accessor: string;
+
+  /** Database column names (after @map) */
+  columns: string[];
+
+  softDelete: boolean;
+  tenantScoped: boolean;
+}
+
+export interface PrismaSchema {
+  /** Schema file(s) the models were read from */
+  files: string[];
+  models: PrismaModel[];
+}
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+const SCHEMA_LOCATIONS = [
+  'prisma/schema.prisma',
+  'schema.prisma',
+  'prisma/schema',
+];
+
+/**
+ * Locate the schema for a project: the `prisma.schema` entry of the nearest
+ * package.json, else prisma/schema.prisma, schema.prisma or a prisma/schema/
+ * folder in `startDir` or any parent. Returns a file or a folder of .prisma
+ * files.
+ */
+export function findPrismaSchema(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const packageJson = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJson)) {
+      try {
+        const configured = JSON.parse(fs.readFileSync(packageJson, 'utf-8'))?.prisma?.schema;
+        if (typeof configured === 'string' && fs.existsSync(path.join(dir, configured))) {
+          return path.join(dir, configured);
+        }
+      } catch {
+        // Unreadable package.json: fall back to the conventional locations
+      }
+    }
+
+    for (const location of SCHEMA_LOCATIONS) {
+      const candidate = path.join(dir, location);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const SOFT_DELETE_COLUMNS = ['deleted_at'];
+const TENANT_COLUMNS = ['organization_id'];
+
+/**
+ * Column name of a field: its @map("...") name, or the field name converted
+ * to snake_case so `deletedAt` and `deleted_at` compare equal.
+ */
+function columnName(field: string, attributes: string): string {
+  const mapped = attributes.match(/@map\(\s*(?:name:\s*)?"([^"]+)"\s*\)/);
+  const name = mapped ? mapped[1] : field;
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+export function parsePrismaSchema(content: string): PrismaModel[] {
+  const models: PrismaModel[] = [];
+  let current: { name: string; columns: string[] } | undefined;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+
+    if (!current) {
+      const start = line.match(/^model\s+(\w+)\s*\{$/);
+      if (start) current = { name: start[1], columns: [] };
+      continue;
+    }
+
+    if (line === '}') {
+      const { name, columns } = current;
+      models.push({
+        name,
+        accessor: name.charAt(0).toLowerCase() + name.slice(1),
+        columns,
+        softDelete: columns.some(c => SOFT_DELETE_COLUMNS.includes(c)),
+        tenantScoped: columns.some(c => TENANT_COLUMNS.includes(c)),
+      });
+      current = undefined;
+      continue;
+    }
+
+    // Field lines look like `name Type? @attr(...)`; @@ lines are model attributes
+    const field = line.match(/^(\w+)\s+\w+(?:\[\])?\??(.*)$/);
+    if (field) current.columns.push(columnName(field[1], field[2]));
+  }
+
+  return models;
+}
+
+/**
+ * Read a schema file, or every .prisma file in a schema folder.
+ */
+export function loadPrismaSchema(schemaPath: string): PrismaSchema {
+  const files = fs.statSync(schemaPath).isDirectory()
+    ? fs.readdirSync(schemaPath)
+        .filter(f => f.endsWith('.prisma'))
+        .sort()
+        .map(f => path.join(schemaPath, f))
+    : [schemaPath];
+
+  const models = files.flatMap(file => parsePrismaSchema(fs.readFileSync(file, 'utf-8')));
+  return { files, models };
+}
+
+/**
+ * Entity lists derived from the schema: soft-delete models are those with a
+ * deleted_at column, tenant-exempt models those without organization_id.
+ */
+export function entitiesFromSchema(models: PrismaModel[]): Pick<EntityConfig, 'softDelete' | 'tenantExempt'> {
+  return {
+    softDelete: models.filter(m => m.softDelete).map(m => m.accessor),
+    tenantExempt: models.filter(m => !m.tenantScoped).map(m => m.accessor),
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * SOP Ratchet - Never let a metric regress
+ *
+ * A ratchet is a checked-in JSON file with the last accepted score and
+ * violation count of each metric. In ratchet mode a run fails when any
+ * metric scores lower or has more violations than recorded, instead of
+ * gating on the absolute thresholds, and the recorded values tighten
+ * whenever a passing run improves on them. That lets a strict rule roll out
+ * on a legacy codebase: existing violations are tolerated, new ones aren't,
+ * and every fix locks in.
+ *
+ * Counts cover the files a run analyzes, so a ratchet records the file set
+ * it was created for (target directory and include/exclude globs) and only
+ * full runs over that same set are compared with it or may tighten it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidatorName } from './validators';
+import { MetricSummary } from './engine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RatchetEntry {
+  /** Lowest accepted score, rounded to SCORE_PRECISION decimals */
+  score: number;
+
+  /** Highest accepted number of violations */
+  violations: number;
+}
+
+/** The files a ratchet's counts cover */
+export interface RatchetScope {
+  /** Validated directory, relative to the ratchet file's directory */
+  targetDir: string;
+  include: string[];
+  exclude: string[];
+}
+
+export interface Ratchet {
+  version: 2;
+  updatedAt: string;
+  scope: RatchetScope;
+  metrics: Partial<Record<ValidatorName, RatchetEntry>>;
+}
+
+export interface RatchetLocation {
+  ratchetPath: string;
+
+  /** Scope of the run being gated */
+  scope: RatchetScope;
+}
+
+export interface RatchetRegression {
+  metric: ValidatorName;
+  field: keyof RatchetEntry;
+  recorded: number;
+  current: number;
+}
+
+export interface RatchetOutcome {
+  regressions: RatchetRegression[];
+
+  /** Metrics that improved on, or weren't yet in, the recorded values */
+  improved: ValidatorName[];
+
+  /** The ratchet with improvements applied; what a passing run writes back */
+  tightened: Ratchet;
+}
+
+export const DEFAULT_RATCHET_FILE = '.sop-ratchet.json';
+
+/** Scores are compared at this precision so float noise isn't a regression */
+const SCORE_PRECISION = 4;
+
+function roundScore(score: number): number {
+  return Number(score.toFixed(SCORE_PRECISION));
+}
+
+// ============================================================================
+// SCOPE
+// ============================================================================
+
+/** Scope of a run over `targetDir`, as recorded in the ratchet at `ratchetPath` */
+export function ratchetScope(
+  ratchetPath: string,
+  targetDir: string,
+  include: string[],
+  exclude: string[]
+): RatchetScope {
+  const relative = path.relative(path.dirname(path.resolve(ratchetPath)), path.resolve(targetDir));
+  return {
+    targetDir: relative.split(path.sep).join('/') || '.',
+    include: [...include].sort(),
+    exclude: [...exclude].sort(),
+  };
+}
+
+/** How a run's scope differs from the recorded one, if it does */
+export function scopeMismatch(recorded: RatchetScope, current: RatchetScope): string | undefined {
+  const globs = (list: string[]) => list.length > 0 ? list.join(', ') : '(none)';
+  if (recorded.targetDir !== current.targetDir) {
+    return `target directory ${current.targetDir} (ratchet: ${recorded.targetDir})`;
+  }
+  if (globs(recorded.include) !== globs(current.include)) {
+    return `include ${globs(current.include)} (ratchet: ${globs(recorded.include)})`;
+  }
+  if (globs(recorded.exclude) !== globs(current.exclude)) {
+    return `exclude ${globs(current.exclude)} (ratchet: ${globs(recorded.exclude)})`;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+export function createRatchet(metrics: MetricSummary[], scope: RatchetScope): Ratchet {
+  const entries: Ratchet['metrics'] = {};
+  for (const metric of metrics) {
+    entries[metric.name] = { score: roundScore(metric.score), violations: metric.violationCount };
+  }
+  return { version: 2, updatedAt: new Date().toISOString(), scope, metrics: entries };
+}
+
+export function loadRatchet(ratchetPath: string): Ratchet {
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(ratchetPath, 'utf-8'));
+  } catch (e: any) {
+    throw new Error(`Could not read ratchet ${ratchetPath}: ${e.message}`);
+  }
+
+  if (data?.version === 1) {
+    throw new Error(`Ratchet ${ratchetPath} doesn't record the files it covers; re-create it with "ratchet create"`);
+  }
+  if (data?.version !== 2 || typeof data.scope !== 'object' || data.scope === null ||
+      typeof data.metrics !== 'object' || data.metrics === null) {
+    throw new Error(`Invalid ratchet ${ratchetPath}: expected { "version": 2, "scope": {...}, "metrics": {...} }`);
+  }
+
+  return data as Ratchet;
+}
+
+export function writeRatchet(ratchetPath: string, ratchet: Ratchet): void {
+  fs.writeFileSync(ratchetPath, JSON.stringify(ratchet, null, 2) + '\n');
+}
+
+// ============================================================================
+// CHECKING
+// ============================================================================
+
+/**
+ * Compare a run's metrics with the recorded values. Metrics that didn't run
+ * keep their entries; metrics without one are recorded as they are. Throws
+ * when the run covers other files than the ratchet.
+ */
+export function applyRatchet(ratchet: Ratchet, metrics: MetricSummary[], scope: RatchetScope): RatchetOutcome {
+  const mismatch = scopeMismatch(ratchet.scope, scope);
+  if (mismatch) {
+    throw new Error(`Ratchet was recorded for other files than this run: ${mismatch}. Run with --no-ratchet, or with the ratchet's scope`);
+  }
+
+  const regressions: RatchetRegression[] = [];
+  const improved: ValidatorName[] = [];
+  const entries: Ratchet['metrics'] = { ...ratchet.metrics };
+
+  for (const metric of metrics) {
+    const current: RatchetEntry = { score: roundScore(metric.score), violations: metric.violationCount };
+    const recorded = ratchet.metrics[metric.name];
+
+    if (!recorded) {
+      entries[metric.name] = current;
+      improved.push(metric.name);
+      continue;
+    }
+
+    if (current.score < recorded.score) {
+      regressions.push({ metric: metric.name, field: 'score', recorded: recorded.score, current: current.score });
+    }
+    if (current.violations > recorded.violations) {
+      regressions.push({
+        metric: metric.name,
+        field: 'violations',
+        recorded: recorded.violations,
+        current: current.violations,
+      });
+    }
+
+    if (current.score > recorded.score || current.violations < recorded.violations) {
+      entries[metric.name] = {
+        score: Math.max(current.score, recorded.score),
+        violations: Math.min(current.violations, recorded.violations),
+      };
+      improved.push(metric.name);
+    }
+  }
+
+  const tightened: Ratchet = improved.length > 0
+    ? { ...ratchet, updatedAt: new Date().toISOString(), metrics: entries }
+    : ratchet;
+
+  return { regressions, improved, tightened };
+}
+
+export function formatRatchetRegression(regression: RatchetRegression): string {
+  if (regression.field === 'score') {
+    const percent = (score: number) => `${(score * 100).toFixed(2)}%`;
+    return `${regression.metric} score ${percent(regression.current)} below ratchet ${percent(regression.recorded)}`;
+  }
+  return `${regression.metric} has ${regression.current} violations (ratchet: ${regression.recorded})`;
+}
@@ -0,0 +1,321 @@
+/**
+ * SOP Route Inventory - Effective guard chain of every route handler
+ *
+ * Resolves, for each handler of a @Controller class, the guards NestJS runs
+ * before it, in execution order:
+ *
+ *   1. global guards: APP_GUARD providers in modules and
+ *      app.useGlobalGuards() calls
+ *   2. @UseGuards on the controller class
+ *   3. @UseGuards on the handler
+ *
+ * and whether the route opts out of authentication with @Public() or a
+ * similar decorator (including custom ones built on SetMetadata). The
+ * route-authorization validator (validators.ts) reports reachable routes
+ * without authentication; `sop-validate routes` prints the inventory.
+ *
+ * Global guards and controller registration live in other files than the
+ * controllers, so this needs every file of the app at once: validators that
+ * use it can't be sharded per file.
+ */
+
+import * as ts from 'typescript';
+import { ValidationContext, GuardOrder, DEFAULT_GUARD_ORDER } from './validators';
+import {
+  getSourceFile,
+  walk,
+  lineOf,
+  unwrapExpression,
+  getCalleeName,
+  getDottedName,
+  getProperty,
+  getDecorators,
+  getDecoratorName,
+  getDecoratorArguments,
+} from './ast';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GuardRef {
+  /** `JwtAuthGuard`, or the source text for calls like `AuthGuard('jwt')` */
+  name: string;
+  scope: 'global' | 'controller' | 'handler';
+  file: string;
+  line: number;
+}
+
+export interface RouteInfo {
+  /** HTTP method: GET, POST, ... (ALL for @All) */
+  method: string;
+  path: string;
+  controller: string;
+  handler: string;
+  file: string;
+  line: number;
+
+  /** Effective guards in execution order */
+  guards: GuardRef[];
+
+  /** Opted out of authentication with @Public() or similar */
+  isPublic: boolean;
+
+  /** An authentication guard (first level of the guard order) runs and the route isn't public */
+  authenticated: boolean;
+
+  /** The controller is registered in a module (true when that's unknown) */
+  reachable: boolean;
+}
+
+export interface RouteInventory {
+  routes: RouteInfo[];
+  globalGuards: GuardRef[];
+
+  /**
+   * Module files were among the analyzed files. Without them global guards
+   * are unknown, so missing authentication can't be judged.
+   */
+  modulesAnalyzed: boolean;
+}
+
+const HTTP_METHODS: Record<string, string> = {
+  Get: 'GET',
+  Post: 'POST',
+  Put: 'PUT',
+  Patch: 'PATCH',
+  Delete: 'DELETE',
+  Options: 'OPTIONS',
+  Head: 'HEAD',
+  All: 'ALL',
+};
+
+/** Well-known opt-out decorators; custom ones are found through SetMetadata */
+const PUBLIC_DECORATORS = ['Public', 'IsPublic', 'SkipAuth', 'AllowAnonymous', 'Anonymous', 'NoAuth'];
+
+/** Metadata keys that mark a route public, e.g. SetMetadata(IS_PUBLIC_KEY, true) */
+const PUBLIC_METADATA_KEY = /public|anonymous|skip.?auth|no.?auth/i;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Name of a guard as written in @UseGuards(...) or a provider */
+function guardName(expr: ts.Expression, sourceFile: ts.SourceFile): string {
+  const unwrapped = unwrapExpression(expr);
+  if (ts.isNewExpression(unwrapped)) return getCalleeName(unwrapped) ?? unwrapped.getText(sourceFile);
+  return getDottedName(unwrapped) ?? unwrapped.getText(sourceFile);
+}
+
+/** First string of a path argument: 'users', ['users', 'members'] or { path: 'users' } */
+function pathArgument(expr: ts.Expression | undefined): string {
+  if (!expr) return '';
+  const unwrapped = unwrapExpression(expr);
+  if (ts.isStringLiteralLike(unwrapped)) return unwrapped.text;
+  if (ts.isArrayLiteralExpression(unwrapped)) return pathArgument(unwrapped.elements[0]);
+  if (ts.isObjectLiteralExpression(unwrapped)) return pathArgument(getProperty(unwrapped, 'path'));
+  return '';
+}
+
+function joinPath(...segments: string[]): string {
+  const joined = segments.map(s => s.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/');
+  return `/${joined}`;
+}
+
+/**
+ * Level of a guard in the hierarchy (see DEFAULT_GUARD_ORDER), or -1 for
+ * guards it doesn't list. Call arguments are ignored: `AuthGuard('jwt')`
+ * matches `AuthGuard`.
+ */
+export function guardLevel(name: string, order: GuardOrder): number {
+  const bare = name.split('(')[0].trim();
+  return order.findIndex(level => level.some(pattern => {
+    const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}$`).test(bare);
+  }));
+}
+
+/** Guards of the @UseGuards decorators on a class or method, in order */
+export function decoratorGuards(node: ts.Node, scope: GuardRef['scope'], file: string, sourceFile: ts.SourceFile): GuardRef[] {
+  return getDecorators(node)
+    .filter(d => getDecoratorName(d) === 'UseGuards')
+    .flatMap(d => getDecoratorArguments(d).map(arg => ({
+      name: guardName(arg, sourceFile),
+      scope,
+      file,
+      line: lineOf(sourceFile, d),
+    })));
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+interface ControllerClass {
+  node: ts.ClassDeclaration;
+  file: string;
+  sourceFile: ts.SourceFile;
+}
+
+export function analyzeRoutes(ctx: ValidationContext): RouteInventory {
+  const globalGuards: GuardRef[] = [];
+  const publicDecorators = new Set(PUBLIC_DECORATORS);
+  const controllers: ControllerClass[] = [];
+  const registered = new Set<string>();
+  let registrationsKnown = true;
+  let modulesAnalyzed = false;
+  let globalPrefix = '';
+
+  // First pass: everything that isn't a route
+  for (const file of ctx.files) {
+    const sourceFile = getSourceFile(ctx, file);
+    if (file.endsWith('.module.ts') || /(^|\/)main\.ts$/.test(file)) modulesAnalyzed = true;
+
+    walk(sourceFile, node => {
+      // { provide: APP_GUARD, useClass: JwtAuthGuard }
+      if (ts.isObjectLiteralExpression(node)) {
+        const provide = getProperty(node, 'provide');
+        if (provide && getDottedName(unwrapExpression(provide)) === 'APP_GUARD') {
+          const provider = getProperty(node, 'useClass') ?? getProperty(node, 'useExisting');
+          globalGuards.push({
+            name: provider ? guardName(provider, sourceFile) : '<factory>',
+            scope: 'global',
+            file,
+            line: lineOf(sourceFile, node),
+          });
+        }
+      }
+
+      if (ts.isCallExpression(node)) {
+        const callee = getCalleeName(node) ?? '';
+
+        // app.useGlobalGuards(new JwtAuthGuard(reflector))
+        if (/(^|\.)useGlobalGuards$/.test(callee)) {
+          for (const arg of node.arguments) {
+            globalGuards.push({ name: guardName(arg, sourceFile), scope: 'global', file, line: lineOf(sourceFile, node) });
+          }
+        }
+
+        // app.setGlobalPrefix('api')
+        if (/(^|\.)setGlobalPrefix$/.test(callee)) {
+          globalPrefix = pathArgument(node.arguments[0]);
+        }
+      }
+
+      // export const Public = () => SetMetadata(IS_PUBLIC_KEY, true)
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+        const name = node.name.text;
+        walk(node.initializer, inner => {
+          if (ts.isCallExpression(inner) && getCalleeName(inner) === 'SetMetadata' &&
+              inner.arguments[0] && PUBLIC_METADATA_KEY.test(inner.arguments[0].getText(sourceFile))) {
+            publicDecorators.add(name);
+          }
+        });
+      }
+
+      if (!ts.isClassDeclaration(node)) return;
+      for (const decorator of getDecorators(node)) {
+        const decoratorName = getDecoratorName(decorator);
+
+        if (decoratorName === 'Controller') {
+          controllers.push({ node, file, sourceFile });
+        }
+
+        // @Module({ controllers: [UsersController] })
+        if (decoratorName === 'Module') {
+          const options = getDecoratorArguments(decorator)[0];
+          const list = options && ts.isObjectLiteralExpression(unwrapExpression(options))
+            ? getProperty(unwrapExpression(options) as ts.ObjectLiteralExpression, 'controllers')
+            : undefined;
+          if (!list) continue;
+
+          const elements = ts.isArrayLiteralExpression(unwrapExpression(list))
+            ? (unwrapExpression(list) as ts.ArrayLiteralExpression).elements
+            : undefined;
+          if (!elements || elements.some(el => !ts.isIdentifier(el))) {
+            // Spreads or computed lists: registration can't be resolved
+            registrationsKnown = false;
+            continue;
+          }
+          elements.forEach(el => registered.add((el as ts.Identifier).text));
+        }
+      }
+    });
+  }
+
+  const guardOrder = ctx.guardOrder ?? DEFAULT_GUARD_ORDER;
+  const anyRegistered = registered.size > 0;
+  const isPublic = (node: ts.Node) => getDecorators(node).some(d => publicDecorators.has(getDecoratorName(d) ?? ''));
+
+  // Second pass: routes of every controller
+  const routes: RouteInfo[] = [];
+  for (const { node, file, sourceFile } of controllers) {
+    const controller = node.name?.text ?? '<anonymous>';
+    const controllerDecorator = getDecorators(node).find(d => getDecoratorName(d) === 'Controller')!;
+    const prefix = pathArgument(getDecoratorArguments(controllerDecorator)[0]);
+    const classGuards = decoratorGuards(node, 'controller', file, sourceFile);
+    const reachable = !registrationsKnown || !anyRegistered || registered.has(controller);
+
+    for (const member of node.members) {
+      if (!ts.isMethodDeclaration(member)) continue;
+      const route = getDecorators(member).find(d => HTTP_METHODS[getDecoratorName(d) ?? '']);
+      if (!route) continue;
+
+      const guards = [...globalGuards, ...classGuards, ...decoratorGuards(member, 'handler', file, sourceFile)];
+      const routeIsPublic = isPublic(node) || isPublic(member);
+
+      routes.push({
+        method: HTTP_METHODS[getDecoratorName(route)!],
+        path: joinPath(globalPrefix, prefix, pathArgument(getDecoratorArguments(route)[0])),
+        controller,
+        handler: member.name.getText(sourceFile),
+        file,
+        line: lineOf(sourceFile, route),
+        guards,
+        isPublic: routeIsPublic,
+        authenticated: !routeIsPublic && guards.some(g => guardLevel(g.name, guardOrder) === 0),
+        reachable,
+      });
+    }
+  }
+
+  return { routes, globalGuards, modulesAnalyzed };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function formatRouteInventory(inventory: RouteInventory): string {
+  const lines: string[] = [];
+
+  lines.push('\n' + '='.repeat(60));
+  lines.push('SOP ROUTE INVENTORY');
+  lines.push('='.repeat(60));
+  lines.push(`Routes: ${inventory.routes.length}`);
+  lines.push(
+    `Global guards: ${inventory.globalGuards.map(g => `${g.name} (${g.file}:${g.line})`).join(', ') ||
+      (inventory.modulesAnalyzed ? 'none' : 'unknown (no module files analyzed)')}`
+  );
+  lines.push('');
+  lines.push('-'.repeat(60));
+
+  const methodWidth = Math.max(6, ...inventory.routes.map(r => r.method.length));
+  const pathWidth = Math.max(4, ...inventory.routes.map(r => r.path.length));
+  for (const route of inventory.routes) {
+    const guards = route.isPublic
+      ? 'PUBLIC'
+      : route.guards.map(g => g.name).join(' → ') || 'NONE';
+    const flags = [
+      inventory.modulesAnalyzed && !route.isPublic && !route.authenticated ? '❌ unauthenticated' : '',
+      !route.reachable ? 'not registered in a module' : '',
+    ].filter(Boolean).join(', ');
+
+    lines.push(`${route.method.padEnd(methodWidth)} ${route.path.padEnd(pathWidth)}  ${guards}${flags ? `  [${flags}]` : ''}`);
+    lines.push(`${' '.repeat(methodWidth + 1)}${route.controller}.${route.handler} (${route.file}:${route.line})`);
+  }
+
+  lines.push('');
+  lines.push('='.repeat(60));
+  return lines.join('\n');
+}
@@ -1,19 +1,21 @@
 /**
  * SOP Validation Runner
  *
- * Main orchestrator for running SOP validations against code changes.
- * Supports running individual validators or full validation suites.
+ * Runs the validation engine (engine.ts) over a directory and prints the
+ * summary. Supports running individual validators or full validation suites.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import {
-  validators,
-  ValidatorName,
-  ValidationResult,
-  ValidationContext,
-  Violation,
-} from './validators';
+import { ValidatorName } from './validators';
+import { formatSuppressionReport } from './suppressions';
+import { resolveConfig } from './config';
+import { runEngine, ValidationSummary, MetricSummary } from './engine';
+import { formatSarif } from './sarif';
+import { formatJUnit } from './junit';
+import { formatHtml } from './html';
+import { resolveJobs } from './parallel';
+import { defaultCacheDir } from './cache';
+
+export { ValidationSummary, MetricSummary };
 
 // ============================================================================
 // TYPES
@@ -36,135 +38,25 @@ export interface RunnerConfig {
   sopFiles?: string[];
 
   /** Output format */
-  format?: 'console' | 'json' | 'markdown';
+  format?: 'console' | 'json' | 'markdown' | 'sarif' | 'junit' | 'html';
 
   /** Fail on warnings */
   failOnWarnings?: boolean;
 
   /** Verbose output */
   verbose?: boolean;
-}
 
-export interface ValidationSummary {
-  timestamp: string;
-  targetDir: string;
-  filesAnalyzed: number;
-  totalScore: number;
-  passed: boolean;
-  blockers: number;
-  warnings: number;
-  suggestions: number;
-  results: ValidationResult[];
-  metrics: MetricSummary[];
-}
+  /** Baseline file of grandfathered violations (see baseline.ts) */
+  baseline?: string;
 
-export interface MetricSummary {
-  name: string;
-  sopFile: string;
-  score: number;
-  passed: boolean;
-  blockOnFail: boolean;
-  violationCount: number;
-  warningCount: number;
-}
+  /** Project config file (default: discovered from targetDir, see config.ts) */
+  config?: string;
 
-// ============================================================================
-// CONFIGURATION
-// ============================================================================
-
-const SOP_VALIDATOR_MAP: Record<string, ValidatorName[]> = {
-  '2-supabase': ['supabase-auth', 'tenant-isolation', 'audit-logging'],
-  '3-database-prisma': ['prisma-queries', 'transactions'],
-  '4-code-safety-patterns': ['code-safety'],
-  '5-error-handling-logging': ['exception-types', 'logging'],
-  '6-external-services-timing': ['external-services'],
-  '7-queue-job-processing': ['job-processing'],
-  '8-api-design-patterns': ['api-design'],
-  '9-testing-code-quality': ['code-quality'],
-};
-
-const METRIC_WEIGHTS: Record<ValidatorName, number> = {
-  'supabase-auth': 0.15,
-  'tenant-isolation': 0.15,
-  'audit-logging': 0.05,
-  'prisma-queries': 0.15,
-  'transactions': 0.10,
-  'code-safety': 0.05,
-  'exception-types': 0.10,
-  'logging': 0.05,
-  'external-services': 0.05,
-  'job-processing': 0.05,
-  'api-design': 0.05,
-  'code-quality': 0.05,
-};
-
-const BLOCK_ON_FAIL: ValidatorName[] = [
-  'supabase-auth',
-  'tenant-isolation',
-  'prisma-queries',
-  'transactions',
-  'api-design',
-];
-
-// ============================================================================
-// FILE UTILITIES
-// ============================================================================
-
-function getFiles(dir: string, include: string[], exclude: string[]): string[] {
-  const files: string[] = [];
-
-  function walkDir(currentDir: string) {
-    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = path.join(currentDir, entry.name);
-      const relativePath = path.relative(dir, fullPath);
-
-      // Check excludes
-      if (exclude.some(pattern => matchPattern(relativePath, pattern))) {
-        continue;
-      }
-
-      if (entry.isDirectory()) {
-        walkDir(fullPath);
-      } else if (entry.isFile()) {
-        if (include.length === 0 || include.some(pattern => matchPattern(relativePath, pattern))) {
-          files.push(fullPath);
-        }
-      }
-    }
-  }
+  /** Worker threads to validate in (see parallel.ts) */
+  jobs?: number;
 
-  if (fs.existsSync(dir)) {
-    walkDir(dir);
-  }
-
-  return files;
-}
-
-function matchPattern(filePath: string, pattern: string): boolean {
-  // Simple glob matching
-  const regexPattern = pattern
-    .replace(/\./g, '\\.')
-    .replace(/\*/g, '.*')
-    .replace(/\?/g, '.');
-
-  return new RegExp(regexPattern).test(filePath);
-}
-
-function readFileContents(files: string[]): Map<string, string> {
-  const contents = new Map<string, string>();
-
-  for (const file of files) {
-    try {
-      const content = fs.readFileSync(file, 'utf-8');
-      contents.set(file, content);
-    } catch (error) {
-      console.error(`Failed to read ${file}: ${error}`);
-    }
-  }
-
-  return contents;
+  /** Reuse cached per-file findings (see cache.ts; default: true) */
+  cache?: boolean;
 }
 
 // ============================================================================
@@ -174,67 +66,22 @@ function readFileContents(files: string[]): Map<string, string> {
 export function runValidation(config: RunnerConfig): ValidationSummary {
   const {
     targetDir,
-    include = ['*.ts'],
-    exclude = ['node_modules/**', 'dist/**', '*.spec.ts', '*.test.ts'],
-    validators: selectedValidators,
-    sopFiles,
     format = 'console',
-    failOnWarnings = false,
     verbose = false,
   } = config;
 
-  // Determine which validators to run
-  let validatorsToRun: ValidatorName[] = [];
-
-  if (selectedValidators && selectedValidators.length > 0) {
-    validatorsToRun = selectedValidators;
-  } else if (sopFiles && sopFiles.length > 0) {
-    for (const sop of sopFiles) {
-      const sopValidators = SOP_VALIDATOR_MAP[sop];
-      if (sopValidators) {
-        validatorsToRun.push(...sopValidators);
-      }
-    }
-  } else {
-    // Run all validators
-    validatorsToRun = Object.keys(validators) as ValidatorName[];
-  }
-
-  // Deduplicate
-  validatorsToRun = [...new Set(validatorsToRun)];
-
-  // Get files
-  const files = getFiles(targetDir, include, exclude);
-  const fileContents = readFileContents(files);
-
-  if (verbose) {
-    console.log(`Found ${files.length} files to analyze`);
-    console.log(`Running ${validatorsToRun.length} validators`);
-  }
-
-  // Create context
-  const ctx: ValidationContext = {
-    files,
-    fileContents,
-  };
-
-  // Run validators
-  const results: ValidationResult[] = [];
-
-  for (const validatorName of validatorsToRun) {
-    const validator = validators[validatorName];
-    if (validator) {
-      const result = validator(ctx);
-      results.push(result);
-
-      if (verbose) {
-        console.log(`${validatorName}: ${(result.score * 100).toFixed(1)}% (${result.passed ? 'PASS' : 'FAIL'})`);
-      }
-    }
-  }
-
-  // Calculate summary
-  const summary = calculateSummary(results, files.length, targetDir, failOnWarnings);
+  const summary = runEngine({
+    targetDir,
+    include: config.include,
+    exclude: config.exclude,
+    validators: config.validators,
+    sopFiles: config.sopFiles,
+    config: resolveConfig({ configPath: config.config, searchFrom: targetDir }),
+    failOnWarnings: config.failOnWarnings,
+    baseline: config.baseline ? { baselinePath: config.baseline, baseDir: targetDir } : undefined,
+    jobs: config.jobs,
+    cacheDir: config.cache === false ? undefined : defaultCacheDir(),
+  });
 
   // Output results
   switch (format) {
@@ -244,6 +91,15 @@ export function runValidation(config: RunnerConfig): ValidationSummary {
     case 'markdown':
       console.log(formatMarkdown(summary));
       break;
+    case 'sarif':
+      console.log(JSON.stringify(formatSarif(summary), null, 2));
+      break;
+    case 'junit':
+      console.log(formatJUnit(summary));
+      break;
+    case 'html':
+      console.log(formatHtml(summary));
+      break;
     default:
       printConsoleOutput(summary, verbose);
   }
@@ -251,66 +107,6 @@ export function runValidation(config: RunnerConfig): ValidationSummary {
   return summary;
 }
 
-function calculateSummary(
-  results: ValidationResult[],
-  filesAnalyzed: number,
-  targetDir: string,
-  failOnWarnings: boolean
-): ValidationSummary {
-  let weightedScore = 0;
-  let totalWeight = 0;
-  let blockers = 0;
-  let warnings = 0;
-  let suggestions = 0;
-
-  const metrics: MetricSummary[] = [];
-
-  for (const result of results) {
-    const validatorName = Object.keys(validators).find(
-      k => validators[k as ValidatorName] === validators[result.metric as ValidatorName]
-    ) as ValidatorName;
-
-    const weight = METRIC_WEIGHTS[validatorName] || 0.05;
-    const blockOnFail = BLOCK_ON_FAIL.includes(validatorName);
-
-    weightedScore += result.score * weight;
-    totalWeight += weight;
-
-    if (!result.passed && blockOnFail) {
-      blockers += result.violations.length;
-    }
-
-    warnings += result.warnings.length;
-    suggestions += result.suggestions.length;
-
-    metrics.push({
-      name: result.metric,
-      sopFile: result.sopFile,
-      score: result.score,
-      passed: result.passed,
-      blockOnFail,
-      violationCount: result.violations.length,
-      warningCount: result.warnings.length,
-    });
-  }
-
-  const totalScore = totalWeight > 0 ? weightedScore / totalWeight : 1.0;
-  const passed = blockers === 0 && totalScore >= 0.85 && (!failOnWarnings || warnings === 0);
-
-  return {
-    timestamp: new Date().toISOString(),
-    targetDir,
-    filesAnalyzed,
-    totalScore,
-    passed,
-    blockers,
-    warnings,
-    suggestions,
-    results,
-    metrics,
-  };
-}
-
 // ============================================================================
 // OUTPUT FORMATTERS
 // ============================================================================
@@ -332,6 +128,14 @@ function printConsoleOutput(summary: ValidationSummary, verbose: boolean) {
   console.log(`   Blockers: ${summary.blockers}`);
   console.log(`   Warnings: ${summary.warnings}`);
   console.log(`   Suggestions: ${summary.suggestions}`);
+  if (summary.reason) console.log(`   Reason: ${summary.reason}`);
+  if (summary.baselined !== undefined) {
+    console.log(`   Baselined: ${summary.baselined}`);
+    console.log(`   Stale baseline entries: ${summary.staleBaseline?.length ?? 0}`);
+  }
+  if (verbose && summary.cache) {
+    console.log(`   Cache: ${summary.cache.hits} hits, ${summary.cache.misses} misses`);
+  }
   console.log('');
 
   // Metrics breakdown
@@ -342,7 +146,7 @@ function printConsoleOutput(summary: ValidationSummary, verbose: boolean) {
   for (const metric of summary.metrics) {
     const icon = metric.passed ? '✅' : '❌';
     const blockTag = metric.blockOnFail ? ' [BLOCKER]' : '';
-    console.log(`${icon} ${metric.name}: ${(metric.score * 100).toFixed(1)}%${blockTag}`);
+    console.log(`${icon} ${metric.displayName}: ${(metric.score * 100).toFixed(1)}%${blockTag}`);
     if (metric.violationCount > 0) {
       console.log(`   Violations: ${metric.violationCount}`);
     }
@@ -390,6 +194,14 @@ function printConsoleOutput(summary: ValidationSummary, verbose: boolean) {
     }
   }
 
+  // Suppressions are always listed so reviewers can audit them
+  const suppressionLines = formatSuppressionReport(summary.suppressions);
+  if (suppressionLines.length > 0) {
+    console.log('');
+    console.log('-'.repeat(60));
+    suppressionLines.forEach(line => console.log(line));
+  }
+
   console.log('');
   console.log('='.repeat(60));
 }
@@ -409,7 +221,12 @@ function formatMarkdown(summary: ValidationSummary): string {
   md += `| Total Score | ${(summary.totalScore * 100).toFixed(1)}% |\n`;
   md += `| Blockers | ${summary.blockers} |\n`;
   md += `| Warnings | ${summary.warnings} |\n`;
-  md += `| Suggestions | ${summary.suggestions} |\n\n`;
+  md += `| Suggestions | ${summary.suggestions} |\n`;
+  if (summary.baselined !== undefined) {
+    md += `| Baselined | ${summary.baselined} |\n`;
+    md += `| Stale baseline entries | ${summary.staleBaseline?.length ?? 0} |\n`;
+  }
+  md += '\n';
 
   // Metrics table
   md += `## Metrics Breakdown\n\n`;
@@ -418,7 +235,7 @@ function formatMarkdown(summary: ValidationSummary): string {
 
   for (const metric of summary.metrics) {
     const icon = metric.passed ? '✅' : '❌';
-    md += `| ${metric.name} | ${metric.sopFile} | ${(metric.score * 100).toFixed(1)}% | ${icon} | ${metric.blockOnFail ? 'Yes' : 'No'} |\n`;
+    md += `| ${metric.displayName} | ${metric.sopFile} | ${(metric.score * 100).toFixed(1)}% | ${icon} | ${metric.blockOnFail ? 'Yes' : 'No'} |\n`;
   }
 
   // Violations
@@ -441,6 +258,20 @@ function formatMarkdown(summary: ValidationSummary): string {
     }
   }
 
+  // Suppressions
+  const suppressions = summary.suppressions;
+  if (suppressions.suppressions.length > 0 || suppressions.invalid.length > 0) {
+    md += `\n## Suppressions\n\n`;
+    md += `| Location | Rules | Silenced | Justification |\n`;
+    md += `|----------|-------|----------|---------------|\n`;
+    for (const s of suppressions.suppressions) {
+      md += `| \`${s.file}:${s.line}\` | ${s.rules.join(', ')} | ${s.matched} | ${s.justification} |\n`;
+    }
+    for (const i of suppressions.invalid) {
+      md += `| \`${i.file}:${i.line}\` | - | invalid | ${i.reason} |\n`;
+    }
+  }
+
   return md;
 }
 
@@ -451,8 +282,6 @@ function formatMarkdown(summary: ValidationSummary): string {
 export function runCLI(args: string[]) {
   const config: RunnerConfig = {
     targetDir: process.cwd(),
-    include: ['*.ts'],
-    exclude: ['node_modules/**', 'dist/**', '*.spec.ts', '*.test.ts'],
     format: 'console',
     verbose: false,
   };
@@ -481,7 +310,7 @@ export function runCLI(args: string[]) {
 
       case '--format':
       case '-f':
-        config.format = args[++i] as 'console' | 'json' | 'markdown';
+        config.format = args[++i] as RunnerConfig['format'];
         break;
 
       case '--verbose':
@@ -492,6 +321,24 @@ export function runCLI(args: string[]) {
         config.failOnWarnings = true;
         break;
 
+      case '--baseline':
+        config.baseline = args[++i];
+        break;
+
+      case '--config':
+      case '-c':
+        config.config = args[++i];
+        break;
+
+      case '--jobs':
+      case '-j':
+        config.jobs = resolveJobs(Number(args[++i]));
+        break;
+
+      case '--no-cache':
+        config.cache = false;
+        break;
+
       case '--include':
         config.include = config.include || [];
         config.include.push(args[++i]);
@@ -530,9 +377,15 @@ Options:
                            Examples: 2-supabase, 3-database-prisma
   -v, --validator <name>   Specific validator to run (can specify multiple)
                            Examples: prisma-queries, exception-types
-  -f, --format <type>      Output format: console, json, markdown (default: console)
+  -f, --format <type>      Output format: console, json, markdown, sarif, junit,
+                           html
+                           (default: console)
   --verbose                Show detailed output including warnings
   --fail-on-warnings       Fail if any warnings are found
+  --baseline <file>        Suppress violations recorded in a baseline file
+  -c, --config <file>      Project config (default: nearest .sopvalidaterc)
+  -j, --jobs <n>           Validate in n worker threads (0: one per CPU)
+  --no-cache               Validate every file, ignoring cached findings
   --include <pattern>      File patterns to include (default: *.ts)
   --exclude <pattern>      File patterns to exclude
   -h, --help               Show this help message
@@ -546,9 +399,12 @@ Available SOP Files:
   7-queue-job-processing   Job processing, idempotency
   8-api-design-patterns    API design, DTOs
   9-testing-code-quality   Code quality checks
+  general-practices        Security, error handling, performance, reliability,
+                           maintainability
 
 Available Validators:
-  supabase-auth, tenant-isolation, audit-logging
+  supabase-auth, route-authorization, tenant-isolation, cache-isolation,
+  audit-logging
   prisma-queries, transactions
   code-safety
   exception-types, logging
@@ -556,6 +412,7 @@ Available Validators:
   job-processing
   api-design
   code-quality
+  general-practices
 
 Examples:
   # Validate all files in src/ against all SOPs
@@ -0,0 +1,228 @@
+/**
+ * SOP SARIF Output - SARIF 2.1.0 logs for code-scanning tools
+ *
+ * Each violation and warning becomes a SARIF result pointing at its file and
+ * line. The rules catalog is built from the metric invariants in
+ * metrics-config.ts (and those of plugin validators) and the general-practice
+ * rule descriptions, plugin rules included, so viewers
+ * can show what a rule means next to the finding.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Violation, Warning, SuppressedFinding } from './validators';
+import { METRIC_DEFINITIONS, MetricDefinition } from './metrics-config';
+import { generalRules, GeneralRule } from './general-practices-validator';
+import { getPluginMetrics, getPluginRules } from './plugins';
+import { ValidationSummary } from './engine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifRule {
+  id: string;
+  name?: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  defaultConfiguration?: { level: SarifLevel };
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string };
+      region: { startLine: number };
+    };
+  }>;
+  baselineState?: 'new' | 'unchanged';
+  suppressions?: Array<{ kind: 'inSource'; justification: string }>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }>;
+}
+
+// ============================================================================
+// RULES CATALOG
+// ============================================================================
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/rakshit-hsv/framework_for_claude';
+const SRCROOT = '%SRCROOT%';
+
+/**
+ * Severity → SARIF level. Warnings have no severity and map to `note`.
+ */
+export function severityToLevel(severity?: Violation['severity']): SarifLevel {
+  if (severity === 'critical' || severity === 'high') return 'error';
+  if (severity === 'medium') return 'warning';
+  return 'note';
+}
+
+/** Built-in and plugin metrics, the default for the catalog */
+function allMetrics(): MetricDefinition[] {
+  return [...METRIC_DEFINITIONS, ...getPluginMetrics()];
+}
+
+/**
+ * Rules from metric invariants ("INV-X: description") and general-practice
+ * rules, plugin ones included. Invariants without a concrete ID (e.g.
+ * "SEC-*") are skipped.
+ */
+export function buildRulesCatalog(
+  metrics: MetricDefinition[] = allMetrics()
+): Map<string, SarifRule> {
+  const catalog = new Map<string, SarifRule>();
+
+  for (const metric of metrics) {
+    for (const invariant of metric.invariants) {
+      const match = invariant.match(/^([A-Z][A-Z0-9-]*[A-Z0-9]):\s*(.+)$/);
+      if (!match || catalog.has(match[1])) continue;
+
+      catalog.set(match[1], {
+        id: match[1],
+        shortDescription: { text: match[2] },
+        fullDescription: { text: `${metric.displayName}: ${metric.description}` },
+        properties: { sopFile: metric.sopFile, metric: metric.name },
+      });
+    }
+  }
+
+  const rules: GeneralRule[] = [...Object.values(generalRules).flat(), ...getPluginRules()];
+  for (const rule of rules) {
+    catalog.set(rule.id, {
+      id: rule.id,
+      name: rule.name,
+      shortDescription: { text: rule.name },
+      fullDescription: { text: rule.description },
+      defaultConfiguration: { level: severityToLevel(rule.severity) },
+      properties: { sopFile: 'general-practices', category: rule.category },
+    });
+  }
+
+  return catalog;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function formatSarif(
+  summary: ValidationSummary,
+  metrics: MetricDefinition[] = allMetrics()
+): SarifLog {
+  const catalog = buildRulesCatalog(metrics);
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  // Only rules that were reported go into the log, in first-seen order
+  const ruleIndex = (ruleId: string, metricName: string): number => {
+    let index = ruleIndexes.get(ruleId);
+    if (index === undefined) {
+      index = rules.length;
+      rules.push(catalog.get(ruleId) ?? {
+        id: ruleId,
+        shortDescription: { text: `${ruleId} (${metricName})` },
+      });
+      ruleIndexes.set(ruleId, index);
+    }
+    return index;
+  };
+
+  summary.results.forEach((result, i) => {
+    const metricName = summary.metrics[i]?.displayName ?? result.metric;
+
+    const toResult = (finding: Violation | Warning): SarifResult => {
+      const severity = 'severity' in finding ? finding.severity : undefined;
+      const fix = 'fix' in finding ? finding.fix : undefined;
+
+      return {
+        ruleId: finding.rule,
+        ruleIndex: ruleIndex(finding.rule, metricName),
+        level: severityToLevel(severity),
+        message: { text: finding.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: toArtifactLocation(finding.file),
+            region: { startLine: Math.max(1, finding.line) },
+          },
+        }],
+        properties: { sopFile: result.sopFile, ...(severity && { severity }), ...(fix && { fix }) },
+      };
+    };
+
+    for (const finding of [...result.violations, ...result.warnings]) {
+      results.push(toResult(finding));
+    }
+
+    // Findings outside the changed lines in diff modes
+    for (const finding of [
+      ...(result.preExisting?.violations ?? []),
+      ...(result.preExisting?.warnings ?? []),
+    ]) {
+      results.push({ ...toResult(finding), baselineState: 'unchanged' });
+    }
+
+    for (const s of result.suppressed ?? []) {
+      results.push({ ...toResult(s.finding), suppressions: [toSuppression(s)] });
+    }
+  });
+
+  // SARIF requires a baselineState on every result once any has one
+  if (results.some(r => r.baselineState)) {
+    for (const r of results) r.baselineState = r.baselineState ?? 'new';
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'sop-validate',
+          informationUri: INFORMATION_URI,
+          rules,
+        },
+      },
+      originalUriBaseIds: {
+        [SRCROOT]: { uri: pathToFileURL(summary.targetDir).href.replace(/\/?$/, '/') },
+      },
+      results,
+    }],
+  };
+}
+
+/**
+ * Relative paths resolve against %SRCROOT% (the run's target dir), with
+ * each segment percent-encoded; absolute ones become file URIs.
+ */
+function toArtifactLocation(file: string): { uri: string; uriBaseId?: string } {
+  if (path.isAbsolute(file)) return { uri: pathToFileURL(file).href };
+  return { uri: file.split(path.sep).map(encodeURIComponent).join('/'), uriBaseId: SRCROOT };
+}
+
+function toSuppression(s: SuppressedFinding): { kind: 'inSource'; justification: string } {
+  return { kind: 'inSource', justification: s.justification };
+}
@@ -13,6 +13,8 @@ import {
   ValidatorName,
 } from './validators';
 import { runValidation, ValidationSummary } from './runner';
+import { applySuppressions } from './suppressions';
+import { getPluginFixes } from './plugins';
 
 // ============================================================================
 // TYPES
@@ -44,7 +46,7 @@ export interface CorrectionConfig {
 // FIX PATTERNS
 // ============================================================================
 
-interface FixPattern {
+export interface FixPattern {
   rule: string;
   pattern: RegExp;
   replacement: string | ((match: string, ...groups: string[]) => string);
@@ -132,6 +134,46 @@ const IMPORT_FIXES: Record<string, string> = {
   'Logger': "import { Logger } from '@nestjs/common';",
 };
 
+// ============================================================================
+// LINE FIXES
+// ============================================================================
+
+export interface LineFix {
+  description: string;
+  after: string;
+
+  /** Names the fix introduces that need an import (see IMPORT_FIXES) */
+  imports: string[];
+}
+
+/**
+ * Fixes for one finding, applied to its line alone: one per fix pattern of
+ * the rule that changes the line. Used for editor quick fixes (lsp.ts).
+ */
+export function getLineFixes(line: string, rule: string): LineFix[] {
+  const fixes: LineFix[] = [];
+
+  for (const pattern of [...FIX_PATTERNS, ...getPluginFixes()]) {
+    if (pattern.rule !== rule) continue;
+
+    const after = typeof pattern.replacement === 'string'
+      ? line.replace(pattern.pattern, pattern.replacement)
+      : line.replace(pattern.pattern, pattern.replacement);
+    if (after === line) continue;
+
+    const imports = Object.keys(IMPORT_FIXES)
+      .filter(name => new RegExp(`\\b${name}\\b`).test(after) && !new RegExp(`\\b${name}\\b`).test(line));
+    fixes.push({ description: pattern.description, after, imports });
+  }
+
+  return fixes;
+}
+
+/** Import statement for a name a fix introduced */
+export function getImportFix(name: string): string | undefined {
+  return IMPORT_FIXES[name];
+}
+
 // ============================================================================
 // CORRECTION ENGINE
 // ============================================================================
@@ -154,7 +196,7 @@ export function applyFixes(
   }
 
   // Apply fix patterns
-  for (const pattern of FIX_PATTERNS) {
+  for (const pattern of [...FIX_PATTERNS, ...getPluginFixes()]) {
     // Check if we should skip this rule
     if (config.skipRules?.includes(pattern.rule)) continue;
     if (config.fixRules && !config.fixRules.includes(pattern.rule)) continue;
@@ -235,7 +277,7 @@ export function applyFixes(
 
   // Run all validators
   for (const validator of Object.values(validators)) {
-    const result = validator(ctx);
+    const result = applySuppressions([validator(ctx)], ctx).results[0];
     remainingViolations.push(...result.violations);
   }
 
@@ -276,7 +318,7 @@ export function runCorrectionLoop(
 
   let allViolations: Violation[] = [];
   for (const validator of Object.values(validators)) {
-    const result = validator(ctx);
+    const result = applySuppressions([validator(ctx)], ctx).results[0];
     allViolations.push(...result.violations);
   }
 
@@ -0,0 +1,208 @@
+/**
+ * SOP Suppressions - Inline comments that silence specific findings
+ *
+ * Supported forms (line or block comments):
+ *
+ *   // sop-disable-next-line INV-PRISMA-ORDERBY -- ordering is irrelevant for counts
+ *   // sop-disable INV-LOGGER, INV-ANY-TYPE -- generated client, regenerated nightly
+ *   ...
+ *   // sop-enable
+ *
+ * Every disable comment must name the rules it silences and give a
+ * justification after `--`. Comments that don't are reported as invalid and
+ * silence nothing. Suppressions are applied to the results of any validator,
+ * so they work the same for SOP validators and general-practice rules.
+ */
+
+import * as ts from 'typescript';
+import {
+  ValidationContext,
+  ValidationResult,
+  Violation,
+  Warning,
+  SuppressedFinding,
+} from './validators';
+import { getSourceFile, getComments } from './ast';
+import { rescoreResult } from './diff-filter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Suppression {
+  file: string;
+  kind: 'next-line' | 'block';
+  rules: string[];
+  justification: string;
+
+  /** Line of the disable comment */
+  line: number;
+
+  /** First and last line the suppression covers */
+  fromLine: number;
+  toLine: number;
+
+  /** Number of findings this suppression silenced */
+  matched: number;
+}
+
+export interface InvalidSuppression {
+  file: string;
+  line: number;
+  reason: string;
+}
+
+export interface SuppressionReport {
+  suppressions: Suppression[];
+  invalid: InvalidSuppression[];
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const DIRECTIVE_PATTERN = /^(?:\/\/|\/\*+)\s*(sop-disable-next-line|sop-disable|sop-enable)\b([\s\S]*?)(?:\*\/)?$/;
+
+/**
+ * Parse the suppression comments of one file. Blocks without a matching
+ * `sop-enable` run to the end of the file.
+ */
+export function parseSuppressions(
+  file: string,
+  sourceFile: ts.SourceFile
+): SuppressionReport {
+  const suppressions: Suppression[] = [];
+  const invalid: InvalidSuppression[] = [];
+  const openBlocks: Suppression[] = [];
+  const lastLine = sourceFile.getLineAndCharacterOfPosition(sourceFile.end).line + 1;
+
+  for (const comment of getComments(sourceFile)) {
+    const match = comment.text.match(DIRECTIVE_PATTERN);
+    if (!match) continue;
+
+    const directive = match[1];
+    const [rulesText, ...reasonParts] = match[2].split('--');
+    const rules = rulesText.split(/[\s,]+/).filter(Boolean);
+    const justification = reasonParts.join('--').trim();
+
+    if (directive === 'sop-enable') {
+      // Close the blocks for the named rules, or every open block
+      for (let i = openBlocks.length - 1; i >= 0; i--) {
+        if (rules.length === 0 || openBlocks[i].rules.some(r => rules.includes(r))) {
+          openBlocks[i].toLine = comment.line;
+          openBlocks.splice(i, 1);
+        }
+      }
+      continue;
+    }
+
+    if (rules.length === 0) {
+      invalid.push({ file, line: comment.line, reason: `${directive} must name the rules it disables.` });
+      continue;
+    }
+    if (!justification) {
+      invalid.push({ file, line: comment.line, reason: `${directive} requires a justification after "--".` });
+      continue;
+    }
+
+    const suppression: Suppression = {
+      file,
+      kind: directive === 'sop-disable-next-line' ? 'next-line' : 'block',
+      rules,
+      justification,
+      line: comment.line,
+      fromLine: directive === 'sop-disable-next-line' ? comment.endLine + 1 : comment.line,
+      toLine: directive === 'sop-disable-next-line' ? comment.endLine + 1 : lastLine,
+      matched: 0,
+    };
+
+    suppressions.push(suppression);
+    if (suppression.kind === 'block') openBlocks.push(suppression);
+  }
+
+  return { suppressions, invalid };
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Remove suppressed findings from every result, rescoring each, and return
+ * all suppressions found in the analyzed files for the audit report.
+ */
+export function applySuppressions(
+  results: ValidationResult[],
+  ctx: ValidationContext
+): { results: ValidationResult[]; report: SuppressionReport } {
+  const report: SuppressionReport = { suppressions: [], invalid: [] };
+  const byFile = new Map<string, Suppression[]>();
+
+  for (const [file, content] of ctx.fileContents) {
+    // Skip parsing files that can't contain a directive
+    if (!content.includes('sop-')) continue;
+
+    const parsed = parseSuppressions(file, getSourceFile(ctx, file));
+    report.suppressions.push(...parsed.suppressions);
+    report.invalid.push(...parsed.invalid);
+    byFile.set(file, parsed.suppressions);
+  }
+
+  if (report.suppressions.length === 0) {
+    return { results, report };
+  }
+
+  const findSuppression = (finding: Violation | Warning): Suppression | undefined =>
+    byFile.get(finding.file)?.find(s =>
+      s.rules.includes(finding.rule) && finding.line >= s.fromLine && finding.line <= s.toLine
+    );
+
+  const filtered = results.map(result => {
+    const suppressed: SuppressedFinding[] = [...(result.suppressed ?? [])];
+    const keep = <T extends Violation | Warning>(finding: T): boolean => {
+      const suppression = findSuppression(finding);
+      if (!suppression) return true;
+
+      suppression.matched++;
+      suppressed.push({
+        finding,
+        justification: suppression.justification,
+        suppressionLine: suppression.line,
+      });
+      return false;
+    };
+
+    const violations = result.violations.filter(keep);
+    const warnings = result.warnings.filter(keep);
+    if (suppressed.length === (result.suppressed?.length ?? 0)) return result;
+
+    return { ...rescoreResult(result, violations, warnings), suppressed };
+  });
+
+  return { results: filtered, report };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Console section listing every suppression, so reviewers can audit them.
+ */
+export function formatSuppressionReport(report: SuppressionReport): string[] {
+  const lines: string[] = [];
+  if (report.suppressions.length === 0 && report.invalid.length === 0) return lines;
+
+  lines.push(`SUPPRESSIONS (${report.suppressions.length} active, ${report.invalid.length} invalid):`);
+  for (const s of report.suppressions) {
+    const range = s.kind === 'block' ? `lines ${s.fromLine}-${s.toLine}` : `line ${s.fromLine}`;
+    const usage = s.matched === 0 ? 'unused' : `${s.matched} silenced`;
+    lines.push(`  ${s.file}:${s.line} ${s.rules.join(', ')} (${range}, ${usage})`);
+    lines.push(`    Justification: ${s.justification}`);
+  }
+  for (const i of report.invalid) {
+    lines.push(`  [INVALID] ${i.file}:${i.line} - ${i.reason}`);
+  }
+
+  return lines;
+}
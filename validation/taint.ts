@@ -0,0 +1,317 @@
+/**
+ * SOP Taint Tracking - Client-provided org/team IDs reaching Prisma queries
+ *
+ * Follows values from NestJS request sources
+ *
+ *   @Body(), @Query(), @Param(), @Headers() parameters
+ *   req.body, req.query, req.params, req.headers (req from @Req())
+ *
+ * through local variables, destructuring and calls to functions and methods
+ * of the same file, to the organization/team fields of Prisma `where`
+ * clauses. Values from the authenticated user (@CurrentUser, request.user)
+ * are never sources.
+ *
+ * A value counts as validated, and stops being reported, when the function
+ * passes it to an access check (validateOrganizationAccess(user, [orgId]),
+ * assertTeamMembership(...)) or compares it with the user's own IDs
+ * (`orgId !== user.organization_id`), per SOP 3-database-prisma §1.5.
+ *
+ * The analysis is intra-file and flow-insensitive: values passed to other
+ * files aren't followed.
+ */
+
+import * as ts from 'typescript';
+import {
+  walk,
+  lineOf,
+  isFunctionLike,
+  unwrapExpression,
+  getCalleeName,
+  getDottedName,
+  getProperty,
+  getPropertyName,
+  getDecorators,
+  getDecoratorName,
+  findPrismaCalls,
+  collectFunctions,
+  getLocalCallee,
+  PrismaCall,
+} from './ast';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaintStep {
+  line: number;
+  description: string;
+}
+
+export interface TaintFlow {
+  /** Where-clause field the value ends up in, e.g. organization_id */
+  field: string;
+  query: PrismaCall;
+
+  /** Source first, the where-clause field last */
+  path: TaintStep[];
+}
+
+/** Tenant scope fields of where clauses */
+const SCOPE_FIELDS = ['organization_id', 'organizationId', 'org_id', 'team_id', 'teamId'];
+
+const SOURCE_DECORATORS = ['Body', 'Query', 'Param', 'Headers'];
+const REQUEST_DECORATORS = ['Req', 'Request'];
+const REQUEST_INPUTS = ['body', 'query', 'params', 'headers'];
+
+/** Access checks that validate the IDs passed to them */
+const ACCESS_CHECK = /^(validate|assert|check|verify|ensure|authorize)\w*(Access|Membership|Scope|Org|Organization|Team)\w*$/i;
+
+/** Conversions that keep the value: Number(orgId), orgId.trim() */
+const PASS_THROUGH = /^(Number|String|BigInt|parseInt|parseFloat)$|\.(trim|toString|toLowerCase|toUpperCase)$/;
+
+type FunctionNode = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function describe(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const text = node.getText(sourceFile).replace(/\s+/g, ' ');
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** Outermost functions: nested closures are analyzed with their parent */
+function topLevelFunctions(sourceFile: ts.SourceFile): FunctionNode[] {
+  const found: FunctionNode[] = [];
+  const visit = (node: ts.Node) => {
+    if (isFunctionLike(node) && (node as ts.FunctionLikeDeclaration).body) {
+      found.push(node as FunctionNode);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+/** Names bound by a declaration: `x`, or each name in `{ organization_id, team: { id } }` */
+function boundNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element => ts.isOmittedExpression(element) ? [] : boundNames(element.name));
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/** Shared by the analysis of every function of a file */
+interface AnalysisState {
+  sourceFile: ts.SourceFile;
+  functions: Map<string, ts.FunctionLikeDeclaration>;
+  queries: PrismaCall[];
+
+  /** Parameters tainted by callers, per function */
+  parameterTaint: Map<FunctionNode, Map<string, TaintStep[]>>;
+
+  /** Reported flows by where-clause field position */
+  flows: Map<string, TaintFlow>;
+}
+
+/**
+ * Values given to scope fields in a where clause: in the literal (nested
+ * AND/OR/relations included), the object a variable was declared with, or
+ * `where.organization_id = ...` assignments in the function.
+ */
+function scopeValues(where: ts.Expression, fn: FunctionNode): Array<{ field: string; value: ts.Expression; at: ts.Node }> {
+  const values: Array<{ field: string; value: ts.Expression; at: ts.Node }> = [];
+  const literals: ts.Node[] = [];
+  const unwrapped = unwrapExpression(where);
+
+  if (ts.isIdentifier(unwrapped)) {
+    const name = unwrapped.text;
+    walk(fn.body, node => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === name && node.initializer) {
+        literals.push(node.initializer);
+      }
+      if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(node.left) && getDottedName(node.left.expression) === name &&
+          SCOPE_FIELDS.includes(node.left.name.text)) {
+        values.push({ field: node.left.name.text, value: node.right, at: node });
+      }
+    });
+  } else {
+    literals.push(unwrapped);
+  }
+
+  for (const literal of literals) {
+    walk(literal, node => {
+      if (ts.isPropertyAssignment(node) && SCOPE_FIELDS.includes(getPropertyName(node.name) ?? '')) {
+        values.push({ field: getPropertyName(node.name)!, value: node.initializer, at: node });
+      }
+      if (ts.isShorthandPropertyAssignment(node) && SCOPE_FIELDS.includes(node.name.text)) {
+        values.push({ field: node.name.text, value: node.name, at: node });
+      }
+    });
+  }
+
+  return values;
+}
+
+/** Analyze one function; returns the functions whose parameters got new taint */
+function analyzeFunction(fn: FunctionNode, state: AnalysisState): FunctionNode[] {
+  const { sourceFile, functions, queries, parameterTaint, flows } = state;
+  const tainted = new Map<string, TaintStep[]>(parameterTaint.get(fn));
+  const requestNames = new Set(['req', 'request']);
+  const validated = new Set<string>();
+  const requeue: FunctionNode[] = [];
+
+  for (const param of fn.parameters) {
+    for (const decorator of getDecorators(param)) {
+      const decoratorName = getDecoratorName(decorator) ?? '';
+      if (REQUEST_DECORATORS.includes(decoratorName) && ts.isIdentifier(param.name)) {
+        requestNames.add(param.name.text);
+      }
+      if (!SOURCE_DECORATORS.includes(decoratorName)) continue;
+      const source = { line: lineOf(sourceFile, param), description: `${describe(param, sourceFile)} (client input)` };
+      for (const name of boundNames(param.name)) tainted.set(name, [source]);
+    }
+  }
+
+  const taintOf = (expr: ts.Expression): TaintStep[] | undefined => {
+    const node = unwrapExpression(expr);
+    if (ts.isIdentifier(node)) return tainted.get(node.text);
+
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      const [root, input] = (getDottedName(ts.isPropertyAccessExpression(node) ? node : node.expression) ?? '').split('.');
+      if (requestNames.has(root) && REQUEST_INPUTS.includes(input)) {
+        return [{ line: lineOf(sourceFile, node), description: `${describe(node, sourceFile)} (client input)` }];
+      }
+      return taintOf(node.expression);
+    }
+
+    if (ts.isCallExpression(node) && PASS_THROUGH.test(getCalleeName(node) ?? '')) {
+      const callee = node.expression;
+      return ts.isPropertyAccessExpression(callee)
+        ? taintOf(callee.expression)
+        : node.arguments[0] && taintOf(node.arguments[0]);
+    }
+    if (ts.isBinaryExpression(node) &&
+        [ts.SyntaxKind.QuestionQuestionToken, ts.SyntaxKind.BarBarToken].includes(node.operatorToken.kind)) {
+      return taintOf(node.left) ?? taintOf(node.right);
+    }
+    if (ts.isConditionalExpression(node)) return taintOf(node.whenTrue) ?? taintOf(node.whenFalse);
+    if (ts.isTemplateExpression(node)) {
+      return node.templateSpans.map(span => taintOf(span.expression)).find(Boolean);
+    }
+    return undefined;
+  };
+
+  const bind = (name: ts.BindingName, value: ts.Expression, at: ts.Node) => {
+    const path = taintOf(value);
+    if (!path) return;
+    for (const bound of boundNames(name)) {
+      tainted.set(bound, [...path, { line: lineOf(sourceFile, at), description: describe(at, sourceFile) }]);
+    }
+  };
+
+  walk(fn.body, node => {
+    if (ts.isVariableDeclaration(node) && node.initializer) bind(node.name, node.initializer, node);
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isIdentifier(node.left)) {
+      bind(node.left, node.right, node);
+    }
+
+    // Comparing with the user's own IDs validates the value
+    if (ts.isBinaryExpression(node) && [
+      ts.SyntaxKind.EqualsEqualsEqualsToken,
+      ts.SyntaxKind.ExclamationEqualsEqualsToken,
+      ts.SyntaxKind.EqualsEqualsToken,
+      ts.SyntaxKind.ExclamationEqualsToken,
+    ].includes(node.operatorToken.kind)) {
+      const [left, right] = [node.left, node.right].map(side => describe(unwrapExpression(side), sourceFile));
+      if (/user/i.test(right)) validated.add(left);
+      if (/user/i.test(left)) validated.add(right);
+    }
+
+    if (!ts.isCallExpression(node)) return;
+    const callee = getCalleeName(node) ?? '';
+    const method = callee.split('.').pop()!;
+
+    // Only the IDs passed in are checked, as arguments or in an array: not other fields of the same object
+    if (ACCESS_CHECK.test(method)) {
+      for (const arg of node.arguments) {
+        const unwrapped = unwrapExpression(arg);
+        const checked = ts.isArrayLiteralExpression(unwrapped) ? unwrapped.elements : [unwrapped];
+        for (const id of checked) validated.add(describe(unwrapExpression(id), sourceFile));
+      }
+    }
+
+    // this.helper(orgId) or helper(orgId) in the same file: taint its parameters
+    const target = getLocalCallee(node, functions) as FunctionNode | undefined;
+    if (!target) return;
+    node.arguments.forEach((arg, i) => {
+      const param = target.parameters[i];
+      const path = taintOf(arg);
+      if (!param || !path || ts.isSpreadElement(arg)) return;
+
+      const existing = parameterTaint.get(target) ?? new Map<string, TaintStep[]>();
+      const step = { line: lineOf(sourceFile, node), description: describe(node, sourceFile) };
+      let changed = false;
+      for (const name of boundNames(param.name)) {
+        if (existing.has(name)) continue;
+        existing.set(name, [...path, step]);
+        changed = true;
+      }
+      parameterTaint.set(target, existing);
+      if (changed) requeue.push(target);
+    });
+  });
+
+  const isValidated = (value: ts.Expression) => validated.has(describe(unwrapExpression(value), sourceFile));
+
+  // Sinks: scope fields of where clauses of the Prisma calls in this function
+  for (const query of queries) {
+    if (query.call.pos < fn.body.pos || query.call.end > fn.body.end || !query.args) continue;
+    const where = getProperty(query.args, 'where');
+    if (!where) continue;
+
+    for (const { field, value, at } of scopeValues(where, fn)) {
+      const path = taintOf(value);
+      const key = `${at.pos}:${field}`;
+      if (!path || isValidated(value) || flows.has(key)) continue;
+      flows.set(key, {
+        field,
+        query,
+        path: [...path, { line: lineOf(sourceFile, at), description: `where.${field} in prisma.${query.model}.${query.method}` }],
+      });
+    }
+  }
+
+  return requeue;
+}
+
+/**
+ * Prisma where-clause org/team fields whose value comes from client input
+ * without an access check, with the path from source to query.
+ */
+export function findTaintedScopeFlows(sourceFile: ts.SourceFile): TaintFlow[] {
+  const state: AnalysisState = {
+    sourceFile,
+    functions: collectFunctions(sourceFile),
+    queries: findPrismaCalls(sourceFile),
+    parameterTaint: new Map(),
+    flows: new Map(),
+  };
+
+  const queue = topLevelFunctions(sourceFile);
+  // Functions are queued again only when their parameters get new taint, so
+  // this terminates; the cap is a safeguard
+  for (let i = 0; i < queue.length && i < 1000; i++) {
+    queue.push(...analyzeFunction(queue[i], state));
+  }
+  return Array.from(state.flows.values());
+}
+
+export function formatTaintPath(path: TaintStep[]): string {
+  return path.map(step => `${step.description} (line ${step.line})`).join(' → ');
+}
@@ -5,12 +5,47 @@
  * Contains test cases with known violations and passing code.
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { PassThrough, Writable } from 'stream';
+import { pathToFileURL } from 'url';
 import {
   validators,
+  scorers,
   ValidatorName,
   ValidationResult,
   ValidationContext,
+  EntityConfig,
+  DEFAULT_ENTITIES,
+  GuardOrder,
 } from './validators';
+import { applyDiffFilter } from './diff-filter';
+import { applyBaseline, createBaseline } from './baseline';
+import { applySuppressions } from './suppressions';
+import { applyRuleOverrides, mergeConfig, loadProjectConfig, RuleSetting } from './config';
+import { parsePrismaSchema, entitiesFromSchema } from './prisma-schema';
+import { runEngine, EngineOptions, ValidationSummary } from './engine';
+import { formatSarif, buildRulesCatalog } from './sarif';
+import { formatAnnotation } from './github';
+import { formatJUnit } from './junit';
+import { formatHtml } from './html';
+import { parseRange, collectFindings, matchFindings, CompareFinding } from './compare';
+import { Ratchet, ratchetScope, createRatchet, applyRatchet } from './ratchet';
+import { shardFiles, mergeFileResults } from './parallel';
+import { evaluateGating, DEFAULT_GATING_CONFIG } from './metrics-config';
+import { readBlob, readBlobs, getCommitFiles, commitDiffArgs, collectChangedLines } from './git';
+import { formatFindingChanges } from './watch';
+import {
+  loadPlugins,
+  loadedPlugins,
+  unloadPlugins,
+  getPluginRules,
+  getPluginFixes,
+  getFormatter,
+} from './plugins';
+import { startLanguageServer } from './lsp';
 
 // ============================================================================
 // TEST TYPES
@@ -21,21 +56,41 @@ interface TestCase {
   description: string;
   validator: ValidatorName;
   files: Record<string, string>;
+  /** Simulates diff mode: only these lines of each file count as changed */
+  changedLines?: Record<string, number[]>;
+  /** Simulates a baseline recorded when the files had these contents */
+  baselineFiles?: Record<string, string>;
+  /** Project config overrides, as in .sopvalidaterc */
+  rules?: Record<string, RuleSetting>;
+  entities?: Partial<EntityConfig>;
+  guardOrder?: GuardOrder;
+  /** schema.prisma contents to derive entity lists from */
+  prismaSchema?: string;
   expectedViolations: number;
   expectedWarnings: number;
   shouldPass: boolean;
 }
 
+/** A check of a module's pure logic, outside any validator */
+interface UnitTestCase {
+  name: string;
+  description: string;
+  module: string;
+  /** Returns what went wrong, or undefined when the check holds */
+  check: () => string | undefined;
+}
+
 interface TestResult {
   name: string;
-  validator: ValidatorName;
+  /** Validator, or module for unit tests */
+  validator: string;
   passed: boolean;
-  expected: {
+  expected?: {
     violations: number;
     warnings: number;
     shouldPass: boolean;
   };
-  actual: {
+  actual?: {
     violations: number;
     warnings: number;
     passed: boolean;
@@ -112,6 +167,225 @@ const testCases: TestCase[] = [
     expectedWarnings: 0,
     shouldPass: true,
   },
+  {
+    name: 'JWT strategy with shared secret',
+    description: 'Detects passport-jwt strategies that skip JWKS, algorithm, audience/issuer and expiry checks',
+    validator: 'supabase-auth',
+    files: {
+      'jwt.strategy.ts': `
+        import { PassportStrategy } from '@nestjs/passport';
+        import { ExtractJwt, Strategy } from 'passport-jwt';
+
+        @Injectable()
+        export class JwtStrategy extends PassportStrategy(Strategy) {
+          constructor(config: ConfigService) {
+            // BAD: shared secret, any algorithm, any audience, expired tokens accepted
+            super({
+              jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+              secretOrKey: config.get('SUPABASE_JWT_SECRET'),
+              ignoreExpiration: true,
+            });
+          }
+        }
+      `,
+    },
+    expectedViolations: 4,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'jose verification mixing algorithms',
+    description: 'Detects symmetric algorithms allowed next to the JWKS ones',
+    validator: 'supabase-auth',
+    files: {
+      'supabase-auth.guard.ts': `
+        import { createRemoteJWKSet, jwtVerify } from 'jose';
+
+        export class SupabaseAuthGuard {
+          private readonly jwks = createRemoteJWKSet(new URL(process.env.SUPABASE_JWKS_URL));
+
+          async verify(token: string) {
+            // BAD: HS256 lets anyone holding the shared secret mint tokens
+            const { payload } = await jwtVerify(token, this.jwks, {
+              algorithms: ['ES256', 'HS256'],
+              audience: 'authenticated',
+              issuer: process.env.SUPABASE_ISSUER,
+            });
+            return payload;
+          }
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'JWKS verification with full checks',
+    description: 'Remote JWKS, algorithm allowlist, audience and issuer',
+    validator: 'supabase-auth',
+    files: {
+      'jwt.strategy.ts': `
+        import { PassportStrategy } from '@nestjs/passport';
+        import { ExtractJwt, Strategy } from 'passport-jwt';
+        import { passportJwtSecret } from 'jwks-rsa';
+
+        @Injectable()
+        export class JwtStrategy extends PassportStrategy(Strategy) {
+          constructor() {
+            super({
+              jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+              secretOrKeyProvider: passportJwtSecret({
+                jwksUri: \`\${process.env.SUPABASE_URL}/auth/v1/.well-known/jwks.json\`,
+                cache: true,
+                rateLimit: true,
+              }),
+              algorithms: ['ES256', 'RS256'],
+              audience: 'authenticated',
+              issuer: \`\${process.env.SUPABASE_URL}/auth/v1\`,
+            });
+          }
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Guard order inverted',
+    description: 'Detects authorization guards running before authentication, within and across decorators',
+    validator: 'supabase-auth',
+    files: {
+      'users.controller.ts': `
+        @Controller('users')
+        export class UsersController {
+          // BAD: roles are checked before the user is authenticated
+          @Get()
+          @UseGuards(RolesGuard, JwtAuthGuard, OrgScopeGuard)
+          findAll() {}
+        }
+
+        // BAD: class guards run before handler guards
+        @Controller('members')
+        @UseGuards(PermissionsGuard)
+        export class MembersController {
+          @Get()
+          @UseGuards(JwtAuthGuard)
+          findAll() {}
+        }
+      `,
+    },
+    expectedViolations: 2,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Guard order across class and handler',
+    description: 'Authentication on the class, authorization on the handler is in order',
+    validator: 'supabase-auth',
+    files: {
+      'users.controller.ts': `
+        @Controller('users')
+        @UseGuards(JwtAuthGuard)
+        export class UsersController {
+          @Get()
+          @UseGuards(RolesGuard, OrgScopeGuard)
+          findAll() {}
+
+          @Get('me')
+          me() {}
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Custom guard order',
+    description: 'guardOrder replaces the built-in hierarchy',
+    validator: 'supabase-auth',
+    guardOrder: [['SessionGuard'], ['TeamGuard'], ['RolesGuard']],
+    files: {
+      'teams.controller.ts': `
+        @Controller('teams')
+        export class TeamsController {
+          @Get()
+          @UseGuards(SessionGuard, RolesGuard, TeamGuard)
+          findAll() {}
+
+          // Authorization without authentication: may be global, so only a warning
+          @Get(':id')
+          @UseGuards(TeamGuard)
+          findOne() {}
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 1,
+    shouldPass: false,
+  },
+  {
+    name: 'Unauthenticated GET route',
+    description: 'Detects a reachable route with no authentication guard at any level',
+    validator: 'route-authorization',
+    files: {
+      'app.module.ts': `
+        @Module({
+          controllers: [ReportsController],
+          providers: [{ provide: APP_GUARD, useClass: OrgScopeGuard }],
+        })
+        export class AppModule {}
+      `,
+      'reports.controller.ts': `
+        @Controller('reports')
+        export class ReportsController {
+          // BAD: only the org-scope guard runs, nobody is authenticated
+          @Get()
+          findAll() {}
+
+          @Get(':id')
+          @UseGuards(JwtAuthGuard, PermissionsGuard)
+          findOne() {}
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Global auth guard with public opt-out',
+    description: 'APP_GUARD authenticates every route; @Public() routes are intentionally open',
+    validator: 'route-authorization',
+    files: {
+      'app.module.ts': `
+        @Module({
+          controllers: [AuthController],
+          providers: [{ provide: APP_GUARD, useClass: JwtAuthGuard }],
+        })
+        export class AppModule {}
+      `,
+      'public.decorator.ts': `
+        export const AllowGuest = () => SetMetadata(IS_PUBLIC_KEY, true);
+      `,
+      'auth.controller.ts': `
+        @Controller('auth')
+        export class AuthController {
+          @AllowGuest()
+          @Post('login')
+          login() {}
+
+          @Get('me')
+          me() {}
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
 
   // ============================================================================
   // 3-DATABASE-PRISMA TESTS
@@ -271,6 +545,37 @@ const testCases: TestCase[] = [
     shouldPass: true,
   },
 
+  // ============================================================================
+  // 4-CODE-SAFETY-PATTERNS TESTS
+  // ============================================================================
+  {
+    name: 'Status complete before operation',
+    description: 'Detects a completed step recorded before the work that follows it',
+    validator: 'code-safety',
+    files: {
+      'sync.service.ts': `
+        async syncOrganization(orgId: string) {
+          // BAD: marked complete, then the update may still fail
+          await this.updateStatus(orgId, {
+            step: 'sync_complete',
+          });
+          await this.prisma.organizations.update({
+            where: { id: orgId },
+            data: { synced_at: new Date() },
+          });
+        }
+
+        async importUsers(jobId: string) {
+          await this.importAll(jobId);
+          await this.updateStatus(jobId, { step: 'import_complete' });
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 1,
+    shouldPass: true,
+  },
+
   // ============================================================================
   // 5-ERROR-HANDLING-LOGGING TESTS
   // ============================================================================
@@ -381,6 +686,40 @@ const testCases: TestCase[] = [
     shouldPass: false,
   },
 
+  // ============================================================================
+  // 6-EXTERNAL-SERVICES TESTS
+  // ============================================================================
+  {
+    name: 'External error exposed to user',
+    description: 'Detects the caught error of an external call passed into a thrown exception',
+    validator: 'external-services',
+    files: {
+      'rates.service.ts': `
+        async getRate(currency: string) {
+          try {
+            return await this.ratesApi.getRate(currency);
+          } catch (error) {
+            this.logger.error(\`Rate lookup failed for \${currency}\`, error.stack);
+            // BAD: the provider's message reaches the client
+            throw new BadGatewayException(\`Rate lookup failed: \${error.message}\`);
+          }
+        }
+
+        async getCachedRate(currency: string) {
+          try {
+            return await this.ratesApi.getRate(currency);
+          } catch (error) {
+            this.logger.error('Rate lookup failed', error.stack);
+            throw new BadGatewayException('Exchange rates are unavailable');
+          }
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 1,
+    shouldPass: true,
+  },
+
   // ============================================================================
   // 7-QUEUE-JOB-PROCESSING TESTS
   // ============================================================================
@@ -544,7 +883,7 @@ const testCases: TestCase[] = [
   {
     name: 'Cache without org in key',
     description: 'Cache key missing organization context',
-    validator: 'tenant-isolation',
+    validator: 'cache-isolation',
     files: {
       'cache.service.ts': `
         async getCached(key: string) {
@@ -556,57 +895,1257 @@ const testCases: TestCase[] = [
     expectedWarnings: 1,
     shouldPass: true,
   },
-];
-
-// ============================================================================
-// TEST RUNNER
-// ============================================================================
-
-function createContext(files: Record<string, string>): ValidationContext {
-  const fileContents = new Map<string, string>();
-  const fileList: string[] = [];
-
-  for (const [name, content] of Object.entries(files)) {
-    fileContents.set(name, content);
-    fileList.push(name);
-  }
+  {
+    name: 'Template-literal cache key without org',
+    description: 'Reconstructs template-literal keys and detects a missing organization component',
+    validator: 'cache-isolation',
+    files: {
+      'profiles.service.ts': `
+        async getProfile(userId: string) {
+          // BAD: one entry per user id, shared by every tenant
+          const key = \`profile:\${userId}\`;
+          const cached = await this.cacheManager.get(key);
+          if (cached) return cached;
+          const profile = await this.prisma.profiles.findUnique({ where: { id: userId } });
+          await this.cacheManager.set(key, profile);
+          return profile;
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Static cache key naming organizations',
+    description: 'Fixed key text mentioning orgs is not an organization component',
+    validator: 'cache-isolation',
+    files: {
+      'organizations.service.ts': `
+        async listOrganizations() {
+          // BAD: one list for every tenant, whatever the key says
+          const key = 'orgs:list';
+          const cached = await this.cacheManager.get(key);
+          if (cached) return cached;
+          const orgs = await this.prisma.organizations.findMany();
+          await this.cacheManager.set(key, orgs);
+          return orgs;
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Cached data mutated without invalidation',
+    description: 'Follows key helpers and detects an update of cached data that never deletes the key',
+    validator: 'cache-isolation',
+    files: {
+      'teams.service.ts': `
+        private listKey(organizationId: string) {
+          return \`org:\${organizationId}:teams\`;
+        }
 
-  return {
-    files: fileList,
-    fileContents,
-  };
-}
+        async list(user: User) {
+          return this.cacheManager.wrap(this.listKey(user.organization_id), () =>
+            this.prisma.teams.findMany({ where: { organization_id: user.organization_id } }));
+        }
 
-function runTest(testCase: TestCase): TestResult {
-  const ctx = createContext(testCase.files);
-  const validator = validators[testCase.validator];
+        async remove(user: User, id: string) {
+          await this.prisma.teams.delete({ where: { id, organization_id: user.organization_id } });
+          await this.cacheManager.del(this.listKey(user.organization_id));
+        }
 
-  if (!validator) {
-    return {
-      name: testCase.name,
-      validator: testCase.validator,
-      passed: false,
-      expected: {
-        violations: testCase.expectedViolations,
-        warnings: testCase.expectedWarnings,
-        shouldPass: testCase.shouldPass,
-      },
-      actual: {
-        violations: 0,
-        warnings: 0,
-        passed: false,
-      },
-      details: `Validator '${testCase.validator}' not found`,
-    };
-  }
+        // BAD: the cached list keeps the old name
+        async rename(user: User, id: string, name: string) {
+          return this.prisma.teams.update({ where: { id, organization_id: user.organization_id }, data: { name } });
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Client-provided org ID in where clause',
+    description: 'Follows @Query input through a helper method into a Prisma where clause',
+    validator: 'tenant-isolation',
+    files: {
+      'members.controller.ts': `
+        @Controller('members')
+        export class MembersController {
+          @Get()
+          async list(@Query('organization_id') orgId: string) {
+            return this.findForOrg(orgId);
+          }
 
-  const result = validator(ctx);
+          // BAD: orgId is whatever the client sent
+          private findForOrg(organizationId: string) {
+            return this.prisma.members.findMany({
+              where: { organization_id: organizationId },
+            });
+          }
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Validated or user-derived org IDs',
+    description: 'Org IDs from the user or checked with validateOrganizationAccess are trusted',
+    validator: 'tenant-isolation',
+    files: {
+      'members.controller.ts': `
+        @Controller('members')
+        export class MembersController {
+          @Get()
+          async list(@Query() query: ListMembersDto, @CurrentUser() currentUser: User) {
+            const where: Prisma.membersWhereInput = {};
+            if (isOrganizationUser(currentUser)) {
+              where.organization_id = currentUser.organization_id;
+            } else {
+              this.csmScopeService.validateOrganizationAccess(currentUser, [query.organization_id]);
+              where.organization_id = query.organization_id;
+            }
+            return this.prisma.members.findMany({ where });
+          }
 
-  const violationMatch = result.violations.length === testCase.expectedViolations;
-  const warningMatch = result.warnings.length === testCase.expectedWarnings;
-  const passMatch = result.passed === testCase.shouldPass;
+          @Get('me')
+          async mine(@Req() req: AuthenticatedRequest, @Body() dto: SearchDto) {
+            return this.prisma.members.findMany({
+              where: { organization_id: req.user.organization_id, name: dto.name },
+            });
+          }
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Access check on another field',
+    description: 'Validating the team ID does not validate the org ID of the same DTO',
+    validator: 'tenant-isolation',
+    files: {
+      'members.controller.ts': `
+        @Controller('members')
+        export class MembersController {
+          @Post('search')
+          async search(@Body() dto: SearchMembersDto, @CurrentUser() user: User) {
+            await this.validateTeamAccess(user, dto.team_id);
+            // BAD: only team_id was checked
+            return this.prisma.members.findMany({
+              where: { organization_id: dto.organization_id, team_id: dto.team_id },
+            });
+          }
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
 
-  const passed = violationMatch && warningMatch && passMatch;
+  // ============================================================================
+  // GENERAL PRACTICES TESTS
+  // ============================================================================
+  {
+    name: 'eval() usage',
+    description: 'Security: eval executes arbitrary code',
+    validator: 'general-practices',
+    files: {
+      'script.service.ts': `
+        async run(input: string) {
+          return eval(input);
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Empty catch block',
+    description: 'Error handling: swallowed errors are a high-severity violation',
+    validator: 'general-practices',
+    files: {
+      'loader.service.ts': `
+        async load(id: string) {
+          try {
+            return await this.repo.find(id);
+          } catch (e) {}
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Await in loop',
+    description: 'Performance: sequential awaits are warnings',
+    validator: 'general-practices',
+    files: {
+      'sync.service.ts': `
+        async syncAll(ids: string[]) {
+          for (const id of ids) {
+            await this.sync(id);
+          }
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 2,
+    shouldPass: true,
+  },
+  {
+    name: 'Clean general practices',
+    description: 'Guarded lookup with a typed exception',
+    validator: 'general-practices',
+    files: {
+      'users.service.ts': `
+        async findOne(id: string): Promise<User> {
+          const user = await this.repo.findOne(id);
+          if (!user) {
+            throw new NotFoundException('User not found');
+          }
+          return user;
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+
+  // ============================================================================
+  // DIFF FILTER TESTS
+  // ============================================================================
+  {
+    name: 'Pre-existing violation outside changed lines',
+    description: 'Hard delete on an untouched line is not gated in diff mode',
+    validator: 'prisma-queries',
+    files: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({
+            where: { id },
+          });
+        }
+      `,
+    },
+    changedLines: { 'org.service.ts': [2] },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Violation introduced on changed line',
+    description: 'Hard delete on a changed line is still gated in diff mode',
+    validator: 'prisma-queries',
+    files: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({
+            where: { id },
+          });
+        }
+      `,
+    },
+    changedLines: { 'org.service.ts': [3] },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+
+  {
+    name: 'Only non-blocking violations on changed lines',
+    description: 'A result failing on a pre-existing hard delete passes when only a medium finding is introduced',
+    validator: 'prisma-queries',
+    files: {
+      'org.service.ts': `
+        async listMembers(orgId: string) {
+          return this.prisma.members.findMany({ where: { organization_id: orgId }, take: 20 });
+        }
+
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    changedLines: { 'org.service.ts': [3] },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+
+  // ============================================================================
+  // BASELINE TESTS
+  // ============================================================================
+  {
+    name: 'Baselined violation after line shift',
+    description: 'Baseline entries match by content, not line number',
+    validator: 'prisma-queries',
+    baselineFiles: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    files: {
+      'org.service.ts': `
+        // Removes an organization
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'New copy of baselined violation',
+    description: 'Each baseline entry suppresses a single occurrence',
+    validator: 'prisma-queries',
+    baselineFiles: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    files: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+
+        async purgeOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+
+  // ============================================================================
+  // SUPPRESSION TESTS
+  // ============================================================================
+  {
+    name: 'Justified next-line suppression',
+    description: 'sop-disable-next-line with a reason silences the finding',
+    validator: 'prisma-queries',
+    files: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          // sop-disable-next-line INV-PRISMA-SOFT-DELETE -- GDPR erasure must hard delete
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Suppression without justification',
+    description: 'sop-disable-next-line without a reason is ignored',
+    validator: 'prisma-queries',
+    files: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          // sop-disable-next-line INV-PRISMA-SOFT-DELETE
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Suppression leaving non-blocking violations',
+    description: 'Silencing the only blocking finding passes the result',
+    validator: 'prisma-queries',
+    files: {
+      'org.service.ts': `
+        async listMembers(orgId: string) {
+          return this.prisma.members.findMany({ where: { organization_id: orgId }, take: 20 });
+        }
+
+        async deleteOrganization(id: string) {
+          // sop-disable-next-line INV-PRISMA-SOFT-DELETE -- GDPR erasure must hard delete
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Block suppression',
+    description: 'sop-disable/sop-enable silences findings between them only',
+    validator: 'code-quality',
+    files: {
+      'legacy.ts': `
+        // sop-disable INV-ANY-TYPE -- untyped vendor payloads
+        function parse(raw: any): any {
+          return raw;
+        }
+        // sop-enable
+        function forward(raw: any) {
+          return raw;
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 1,
+    shouldPass: true,
+  },
+
+  // ============================================================================
+  // PROJECT CONFIG TESTS
+  // ============================================================================
+  {
+    name: 'Rule turned off in config',
+    description: 'rules: { INV-PRISMA-SOFT-DELETE: off } drops the finding',
+    validator: 'prisma-queries',
+    rules: { 'INV-PRISMA-SOFT-DELETE': 'off' },
+    files: {
+      'org.service.ts': `
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Rule raised to critical in config',
+    description: 'rules: { INV-ANY-TYPE: critical } turns the warning into a blocker',
+    validator: 'code-quality',
+    rules: { 'INV-ANY-TYPE': 'critical' },
+    files: {
+      'util.ts': `
+        export function parse(raw: any) {
+          return raw;
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Rule lowered to medium in config',
+    description: 'rules: { INV-PRISMA-N+1: medium } keeps the finding but no longer blocks',
+    validator: 'prisma-queries',
+    rules: { 'INV-PRISMA-N+1': 'medium' },
+    files: {
+      'members.service.ts': `
+        async loadMembers(ids: string[]) {
+          const members = [];
+          for (const id of ids) {
+            members.push(await this.prisma.members.findUnique({ where: { id } }));
+          }
+          return members;
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: true,
+  },
+  {
+    name: 'Soft-delete entities from config',
+    description: 'entities.softDelete replaces the built-in list',
+    validator: 'prisma-queries',
+    entities: { softDelete: ['invoices'] },
+    files: {
+      'invoice.service.ts': `
+        async deleteInvoice(id: string) {
+          return this.prisma.invoices.delete({ where: { id } });
+        }
+
+        async deleteOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+
+  // ============================================================================
+  // PRISMA SCHEMA TESTS
+  // ============================================================================
+  {
+    name: 'Soft-delete models from schema.prisma',
+    description: 'Only models with a deleted_at column require the filter',
+    validator: 'prisma-queries',
+    prismaSchema: `
+      model invoices {
+        id              String    @id
+        organization_id String
+        deleted_at      DateTime? // soft delete
+      }
+
+      model organizations {
+        id   String @id
+        name String
+      }
+    `,
+    files: {
+      'billing.service.ts': `
+        async removeInvoice(id: string) {
+          return this.prisma.invoices.delete({ where: { id } });
+        }
+
+        async removeOrganization(id: string) {
+          return this.prisma.organizations.delete({ where: { id } });
+        }
+      `,
+    },
+    expectedViolations: 1,
+    expectedWarnings: 0,
+    shouldPass: false,
+  },
+  {
+    name: 'Tenant-scoped models from schema.prisma',
+    description: 'Models without organization_id are not checked for an org filter',
+    validator: 'tenant-isolation',
+    prismaSchema: `
+      model Invoice {
+        id             String    @id
+        organizationId String    @map("organization_id")
+        deletedAt      DateTime? @map("deleted_at")
+        @@map("invoices")
+      }
+
+      model Country {
+        code String @id
+      }
+    `,
+    files: {
+      'billing.service.ts': `
+        async listCountries() {
+          return this.prisma.country.findMany({ orderBy: { code: 'asc' } });
+        }
+
+        async listInvoices() {
+          return this.prisma.invoice.findMany({ where: { deletedAt: null } });
+        }
+      `,
+    },
+    expectedViolations: 0,
+    expectedWarnings: 1,
+    shouldPass: true,
+  },
+];
+
+// ============================================================================
+// UNIT TEST CASES
+// ============================================================================
+
+/** A decode-only JWT (critical) and a findMany without orderBy (medium, plus a warning) */
+const FIXTURE_FILES: Record<string, string> = {
+  'auth/decode & verify.ts': `
+    import jwt from 'jsonwebtoken';
+
+    export async function parseToken(token: string) {
+      return jwt.decode(token);
+    }
+  `,
+  'invoices.service.ts': `
+    async listInvoices(orgId: string) {
+      return this.prisma.invoice.findMany({ where: { organization_id: orgId } });
+    }
+  `,
+};
+
+function runFixture(options: EngineOptions = {}): ValidationSummary {
+  return runEngine({
+    targetDir: '/repo',
+    files: new Map(Object.entries(FIXTURE_FILES)),
+    validators: ['supabase-auth', 'prisma-queries'],
+    config: mergeConfig({}),
+    ...options,
+  });
+}
+
+/** What differs between actual and expected, compared as JSON */
+function mismatch(what: string, actual: unknown, expected: unknown): string | undefined {
+  const [a, e] = [JSON.stringify(actual), JSON.stringify(expected)];
+  return a === e ? undefined : `${what}: expected ${e}, got ${a}`;
+}
+
+/**
+ * Run a check inside a throwaway git repository on branch main. `git` runs
+ * a git command there with a fixed identity.
+ */
+function inTempRepo(check: (git: (command: string) => string) => string | undefined): string | undefined {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sop-validate-test-'));
+  const cwd = process.cwd();
+  const git = (command: string) => execSync(
+    `git -c user.name=test -c user.email=test@example.com -c commit.gpgsign=false ${command}`,
+    { encoding: 'utf-8', stdio: 'pipe' }
+  );
+
+  try {
+    process.chdir(dir);
+    git('init -q');
+    git('checkout -q -b main');
+    return check(git);
+  } finally {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const unitTestCases: UnitTestCase[] = [
+  // ============================================================================
+  // SARIF OUTPUT
+  // ============================================================================
+  {
+    name: 'SARIF results for findings',
+    description: 'Each finding is a result pointing at a reported rule, with an encoded relative URI',
+    module: 'sarif',
+    check: () => {
+      const run = formatSarif(runFixture()).runs[0];
+      return mismatch('rule IDs', run.results.map(r => run.tool.driver.rules[r.ruleIndex]?.id), run.results.map(r => r.ruleId))
+        ?? mismatch('levels', run.results.map(r => r.level), ['error', 'warning', 'note'])
+        ?? mismatch('location', run.results[0].locations[0].physicalLocation, {
+          artifactLocation: { uri: 'auth/decode%20%26%20verify.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 5 },
+        })
+        ?? mismatch('baseline states', run.results.map(r => r.baselineState), [undefined, undefined, undefined]);
+    },
+  },
+  {
+    name: 'SARIF baseline states in diff runs',
+    description: 'Once pre-existing findings are unchanged, gated ones are marked new',
+    module: 'sarif',
+    check: () => {
+      const summary = runFixture({
+        changedLines: new Map([['auth/decode & verify.ts', [5]], ['invoices.service.ts', []]]),
+      });
+      const run = formatSarif(summary).runs[0];
+      return mismatch('baseline states', run.results.map(r => r.baselineState), ['new', 'unchanged', 'unchanged']);
+    },
+  },
+
+  // ============================================================================
+  // GITHUB ANNOTATIONS
+  // ============================================================================
+  {
+    name: 'Annotation escaping',
+    description: 'Escapes %, CR and LF in messages, and also : and , in properties',
+    module: 'github',
+    check: () => mismatch(
+      'annotation',
+      formatAnnotation('error', { file: 'a,b:c.ts', line: 3, title: 'INV-X: 100%' }, 'first: 50%\r\nsecond, third'),
+      '::error file=a%2Cb%3Ac.ts,line=3,title=INV-X%3A 100%25::first: 50%25%0D%0Asecond, third'
+    ),
+  },
+  {
+    name: 'Annotation without title',
+    description: 'Omits the title property when none is given',
+    module: 'github',
+    check: () => mismatch(
+      'annotation',
+      formatAnnotation('notice', { file: 'src/a.ts', line: 1 }, 'message'),
+      '::notice file=src/a.ts,line=1::message'
+    ),
+  },
+
+  // ============================================================================
+  // JUNIT OUTPUT
+  // ============================================================================
+  {
+    name: 'JUnit suites and cases',
+    description: 'One suite per metric and one case per file; blocking metrics fail, others skip',
+    module: 'junit',
+    check: () => {
+      const xml = formatJUnit(runFixture({
+        config: mergeConfig({ metrics: { 'prisma-queries': { blockOnFail: false } } }),
+      }));
+      const count = (pattern: RegExp) => (xml.match(pattern) ?? []).length;
+      return mismatch('root', xml.split('\n')[1], '<testsuites name="sop-validate" tests="4" failures="1" errors="0" skipped="1">')
+        ?? mismatch('suites', count(/<testsuite /g), 2)
+        ?? mismatch('escaped file case', count(/<testcase name="auth\/decode &amp; verify.ts"/g), 2)
+        ?? mismatch('failure', count(/<failure message="1 violation\(s\): INV-SUPABASE-1" type="INV-SUPABASE-1">/g), 1)
+        ?? mismatch('skipped', count(/<skipped message="2 non-blocking finding\(s\)"\/>/g), 1);
+    },
+  },
+
+  // ============================================================================
+  // COMPARE
+  // ============================================================================
+  {
+    name: 'Revision range parsing',
+    description: 'Splits two- and three-dot ranges like git, defaulting empty sides to HEAD',
+    module: 'compare',
+    check: () => mismatch(
+      'ranges',
+      ['main..feature', 'main...', '..HEAD~1', 'v1.2.0'].map(parseRange),
+      [
+        { base: 'main', head: 'feature', mergeBase: false },
+        { base: 'main', head: 'HEAD', mergeBase: true },
+        { base: 'HEAD', head: 'HEAD~1', mergeBase: false },
+        { base: 'v1.2.0', head: 'HEAD', mergeBase: false },
+      ]
+    ),
+  },
+  {
+    name: 'Findings matched across revisions',
+    description: 'Moved findings are unchanged, a second copy of one is introduced',
+    module: 'compare',
+    check: () => {
+      const headFiles: Record<string, string> = {
+        'auth/decode & verify.ts': FIXTURE_FILES['auth/decode & verify.ts'].replace('jwt.decode(token)', 'this.authService.verifyToken(token)'),
+        'invoices.service.ts': `
+    async listAllInvoices(orgId: string) {
+      return this.prisma.invoice.findMany({ where: { organization_id: orgId } });
+    }
+  ${FIXTURE_FILES['invoices.service.ts']}`,
+      };
+      const findings = (files: Record<string, string>) => {
+        const contents = new Map(Object.entries(files));
+        return collectFindings(runFixture({ files: contents }), contents);
+      };
+      const matched = matchFindings(findings(FIXTURE_FILES), findings(headFiles));
+      const describe = (list: CompareFinding[]) => list.map(f => `${f.rule}@${f.line}`);
+      return mismatch('fixed', describe(matched.fixed), ['INV-SUPABASE-1@5'])
+        ?? mismatch('unchanged', describe(matched.unchanged), ['INV-PRISMA-ORDERBY@3', 'INV-PRISMA-PAGINATION@3'])
+        ?? mismatch('introduced', describe(matched.introduced), ['INV-PRISMA-ORDERBY@7', 'INV-PRISMA-PAGINATION@7']);
+    },
+  },
+
+  // ============================================================================
+  // RATCHET
+  // ============================================================================
+  {
+    name: 'Ratchet regressions and tightening',
+    description: 'Worse metrics regress, better ones tighten, metrics that did not run keep their entry',
+    module: 'ratchet',
+    check: () => {
+      const scope = ratchetScope('/repo/.sop-ratchet.json', '/repo', ['*.ts'], []);
+      const { metrics } = runFixture();
+      const prismaScore = metrics.find(m => m.name === 'prisma-queries')!.score;
+      const ratchet: Ratchet = {
+        version: 2,
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        scope,
+        metrics: {
+          'supabase-auth': { score: 1, violations: 0 },
+          'prisma-queries': { score: 0, violations: 5 },
+          'tenant-isolation': { score: 0.9, violations: 2 },
+        },
+      };
+      const outcome = applyRatchet(ratchet, metrics, scope);
+      return mismatch('regressions', outcome.regressions.map(r => `${r.metric}.${r.field}`), ['supabase-auth.score', 'supabase-auth.violations'])
+        ?? mismatch('improved', outcome.improved, ['prisma-queries'])
+        ?? mismatch('tightened', outcome.tightened.metrics, {
+          ...ratchet.metrics,
+          'prisma-queries': { score: Number(prismaScore.toFixed(4)), violations: 1 },
+        })
+        ?? mismatch('recorded scope', outcome.tightened.scope, scope);
+    },
+  },
+  {
+    name: 'Ratchet without improvements',
+    description: 'A run matching the recorded values leaves the ratchet as it is',
+    module: 'ratchet',
+    check: () => {
+      const scope = ratchetScope('/repo/.sop-ratchet.json', '/repo', ['*.ts'], []);
+      const ratchet = createRatchet(runFixture().metrics, scope);
+      const outcome = applyRatchet(ratchet, runFixture().metrics, scope);
+      return mismatch('regressions', outcome.regressions, [])
+        ?? mismatch('improved', outcome.improved, [])
+        ?? mismatch('tightened', outcome.tightened === ratchet, true);
+    },
+  },
+  {
+    name: 'Ratchet for other files',
+    description: 'Refuses to compare a run whose scope differs from the recorded one',
+    module: 'ratchet',
+    check: () => {
+      const scope = ratchetScope('/repo/.sop-ratchet.json', '/repo/src', ['*.ts'], []);
+      const ratchet = createRatchet(runFixture().metrics, scope);
+      try {
+        applyRatchet(ratchet, runFixture().metrics, { ...scope, exclude: ['*.spec.ts'] });
+      } catch (e: any) {
+        return mismatch('error mentions', /exclude \*\.spec\.ts \(ratchet: \(none\)\)/.test(e.message), true)
+          ?? mismatch('recorded target dir', scope.targetDir, 'src');
+      }
+      return 'applied a ratchet recorded for other files';
+    },
+  },
+
+  // ============================================================================
+  // PARALLEL
+  // ============================================================================
+  {
+    name: 'Per-file results merged',
+    description: 'Merging per-file results gives the result of one run over all files',
+    module: 'parallel',
+    check: () => {
+      const ctx = createContext(FIXTURE_FILES);
+      const names: ValidatorName[] = ['supabase-auth', 'prisma-queries', 'tenant-isolation'];
+      for (const name of names) {
+        const parts = ctx.files.map(file => validators[name](createContext({ [file]: FIXTURE_FILES[file] })));
+        const problem = mismatch(name, mergeFileResults(name, parts), validators[name](ctx));
+        if (problem) return problem;
+      }
+      return undefined;
+    },
+  },
+  {
+    name: 'Sequential and --jobs runs match',
+    description: 'Sharding files across workers gives the same results and metrics',
+    module: 'parallel',
+    check: () => {
+      const sequential = runFixture({ validators: undefined });
+      const sharded = runFixture({ validators: undefined, jobs: 2 });
+      return mismatch('shards', shardFiles(new Map(Object.entries(FIXTURE_FILES)), 2).length, 2)
+        ?? mismatch('results', sharded.results, sequential.results)
+        ?? mismatch('metrics', sharded.metrics, sequential.metrics);
+    },
+  },
+
+  // ============================================================================
+  // CACHE
+  // ============================================================================
+  {
+    name: 'Cache invalidation',
+    description: 'Unchanged files hit the cache; changed content or config misses it',
+    module: 'cache',
+    check: () => {
+      const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sop-validate-test-'));
+      try {
+        const run = (options: EngineOptions = {}) => runFixture({ validators: undefined, cacheDir, ...options });
+        const stats = (summary: ValidationSummary) => ({ hits: summary.cache?.hits, misses: summary.cache?.misses });
+
+        const cold = run();
+        const warm = run();
+        const edited = run({
+          files: new Map(Object.entries({ ...FIXTURE_FILES, 'invoices.service.ts': '// edited\n' + FIXTURE_FILES['invoices.service.ts'] })),
+        });
+        const reconfigured = run({ config: mergeConfig({ rules: { 'INV-PRISMA-ORDERBY': 'high' } }) });
+
+        return mismatch('cold run', stats(cold), { hits: 0, misses: 2 })
+          ?? mismatch('warm run', stats(warm), { hits: 2, misses: 0 })
+          ?? mismatch('cached results', warm.results, cold.results)
+          ?? mismatch('content change', stats(edited), { hits: 1, misses: 1 })
+          ?? mismatch('config change', stats(reconfigured), { hits: 0, misses: 2 });
+      } finally {
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+      }
+    },
+  },
+
+  {
+    name: 'Cache pruned of deleted files',
+    description: 'A run over the whole directory drops entries of files that are gone; explicit file lists keep them',
+    module: 'cache',
+    check: () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sop-validate-test-'));
+      const cacheDir = path.join(dir, '.cache');
+      const targetDir = path.join(dir, 'src');
+      try {
+        for (const [file, content] of Object.entries(FIXTURE_FILES)) {
+          fs.mkdirSync(path.dirname(path.join(targetDir, file)), { recursive: true });
+          fs.writeFileSync(path.join(targetDir, file), content);
+        }
+        const run = (options: EngineOptions = {}) => runFixture({ targetDir, files: undefined, cacheDir, ...options });
+        const cachedFiles = (summary: ValidationSummary) =>
+          Object.keys(JSON.parse(fs.readFileSync(summary.cache!.cacheFile, 'utf-8')).files).sort();
+
+        const full = cachedFiles(run());
+        fs.rmSync(path.join(targetDir, 'invoices.service.ts'));
+        const explicit = cachedFiles(run({ files: new Map([['auth/decode & verify.ts', FIXTURE_FILES['auth/decode & verify.ts']]]) }));
+        const pruned = cachedFiles(run());
+
+        return mismatch('full run', full, ['auth/decode & verify.ts', 'invoices.service.ts'])
+          ?? mismatch('explicit files', explicit, full)
+          ?? mismatch('after deletion', pruned, ['auth/decode & verify.ts']);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    },
+  },
+
+  // ============================================================================
+  // DIFF FILTER
+  // ============================================================================
+  {
+    name: 'Filtered result scored by its validator',
+    description: 'Score and pass/fail of a filtered result come from the scorer, over the kept findings',
+    module: 'diff-filter',
+    check: () => {
+      const ctx = createContext({ 'invoices.service.ts': FIXTURE_FILES['invoices.service.ts'] });
+      const result = validators['prisma-queries'](ctx);
+      const expected = (kept: ValidationResult) =>
+        scorers['prisma-queries']!({ violations: kept.violations, warnings: kept.warnings, tally: result.tally });
+
+      const untouched = applyDiffFilter(result, new Map([['invoices.service.ts', []]]));
+      const relaxed = applyRuleOverrides(result, { 'INV-PRISMA-PAGINATION': 'off' });
+      return mismatch('pre-existing', untouched.preExisting?.violations.length, 1)
+        ?? mismatch('untouched file', { score: untouched.score, passed: untouched.passed }, expected(untouched))
+        ?? mismatch('rule turned off', { score: relaxed.score, passed: relaxed.passed }, expected(relaxed));
+    },
+  },
+
+  // ============================================================================
+  // ENGINE
+  // ============================================================================
+  {
+    name: 'Engine matches running validators directly',
+    description: 'With the default config, runEngine gives what the CLI got by calling every validator and gating',
+    module: 'engine',
+    check: () => {
+      const summary = runFixture({ validators: undefined });
+      const ctx = createContext(FIXTURE_FILES);
+      const names = Object.keys(validators) as ValidatorName[];
+      const direct = names.map(name => validators[name](ctx));
+
+      const scores = new Map(names.map((name, i) => [name, direct[i].score]));
+      const blockers = direct.flatMap(r => r.violations).filter(v => v.severity === 'critical' || v.severity === 'high').length;
+      const warnings = direct.reduce((sum, r) => sum + r.warnings.length, 0);
+      const gating = evaluateGating(scores, blockers, warnings, DEFAULT_GATING_CONFIG);
+
+      return mismatch('validators run', summary.metrics.map(m => m.name), names)
+        ?? mismatch('results', summary.results, direct)
+        ?? mismatch('counts', [summary.blockers, summary.warnings], [blockers, warnings])
+        ?? mismatch('gating', { passed: summary.passed, reason: summary.reason }, gating);
+    },
+  },
+
+  // ============================================================================
+  // HTML REPORT
+  // ============================================================================
+  {
+    name: 'HTML escapes messages and source',
+    description: 'Markup in finding messages and source lines is shown as text, never run',
+    module: 'html',
+    check: () => {
+      const files = {
+        ...FIXTURE_FILES,
+        'auth/decode & verify.ts': FIXTURE_FILES['auth/decode & verify.ts']
+          .replace('jwt.decode(token);', 'jwt.decode(token); // </script><script>alert(1)</script>'),
+      };
+      const summary = runFixture({ files: new Map(Object.entries(files)) });
+      summary.results[0].violations[0].message += ' <script>alert(2)</script>';
+      const html = formatHtml(summary, { fileContents: new Map(Object.entries(files)) });
+      const count = (text: string) => html.split(text).length - 1;
+      return mismatch('script tags', count('<script>'), 1)
+        ?? mismatch('escaped source', count('&lt;script&gt;alert(1)&lt;/script&gt;'), 1)
+        ?? mismatch('escaped message', count('&lt;script&gt;alert(2)&lt;/script&gt;') >= 2, true);
+    },
+  },
+  {
+    name: 'HTML anchors per file',
+    description: 'Paths that differ only in punctuation get their own excerpts, and links jump to them',
+    module: 'html',
+    check: () => {
+      const content = FIXTURE_FILES['invoices.service.ts'];
+      const summary = runFixture({ files: new Map([['a/b-c.ts', content], ['a-b/c.ts', content]]) });
+      const html = formatHtml(summary, { fileContents: new Map([['a/b-c.ts', content], ['a-b/c.ts', content]]) });
+      const anchors = new Map(Array.from(html.matchAll(/<details id="([^"]+)" open>\s*<summary>([^ <]+)/g), m => [m[2], m[1]]));
+      const links = Array.from(html.matchAll(/<a href="#([^"]+)">([^:<]+):\d+<\/a>/g), m => [m[2], m[1]]);
+      return mismatch('distinct anchors', new Set(anchors.values()).size, 2)
+        ?? mismatch('links', links.filter(([file, id]) => anchors.get(file) !== id), [])
+        ?? mismatch('link count', links.length, 4);
+    },
+  },
+
+  // ============================================================================
+  // GIT
+  // ============================================================================
+  {
+    name: 'Files read from the commit, not the checkout',
+    description: 'readBlob and readBlobs return committed content while the working tree is dirty',
+    module: 'git',
+    check: () => inTempRepo(git => {
+      fs.writeFileSync('a.ts', 'committed\n');
+      git('add a.ts');
+      git('commit -q -m one');
+      fs.writeFileSync('a.ts', 'dirty\n');
+      fs.writeFileSync('b.ts', 'untracked\n');
+
+      return mismatch('readBlob', readBlob('HEAD', 'a.ts'), 'committed\n')
+        ?? mismatch('readBlobs', Array.from(readBlobs('HEAD', ['a.ts', 'b.ts'])), [['a.ts', 'committed\n']]);
+    }),
+  },
+  {
+    name: 'Merge commit diffed against its first parent',
+    description: 'A merge lists the files and lines it brought into the branch',
+    module: 'git',
+    check: () => inTempRepo(git => {
+      fs.writeFileSync('a.ts', 'one\n');
+      git('add a.ts');
+      git('commit -q -m one');
+      git('checkout -q -b feature');
+      fs.writeFileSync('b.ts', 'first\nsecond\n');
+      git('add b.ts');
+      git('commit -q -m feature');
+      git('checkout -q main');
+      fs.writeFileSync('a.ts', 'one\ntwo\n');
+      git('commit -q -a -m two');
+      git('merge -q --no-ff -m merge feature');
+
+      const files = getCommitFiles('HEAD');
+      const lines = collectChangedLines(new Map(files.map(f => [f.path, ''])), commitDiffArgs('HEAD'));
+      return mismatch('files', files, [{ path: 'b.ts', status: 'added' }])
+        ?? mismatch('changed lines', Array.from(lines), [['b.ts', [1, 2]]]);
+    }),
+  },
+
+  // ============================================================================
+  // WATCH
+  // ============================================================================
+  {
+    name: 'Watch reports only changed findings',
+    description: 'After an edit that shifts lines, only introduced and fixed findings are printed',
+    module: 'watch',
+    check: () => {
+      const findingsByFile = (files: Record<string, string>) => {
+        const contents = new Map(Object.entries(files));
+        const byFile = new Map<string, CompareFinding[]>(Object.keys(files).map(file => [file, []]));
+        collectFindings(runFixture({ files: contents }), contents).forEach(f => byFile.get(f.file)!.push(f));
+        return byFile;
+      };
+      const edited = {
+        'auth/decode & verify.ts': FIXTURE_FILES['auth/decode & verify.ts'].replace('jwt.decode(token)', 'this.authService.verifyToken(token)'),
+        'invoices.service.ts': `
+    async listPaidInvoices(orgId: string) {
+      return this.prisma.invoice.findMany({ where: { organization_id: orgId, paid: true } });
+    }
+  ${FIXTURE_FILES['invoices.service.ts']}`,
+      };
+
+      const report = formatFindingChanges(findingsByFile(FIXTURE_FILES), findingsByFile(edited), Object.keys(edited));
+      return mismatch('report', report.map(line => line.replace(/: .*$/, '')), [
+        'auth/decode & verify.ts',
+        '  - [CRITICAL] 5 INV-SUPABASE-1',
+        'invoices.service.ts',
+        '  + [MEDIUM] 3 INV-PRISMA-ORDERBY',
+        '  + [WARNING] 3 INV-PRISMA-PAGINATION',
+      ]);
+    },
+  },
+
+  // ============================================================================
+  // PLUGINS
+  // ============================================================================
+  {
+    name: 'Plugin registration',
+    description: 'A plugin registers its validator, rule, fix and formatter; a clashing rule id is rejected',
+    module: 'plugins',
+    check: () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sop-validate-test-'));
+      const configPath = path.join(dir, 'sop-validate.json');
+      fs.writeFileSync(path.join(dir, 'payments-plugin.ts'), `
+        const metric = {
+          name: 'payments',
+          displayName: 'Payments',
+          description: 'Money handling',
+          sopFile: 'payments',
+          weight: 1,
+          blockOnFail: true,
+          thresholds: { pass: 0.9, warn: 0.7, fail: 0.5 },
+          invariants: ['INV-PAY-1: Amounts are integers in minor units'],
+        };
+        export default {
+          name: 'payments',
+          validators: [{ metric, validate: () => ({ metric: 'payments', score: 1, passed: true, violations: [], warnings: [] }) }],
+          rules: [{
+            id: 'PAY-001',
+            name: 'No float money',
+            description: 'Amounts are integers in minor units',
+            category: 'reliability',
+            severity: 'high',
+            check: (line: string) => /amount:\\s*\\d+\\.\\d/.test(line) ? { message: 'Fractional amount' } : null,
+          }],
+          fixes: [{ rule: 'PAY-001', pattern: /amount: (\\d+)\\.(\\d\\d)/g, replacement: 'amount: $1$2', description: 'Use cents' }],
+          formatters: { count: (summary: { filesAnalyzed: number }) => \`\${summary.filesAnalyzed} files\` },
+        };
+      `);
+      fs.writeFileSync(path.join(dir, 'clashing-plugin.js'), `
+        module.exports = { name: 'clashing', rules: [{ id: 'PAY-001', check: () => null }], formatters: { other: () => '' } };
+      `);
+      fs.writeFileSync(configPath, JSON.stringify({ plugins: ['./payments-plugin'], metrics: { payments: { weight: 2 } } }));
+
+      try {
+        const config = mergeConfig(loadProjectConfig(configPath), configPath);
+        let clash = '';
+        try {
+          loadPlugins(['./clashing-plugin'], dir);
+        } catch (e: any) {
+          clash = e.message;
+        }
+        const catalog = buildRulesCatalog();
+
+        const registered = mismatch('validator', 'payments' in validators, true)
+          ?? mismatch('metric weight', config.metrics.find(m => m.name as string === 'payments')?.weight, 2)
+          ?? mismatch('config plugins', config.plugins, [path.join(dir, 'payments-plugin.ts')])
+          ?? mismatch('rules', getPluginRules().map(rule => rule.id), ['PAY-001'])
+          ?? mismatch('SARIF rules', [catalog.get('PAY-001')?.name, catalog.has('INV-PAY-1')], ['No float money', true])
+          ?? mismatch('fixes', getPluginFixes().map(fix => fix.description), ['Use cents'])
+          ?? mismatch('formatter', getFormatter('count')?.(runFixture(), { verbose: false, fileContents: new Map() }), '2 files')
+          ?? mismatch('clashing plugin', clash, 'Invalid plugin ./clashing-plugin: rule PAY-001 already exists')
+          ?? mismatch('clashing formatter', getFormatter('other'), undefined)
+          ?? mismatch('loaded plugins', loadedPlugins().length, 1);
+        if (registered) return registered;
+
+        unloadPlugins();
+        return mismatch('unloaded', ['payments' in validators, getPluginRules().length, getFormatter('count')], [false, 0, undefined]);
+      } finally {
+        unloadPlugins();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    },
+  },
+
+  // ============================================================================
+  // LANGUAGE SERVER
+  // ============================================================================
+  {
+    name: 'LSP diagnostics and quick fix',
+    description: 'Diagnostics carry the rule id as code; the code action applies the fix pattern and adds its import',
+    module: 'lsp',
+    check: () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sop-validate-test-'));
+      const uri = pathToFileURL(path.join(dir, 'invoices.service.ts')).href;
+      const text = [
+        "import { Injectable } from '@nestjs/common';",
+        '',
+        '@Injectable()',
+        'export class InvoicesService {',
+        '  find(id: string) {',
+        "    throw new Error('Invoice not found');",
+        '  }',
+        '}',
+      ].join('\n');
+
+      // Messages are handled as they arrive, so responses are sent by the time send() returns
+      const received: any[] = [];
+      const input = new PassThrough();
+      const output = new Writable({
+        write: (chunk, _encoding, done) => {
+          received.push(JSON.parse(chunk.toString().split('\r\n\r\n')[1]));
+          done();
+        },
+      });
+      const send = (message: object) => {
+        const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+        input.emit('data', Buffer.from(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`));
+        return received[received.length - 1];
+      };
+
+      try {
+        startLanguageServer({ input, output });
+        send({ id: 1, method: 'initialize', params: { rootUri: pathToFileURL(dir).href } });
+        const published = send({ method: 'textDocument/didOpen', params: { textDocument: { uri, text } } });
+        const diagnostics = published.params.diagnostics;
+        const actions = send({
+          id: 2,
+          method: 'textDocument/codeAction',
+          params: { textDocument: { uri }, context: { diagnostics } },
+        }).result;
+
+        return mismatch('diagnostics', diagnostics.map((d: any) => [d.code, d.range.start.line]), [['INV-ERROR-TYPE', 5]])
+          ?? mismatch('code actions', actions.map((a: any) => a.title), ['Replace generic Error with NotFoundException (INV-ERROR-TYPE)'])
+          ?? mismatch('edits', actions[0].edit.changes[uri].map((e: any) => [e.range.start.line, e.newText]), [
+            [5, "    throw new NotFoundException('Invoice not found');"],
+            [1, "import { NotFoundException } from '@nestjs/common';\n"],
+          ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    },
+  },
+];
+
+// ============================================================================
+// TEST RUNNER
+// ============================================================================
+
+function createContext(files: Record<string, string>): ValidationContext {
+  const fileContents = new Map<string, string>();
+  const fileList: string[] = [];
+
+  for (const [name, content] of Object.entries(files)) {
+    fileContents.set(name, content);
+    fileList.push(name);
+  }
+
+  return {
+    files: fileList,
+    fileContents,
+  };
+}
+
+function runTest(testCase: TestCase): TestResult {
+  const ctx = createContext(testCase.files);
+  const validator = validators[testCase.validator];
+
+  if (!validator) {
+    return {
+      name: testCase.name,
+      validator: testCase.validator,
+      passed: false,
+      expected: {
+        violations: testCase.expectedViolations,
+        warnings: testCase.expectedWarnings,
+        shouldPass: testCase.shouldPass,
+      },
+      actual: {
+        violations: 0,
+        warnings: 0,
+        passed: false,
+      },
+      details: `Validator '${testCase.validator}' not found`,
+    };
+  }
+
+  if (testCase.entities || testCase.prismaSchema) {
+    const schemaEntities = testCase.prismaSchema
+      ? entitiesFromSchema(parsePrismaSchema(testCase.prismaSchema))
+      : {};
+    ctx.entities = { ...DEFAULT_ENTITIES, ...schemaEntities, ...testCase.entities };
+  }
+  ctx.guardOrder = testCase.guardOrder;
+
+  let result = applyRuleOverrides(validator(ctx), testCase.rules ?? {});
+  result = applySuppressions([result], ctx).results[0];
+  if (testCase.baselineFiles) {
+    const location = { baselinePath: '.sop-baseline.json', baseDir: '.' };
+    const baselineCtx = createContext(testCase.baselineFiles);
+    const baseline = createBaseline([validator(baselineCtx)], baselineCtx.fileContents, location);
+    result = applyBaseline([result], baseline, ctx.fileContents, location).results[0];
+  }
+  if (testCase.changedLines) {
+    result = applyDiffFilter(result, new Map(Object.entries(testCase.changedLines)));
+  }
+
+  const violationMatch = result.violations.length === testCase.expectedViolations;
+  const warningMatch = result.warnings.length === testCase.expectedWarnings;
+  const passMatch = result.passed === testCase.shouldPass;
+
+  const passed = violationMatch && warningMatch && passMatch;
 
   let details: string | undefined;
   if (!passed) {
@@ -641,7 +2180,24 @@ function runTest(testCase: TestCase): TestResult {
   };
 }
 
-export function runAllTests(filter?: ValidatorName): TestResult[] {
+function runUnitTest(testCase: UnitTestCase): TestResult {
+  let details: string | undefined;
+  try {
+    details = testCase.check();
+  } catch (e: any) {
+    details = `threw: ${e.message}`;
+  }
+
+  return {
+    name: testCase.name,
+    validator: testCase.module,
+    passed: details === undefined,
+    details,
+  };
+}
+
+/** Runs validator tests, then unit tests; a filter names a validator or module */
+export function runAllTests(filter?: string): TestResult[] {
   const results: TestResult[] = [];
 
   for (const testCase of testCases) {
@@ -653,6 +2209,14 @@ export function runAllTests(filter?: ValidatorName): TestResult[] {
     results.push(result);
   }
 
+  for (const testCase of unitTestCases) {
+    if (filter && testCase.module !== filter) {
+      continue;
+    }
+
+    results.push(runUnitTest(testCase));
+  }
+
   return results;
 }
 
@@ -665,7 +2229,7 @@ export function printTestResults(results: TestResult[]) {
   let failed = 0;
 
   // Group by validator
-  const byValidator = new Map<ValidatorName, TestResult[]>();
+  const byValidator = new Map<string, TestResult[]>();
   for (const result of results) {
     const list = byValidator.get(result.validator) || [];
     list.push(result);
@@ -705,10 +2269,10 @@ export function printTestResults(results: TestResult[]) {
 
 if (require.main === module) {
   const args = process.argv.slice(2);
-  let filter: ValidatorName | undefined;
+  let filter: string | undefined;
 
   if (args.length > 0 && args[0] !== '--all') {
-    filter = args[0] as ValidatorName;
+    filter = args[0];
   }
 
   const results = runAllTests(filter);
@@ -717,4 +2281,4 @@ if (require.main === module) {
   process.exit(allPassed ? 0 : 1);
 }
 
-export { testCases };
+export { testCases, unitTestCases };
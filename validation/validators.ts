@@ -7,6 +7,47 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  getSourceFile,
+  walk,
+  lineOf,
+  findPrismaCalls,
+  getProperty,
+  mayHaveProperty,
+  mayHaveOwnProperty,
+  referencesIdentifier,
+  getCalleeName,
+  getDottedName,
+  getDecorators,
+  getDecoratorName,
+  hasDecorator,
+  getComments,
+  getEnclosingLoop,
+  getEnclosingFunction,
+  getFollowingStatements,
+  getOutermostFunction,
+  getFunctionName,
+  isFunctionLike,
+  unwrapExpression,
+  isCheckedValue,
+  checksValue,
+  getPropertyName,
+  findLocalDeclaration,
+} from './ast';
+import { validateGeneralPractices, scoreGeneralPractices } from './general-practices-validator';
+import { analyzeRoutes, decoratorGuards, guardLevel } from './routes';
+import { findJwtVerifications } from './jwt-verification';
+import { findTaintedScopeFlows, formatTaintPath } from './taint';
+import {
+  analyzeCacheUsage,
+  reachableFunctions,
+  formatKey,
+  hasOrgComponent,
+  hasTeamComponent,
+  isOpaque,
+  usesTeamId,
+} from './cache-usage';
 
 // ============================================================================
 // TYPES
@@ -20,8 +61,25 @@ export interface ValidationResult {
   violations: Violation[];
   warnings: Warning[];
   suggestions: string[];
+
+  /** Findings outside the changed lines in diff modes; reported but not gated on */
+  preExisting?: {
+    violations: Violation[];
+    warnings: Warning[];
+  };
+
+  /** Findings silenced by sop-disable comments */
+  suppressed?: SuppressedFinding[];
+
+  /** Counts a score depends on besides the findings, e.g. throws by exception type */
+  tally?: Record<string, number>;
 }
 
+/** What a validator's score is computed from: its findings over all files */
+export type ScoringInput = Pick<ValidationResult, 'violations' | 'warnings' | 'tally'>;
+
+export type Score = Pick<ValidationResult, 'score' | 'passed'>;
+
 export interface Violation {
   file: string;
   line: number;
@@ -38,12 +96,48 @@ export interface Warning {
   message: string;
 }
 
+export interface SuppressedFinding {
+  finding: Violation | Warning;
+
+  /** Text after `--` in the suppression comment */
+  justification: string;
+
+  /** Line of the suppression comment */
+  suppressionLine: number;
+}
+
 export interface ValidationContext {
   files: string[];
   fileContents: Map<string, string>;
   changedLines?: Map<string, number[]>;
+
+  /** Parsed ASTs, filled lazily by getSourceFile() so each file is parsed once */
+  sourceFiles?: Map<string, ts.SourceFile>;
+
+  /** Project-specific entity lists (defaults to DEFAULT_ENTITIES) */
+  entities?: EntityConfig;
+
+  /** Project-specific guard hierarchy (defaults to DEFAULT_GUARD_ORDER) */
+  guardOrder?: GuardOrder;
+}
+
+export interface EntityConfig {
+  /** Tables that use deleted_at soft deletes */
+  softDelete: string[];
+
+  /** Tables that are not scoped to an organization */
+  tenantExempt: string[];
+
+  /** Tables whose create/update must write an audit log */
+  audited: string[];
 }
 
+/**
+ * Guard hierarchy: guard names (`*` matches any characters) per level, in
+ * the order they must run. The first level authenticates the caller.
+ */
+export type GuardOrder = string[][];
+
 export interface ValidatorConfig {
   sopFiles: string[];
   thresholds: {
@@ -60,23 +154,157 @@ export interface MetricConfig {
   sopFile: string;
 }
 
+// ============================================================================
+// SHARED CONSTANTS
+// ============================================================================
+
+/** Built-in entity lists, used unless the project config overrides them */
+export const DEFAULT_ENTITIES: EntityConfig = {
+  softDelete: [
+    'organizations',
+    'organization_users',
+    'organization_roles',
+    'teams',
+    'rubrics',
+    'role_plays',
+    'tracks',
+  ],
+  tenantExempt: ['internal_users', 'evaluation_model_configs'],
+  audited: ['organizations', 'role_plays', 'assessments', 'users', 'rubrics'],
+};
+
+/** SOP 2-supabase guard chain: authentication, then roles/permissions, then org scope */
+export const DEFAULT_GUARD_ORDER: GuardOrder = [
+  ['*AuthGuard', 'Jwt*Guard'],
+  ['RolesGuard', 'PermissionsGuard'],
+  ['Org*Guard', 'Organization*Guard'],
+];
+
+/** Where-clause fields that scope a query to a tenant / filter soft deletes */
+const TENANT_FIELDS = ['organization_id', 'organizationId', 'org_id'];
+const SOFT_DELETE_FIELDS = ['deleted_at', 'deletedAt'];
+
+/** Models whose changes alter what a user may see: cached data must be invalidated */
+const AUTHORIZATION_MODELS = /role|permission|member|organization_users/i;
+
+const TENANT_QUERY_METHODS = ['findMany', 'findFirst', 'findUnique', 'count', 'aggregate'];
+const READ_METHODS = ['findFirst', 'findUnique', 'findMany', 'count'];
+const MUTATION_METHODS = ['create', 'createMany', 'update', 'updateMany', 'upsert', 'delete', 'deleteMany'];
+
+// ============================================================================
+// AST HELPERS
+// ============================================================================
+
+function getEnclosingAsyncFunction(node: ts.Node): ts.FunctionLikeDeclaration | undefined {
+  let current = node.parent;
+  while (current) {
+    if (isFunctionLike(current) &&
+        ts.getCombinedModifierFlags(current as ts.Declaration) & ts.ModifierFlags.Async) {
+      return current;
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+function usesTransaction(func: ts.FunctionLikeDeclaration): boolean {
+  let found = false;
+  walk(func, node => {
+    if (ts.isCallExpression(node) && /(^|\.)\$transaction$/.test(getCalleeName(node) ?? '')) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * Job payload types in a file: interfaces/type aliases named *JobData and
+ * the type argument of every `Job<T>`. References to a local declaration
+ * resolve to it, so each type is reported once at its declaration.
+ */
+function findJobDataTypes(sourceFile: ts.SourceFile): Map<ts.Node, number> {
+  const declarations = new Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>();
+  walk(sourceFile, node => {
+    if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+      declarations.set(node.name.text, node);
+    }
+  });
+
+  const types = new Map<ts.Node, number>();
+  for (const [name, declaration] of declarations) {
+    if (name.endsWith('JobData')) types.set(declaration, lineOf(sourceFile, declaration));
+  }
+
+  walk(sourceFile, node => {
+    if (!ts.isTypeReferenceNode(node) || node.typeName.getText(sourceFile) !== 'Job') return;
+    const typeArg = node.typeArguments?.[0];
+    if (!typeArg) return;
+
+    if (ts.isTypeLiteralNode(typeArg)) {
+      types.set(typeArg, lineOf(sourceFile, typeArg));
+    } else if (ts.isTypeReferenceNode(typeArg)) {
+      const declaration = declarations.get(typeArg.typeName.getText(sourceFile));
+      if (declaration && !types.has(declaration)) {
+        types.set(declaration, lineOf(sourceFile, declaration));
+      }
+    }
+  });
+
+  return types;
+}
+
+/**
+ * Source text of the method a node lives in, or the whole file when the
+ * node is at the top level.
+ */
+function getMethodText(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const method = getOutermostFunction(node);
+  return method ? method.getText(sourceFile) : sourceFile.text;
+}
+
 // ============================================================================
 // 2-SUPABASE VALIDATORS
 // ============================================================================
 
+function scoreSupabaseAuth({ violations }: ScoringInput): Score {
+  return {
+    score: violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.2)),
+    passed: violations.filter(v => v.severity === 'critical').length === 0,
+  };
+}
+
 export function validateSupabaseAuth(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
+    const serviceRoleLines = new Set<number>();
 
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
+    walk(sourceFile, node => {
+      // Check for service-role key usage
+      if ((ts.isIdentifier(node) || ts.isStringLiteralLike(node)) &&
+          /service.?role.?key/i.test(node.text) && /client/i.test(file)) {
+        const lineNum = lineOf(sourceFile, node);
+        if (!serviceRoleLines.has(lineNum)) {
+          serviceRoleLines.add(lineNum);
+          violations.push({
+            file,
+            line: lineNum,
+            rule: 'INV-SUPABASE-1',
+            message: 'Service-role key may be exposed client-side.',
+            severity: 'critical',
+          });
+        }
+      }
+
+      if (!ts.isCallExpression(node)) return;
+      const callee = getCalleeName(node) ?? '';
+      const lineNum = lineOf(sourceFile, node);
 
       // Check for decode-only JWT handling
-      if (/jwt\.decode\(|decodeJwt\(/.test(line) && !/verify/.test(line)) {
+      if (/(^|\.)(jwt|jwtService)\.decode$/.test(callee) || /(^|\.)decodeJwt$/.test(callee)) {
         violations.push({
           file,
           line: lineNum,
@@ -88,8 +316,8 @@ export function validateSupabaseAuth(ctx: ValidationContext): ValidationResult {
       }
 
       // Check for JWT/token logging
-      if (/logger\.(log|debug|error|warn)\(.*token/i.test(line) ||
-          /console\.(log|debug|error|warn)\(.*jwt/i.test(line)) {
+      if (/(^|\.)logger\.(log|debug|error|warn)$|^console\.(log|debug|error|warn)$/.test(callee) &&
+          node.arguments.some(arg => referencesIdentifier(arg, /token|jwt/i))) {
         violations.push({
           file,
           line: lineNum,
@@ -99,137 +327,328 @@ export function validateSupabaseAuth(ctx: ValidationContext): ValidationResult {
           fix: 'Remove token from log statement',
         });
       }
+    });
 
-      // Check for service-role key usage
-      if (/service.?role.?key/i.test(line) && /client/i.test(file)) {
-        violations.push({
-          file,
-          line: lineNum,
-          rule: 'INV-SUPABASE-1',
-          message: 'Service-role key may be exposed client-side.',
-          severity: 'critical',
-        });
+    // Check JWT verification settings (passport-jwt, jose, jsonwebtoken)
+    for (const verification of findJwtVerifications(sourceFile)) {
+      const report = (message: string, fix: string, severity: Violation['severity'] = 'critical') => {
+        violations.push({ file, line: verification.line, rule: 'INV-SUPABASE-1', message, severity, fix });
+      };
+      const { algorithms, library } = verification;
+
+      if (verification.keySource === 'secret') {
+        report(
+          `${library} verifies tokens with a shared secret or local key instead of the Supabase JWKS.`,
+          library === 'passport-jwt'
+            ? 'Use secretOrKeyProvider: passportJwtSecret({ jwksUri: `${SUPABASE_URL}/auth/v1/.well-known/jwks.json` })'
+            : 'Verify against createRemoteJWKSet(new URL(`${SUPABASE_URL}/auth/v1/.well-known/jwks.json`))'
+        );
       }
-    });
 
-    // Check guard order in controllers
-    if (file.endsWith('.controller.ts')) {
-      const guardMatches = content.matchAll(/@UseGuards\(([^)]+)\)/g);
-      for (const match of guardMatches) {
-        const guards = match[1];
-        // Check if JwtAuthGuard comes first when present
-        if (guards.includes('RolesGuard') || guards.includes('PermissionsGuard')) {
-          if (!guards.includes('JwtAuthGuard') && !content.includes('@UseGuards(JwtAuthGuard)')) {
-            warnings.push({
-              file,
-              line: content.substring(0, match.index).split('\n').length,
-              rule: 'INV-SUPABASE-2',
-              message: 'RolesGuard/PermissionsGuard used without explicit JwtAuthGuard.',
-            });
-          }
+      if (algorithms === 'missing') {
+        report(`${library} verification has no algorithm allowlist.`, "Add algorithms: ['ES256'] (the algorithms of the project's signing keys)");
+      } else if (Array.isArray(algorithms)) {
+        const symmetric = algorithms.filter(alg => /^HS/i.test(alg));
+        if (algorithms.some(alg => alg.toLowerCase() === 'none')) {
+          report(`${library} verification allows unsigned tokens (algorithm "none").`, "Remove 'none' from algorithms");
+        } else if (symmetric.length > 0 && symmetric.length < algorithms.length) {
+          report(
+            `${library} verification mixes symmetric (${symmetric.join(', ')}) and asymmetric algorithms.`,
+            'Allow only the asymmetric algorithms of the JWKS keys'
+          );
         }
       }
+
+      const unchecked = (['audience', 'issuer'] as const).filter(claim => verification[claim] === 'missing');
+      if (unchecked.length > 0) {
+        report(
+          `${library} verification doesn't check the token ${unchecked.join(' or ')}.`,
+          "Set audience: 'authenticated' and issuer: `${SUPABASE_URL}/auth/v1`",
+          'high'
+        );
+      }
+
+      if (verification.ignoresExpiration) {
+        report(`${library} verification ignores token expiry.`, 'Remove ignoreExpiration: true');
+      }
     }
-  }
 
-  const score = violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.2));
+    // Check guard order: class guards run before handler guards
+    const guardOrder = ctx.guardOrder ?? DEFAULT_GUARD_ORDER;
+    const reported = new Set<string>();
+    walk(sourceFile, node => {
+      if (!ts.isClassDeclaration(node)) return;
+      const classGuards = decoratorGuards(node, 'controller', file, sourceFile);
+      const methods = node.members.filter(member => ts.isMethodDeclaration(member));
+      const chains = methods.length > 0
+        ? methods.map(method => [...classGuards, ...decoratorGuards(method, 'handler', file, sourceFile)])
+        : [classGuards];
+
+      for (const chain of chains) {
+        const levels = chain.map(guard => guardLevel(guard.name, guardOrder));
+
+        chain.forEach((guard, i) => {
+          const earlier = chain.slice(0, i).find((_, j) => levels[j] > levels[i] && levels[i] >= 0);
+          const key = `order:${guard.line}:${guard.name}:${earlier?.line}:${earlier?.name}`;
+          if (!earlier || reported.has(key)) return;
+          reported.add(key);
+          violations.push({
+            file,
+            line: guard.line,
+            rule: 'INV-SUPABASE-2',
+            message: `${guard.name} runs after ${earlier.name}` +
+              (earlier.line !== guard.line ? ` (line ${earlier.line})` : '') +
+              `; guards must run in order ${guardOrder.map(level => level.join('/')).join(' → ')}.`,
+            severity: 'critical',
+            fix: `Move ${guard.name} before ${earlier.name}`,
+          });
+        });
+
+        // Authentication may still come from a global guard, which this file can't show
+        const firstAuthorization = chain.find((_, i) => levels[i] > 0);
+        const key = `auth:${firstAuthorization?.line}:${firstAuthorization?.name}`;
+        if (firstAuthorization && !levels.includes(0) && !reported.has(key)) {
+          reported.add(key);
+          warnings.push({
+            file,
+            line: firstAuthorization.line,
+            rule: 'INV-SUPABASE-2',
+            message: `${firstAuthorization.name} used without an authentication guard before it.`,
+          });
+        }
+      }
+    });
+  }
 
   return {
     sopFile: '2-supabase',
     metric: 'supabase-auth-compliance',
-    score,
+    ...scoreSupabaseAuth({ violations, warnings }),
+    violations,
+    warnings,
+    suggestions,
+  };
+}
+
+/**
+ * Not in `scorers`: a route's guards depend on other files (modules, main.ts),
+ * so this validator always sees all files at once.
+ */
+function scoreRouteAuthorization({ violations }: ScoringInput): Score {
+  return {
+    score: violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.2)),
     passed: violations.filter(v => v.severity === 'critical').length === 0,
+  };
+}
+
+/**
+ * Fail-closed authorization (SOP 2-supabase §3): every reachable route runs
+ * an authentication guard, globally, on its controller or on the handler,
+ * unless it explicitly opts out with @Public() or similar. See routes.ts.
+ */
+export function validateRouteAuthorization(ctx: ValidationContext): ValidationResult {
+  const violations: Violation[] = [];
+  const warnings: Warning[] = [];
+  const suggestions: string[] = [];
+
+  const inventory = analyzeRoutes(ctx);
+
+  if (!inventory.modulesAnalyzed) {
+    // Global guards are unknown, so any route may be authenticated
+    if (inventory.routes.length > 0) {
+      suggestions.push('Route authorization not checked: no *.module.ts or main.ts among the analyzed files.');
+    }
+  } else {
+    for (const route of inventory.routes) {
+      if (!route.reachable || route.isPublic || route.authenticated) continue;
+
+      const guards = route.guards.map(g => g.name).join(', ');
+      violations.push({
+        file: route.file,
+        line: route.line,
+        rule: 'INV-SUPABASE-3',
+        message: `${route.method} ${route.path} (${route.controller}.${route.handler}) has no authentication guard` +
+          (guards ? ` (guards: ${guards}).` : '.'),
+        severity: 'critical',
+        fix: 'Add JwtAuthGuard (globally as APP_GUARD, or with @UseGuards), or mark the route @Public() if it is meant to be open',
+      });
+    }
+  }
+
+  return {
+    sopFile: '2-supabase',
+    metric: 'route-authorization-compliance',
+    ...scoreRouteAuthorization({ violations, warnings }),
     violations,
     warnings,
     suggestions,
   };
 }
 
+function scoreTenantIsolation({ violations }: ScoringInput): Score {
+  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
+  const highViolations = violations.filter(v => v.severity === 'high').length;
+  return {
+    score: Math.max(0, 1 - (criticalViolations * 0.3) - (highViolations * 0.15)),
+    passed: criticalViolations === 0 && highViolations === 0,
+  };
+}
+
 export function validateTenantIsolation(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
+  const entities = ctx.entities ?? DEFAULT_ENTITIES;
 
-  const softDeleteEntities = [
-    'organizations',
-    'organization_users',
-    'organization_roles',
-    'teams',
-    'rubrics',
-    'role_plays',
-    'tracks',
-  ];
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
+    for (const query of findPrismaCalls(sourceFile)) {
+      if (!TENANT_QUERY_METHODS.includes(query.method)) continue;
 
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
+      // Arguments built elsewhere (e.g. findMany(query)) can't be inspected
+      if (query.call.arguments.length > 0 && !query.args) continue;
 
-      // Check for Prisma queries without organization_id
-      const prismaQueryMatch = line.match(/prisma\.(\w+)\.(findMany|findFirst|findUnique|count|aggregate)/);
-      if (prismaQueryMatch) {
-        const entity = prismaQueryMatch[1];
+      const where = query.args ? getProperty(query.args, 'where') : undefined;
+      const whereUnknown = !where && !!query.args && mayHaveOwnProperty(query.args, 'where');
+      if (whereUnknown) continue;
 
-        // Look ahead for where clause
-        let whereBlock = '';
-        for (let i = index; i < Math.min(index + 10, lines.length); i++) {
-          whereBlock += lines[i];
-          if (lines[i].includes('});') || lines[i].includes(')];')) break;
-        }
+      // Check if organization_id is in where clause
+      if (!(where && TENANT_FIELDS.some(field => mayHaveProperty(where, field))) &&
+          !entities.tenantExempt.includes(query.model)) {
+        warnings.push({
+          file,
+          line: query.line,
+          rule: 'INV-SUPABASE-4',
+          message: `Query on ${query.model} may be missing organization_id filter.`,
+        });
+      }
 
-        // Check if organization_id is in where clause
-        if (!whereBlock.includes('organization_id') &&
-            !whereBlock.includes('org_id') &&
-            entity !== 'internal_users' &&
-            entity !== 'evaluation_model_configs') {
-          warnings.push({
+      // Check soft delete filter
+      if (entities.softDelete.includes(query.model)) {
+        if (!(where && SOFT_DELETE_FIELDS.some(field => mayHaveProperty(where, field)))) {
+          violations.push({
             file,
-            line: lineNum,
-            rule: 'INV-SUPABASE-4',
-            message: `Query on ${entity} may be missing organization_id filter.`,
+            line: query.line,
+            rule: 'INV-PRISMA-SOFT-DELETE',
+            message: `Query on ${query.model} missing deleted_at: null filter.`,
+            severity: 'high',
+            fix: 'Add deleted_at: null to where clause',
           });
         }
-
-        // Check soft delete filter
-        if (softDeleteEntities.some(e => entity.includes(e))) {
-          if (!whereBlock.includes('deleted_at')) {
-            violations.push({
-              file,
-              line: lineNum,
-              rule: 'INV-PRISMA-SOFT-DELETE',
-              message: `Query on ${entity} missing deleted_at: null filter.`,
-              severity: 'high',
-              fix: 'Add deleted_at: null to where clause',
-            });
-          }
-        }
       }
+    }
 
-      // Check cache keys for org/team isolation
-      if (/cache\.(get|set|del)\(/.test(line) || /cacheManager\.(get|set|del)\(/.test(line)) {
-        const keyMatch = line.match(/['"]([\w:]+)['"]/);
-        if (keyMatch && !keyMatch[1].includes('org') && !keyMatch[1].includes('${')) {
+    // Check org/team IDs from client input reaching where clauses unvalidated
+    for (const flow of findTaintedScopeFlows(sourceFile)) {
+      violations.push({
+        file,
+        line: flow.path[flow.path.length - 1].line,
+        rule: 'INV-PRISMA-ORG-INPUT',
+        message: `${flow.field} in ${flow.query.model} query comes from client input: ${formatTaintPath(flow.path)}.`,
+        severity: 'critical',
+        fix: `Use the ${flow.field} of the authenticated user, or validate the user's access to it first`,
+      });
+    }
+  }
+
+  return {
+    sopFile: '2-supabase',
+    metric: 'tenant-isolation',
+    ...scoreTenantIsolation({ violations, warnings }),
+    violations,
+    warnings,
+    suggestions,
+  };
+}
+
+function scoreCacheIsolation({ violations }: ScoringInput): Score {
+  const highViolations = violations.filter(v => v.severity === 'critical' || v.severity === 'high').length;
+  const mediumViolations = violations.filter(v => v.severity === 'medium').length;
+  return {
+    score: Math.max(0, 1 - (highViolations * 0.15) - (mediumViolations * 0.05)),
+    passed: highViolations === 0,
+  };
+}
+
+/**
+ * Cache isolation (SOP 2-supabase §6): keys carry the organization (and the
+ * team for team-scoped data), and mutations of cached data invalidate it.
+ * See cache-usage.ts for how keys are reconstructed.
+ */
+export function validateCacheIsolation(ctx: ValidationContext): ValidationResult {
+  const violations: Violation[] = [];
+  const warnings: Warning[] = [];
+  const suggestions: string[] = [];
+
+  for (const [file] of ctx.fileContents) {
+    const usage = analyzeCacheUsage(getSourceFile(ctx, file));
+    if (usage.accesses.length === 0) continue;
+
+    // Check that keys are scoped to the tenant, once per key and function
+    const reported = new Set<string>();
+    for (const key of usage.accesses.flatMap(access => access.keys)) {
+      const text = formatKey(key.parts);
+      if (reported.has(`${key.scope.pos}:${text}`)) continue;
+      reported.add(`${key.scope.pos}:${text}`);
+
+      if (hasOrgComponent(key.parts)) {
+        if (!hasTeamComponent(key.parts) && usesTeamId(key.scope)) {
           warnings.push({
             file,
-            line: lineNum,
+            line: key.line,
             rule: 'INV-SUPABASE-6',
-            message: 'Cache key may not include organization context.',
+            message: `Cache key \`${text}\` has no team component, but the data is team-scoped.`,
           });
         }
+      } else if (isOpaque(key.parts)) {
+        warnings.push({
+          file,
+          line: key.line,
+          rule: 'INV-SUPABASE-6',
+          message: `Cache key \`${text}\` may not include organization context.`,
+        });
+      } else {
+        violations.push({
+          file,
+          line: key.line,
+          rule: 'INV-SUPABASE-6',
+          message: `Cache key \`${text}\` has no organization component, so entries are shared across tenants.`,
+          severity: 'high',
+          fix: 'Include the organization_id in the key, e.g. `org:${organizationId}:...`',
+        });
       }
-    });
-  }
+    }
 
-  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
-  const highViolations = violations.filter(v => v.severity === 'high').length;
-  const score = Math.max(0, 1 - (criticalViolations * 0.3) - (highViolations * 0.15));
+    // Check that mutations of cached data invalidate it
+    const cachesData = usage.accesses.some(access => access.operation === 'set' || access.operation === 'wrap');
+    for (const mutation of usage.mutations) {
+      const cachedBy = usage.cachedModels.get(mutation.model)?.[0];
+      const changesAccess = cachesData && AUTHORIZATION_MODELS.test(mutation.model);
+      const method = getOutermostFunction(mutation.call);
+      if ((!cachedBy && !changesAccess) || !method) continue;
+
+      const reached = reachableFunctions(method, usage.functions);
+      if (Array.from(reached).some(fn => usage.invalidators.has(fn))) continue;
+
+      const cachedAs = cachedBy?.keys[0] ? ` under \`${formatKey(cachedBy.keys[0].parts)}\`` : '';
+      violations.push({
+        file,
+        line: mutation.line,
+        rule: 'INV-CACHE-INVALIDATION',
+        message: cachedBy
+          ? `${mutation.model}.${mutation.method} changes data cached${cachedAs} (line ${cachedBy.line}), but doesn't invalidate it.`
+          : `${mutation.model}.${mutation.method} changes roles, permissions or membership, but doesn't invalidate this service's cache.`,
+        severity: 'medium',
+        fix: 'Delete the affected keys with cacheManager.del() after the mutation',
+      });
+    }
+  }
 
   return {
     sopFile: '2-supabase',
-    metric: 'tenant-isolation',
-    score,
-    passed: criticalViolations === 0 && highViolations === 0,
+    metric: 'cache-isolation',
+    ...scoreCacheIsolation({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -240,29 +659,34 @@ export function validateTenantIsolation(ctx: ValidationContext): ValidationResul
 // 3-DATABASE-PRISMA VALIDATORS
 // ============================================================================
 
+function scorePrismaQueries({ violations }: ScoringInput): Score {
+  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
+  const highViolations = violations.filter(v => v.severity === 'high').length;
+  const mediumViolations = violations.filter(v => v.severity === 'medium').length;
+  return {
+    score: Math.max(0, 1 - (criticalViolations * 0.3) - (highViolations * 0.15) - (mediumViolations * 0.05)),
+    passed: criticalViolations === 0 && highViolations === 0,
+  };
+}
+
 export function validatePrismaQueries(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
+  const entities = ctx.entities ?? DEFAULT_ENTITIES;
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
-
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
+    const prismaCalls = findPrismaCalls(sourceFile);
+    const reportedLoops = new Set<ts.Node>();
 
+    for (const query of prismaCalls) {
       // Check for findMany without orderBy
-      if (/\.findMany\(/.test(line)) {
-        let queryBlock = '';
-        for (let i = index; i < Math.min(index + 15, lines.length); i++) {
-          queryBlock += lines[i];
-          if (lines[i].includes('});')) break;
-        }
-
-        if (!queryBlock.includes('orderBy')) {
+      if (query.method === 'findMany' && (query.args || query.call.arguments.length === 0)) {
+        if (!(query.args && mayHaveOwnProperty(query.args, 'orderBy'))) {
           violations.push({
             file,
-            line: lineNum,
+            line: query.line,
             rule: 'INV-PRISMA-ORDERBY',
             message: 'findMany query missing orderBy clause.',
             severity: 'medium',
@@ -271,10 +695,10 @@ export function validatePrismaQueries(ctx: ValidationContext): ValidationResult
         }
 
         // Check for pagination
-        if (!queryBlock.includes('take') && !queryBlock.includes('skip')) {
+        if (!(query.args && (mayHaveOwnProperty(query.args, 'take') || mayHaveOwnProperty(query.args, 'skip')))) {
           warnings.push({
             file,
-            line: lineNum,
+            line: query.line,
             rule: 'INV-PRISMA-PAGINATION',
             message: 'findMany query may need pagination (take/skip).',
           });
@@ -282,21 +706,13 @@ export function validatePrismaQueries(ctx: ValidationContext): ValidationResult
       }
 
       // Check for N+1 pattern (query in loop)
-      if (/for\s*\(|\.forEach\(|\.map\(/.test(line)) {
-        let loopBlock = '';
-        let braceCount = 0;
-        let started = false;
-        for (let i = index; i < Math.min(index + 30, lines.length); i++) {
-          loopBlock += lines[i];
-          if (lines[i].includes('{')) { started = true; braceCount++; }
-          if (lines[i].includes('}')) braceCount--;
-          if (started && braceCount === 0) break;
-        }
-
-        if (/await\s+.*prisma\.\w+\.(findFirst|findUnique|findMany|count)/.test(loopBlock)) {
+      if (READ_METHODS.includes(query.method)) {
+        const loop = getEnclosingLoop(query.call);
+        if (loop && !reportedLoops.has(loop)) {
+          reportedLoops.add(loop);
           violations.push({
             file,
-            line: lineNum,
+            line: lineOf(sourceFile, loop),
             rule: 'INV-PRISMA-N+1',
             message: 'Potential N+1 query detected: Prisma query inside loop.',
             severity: 'high',
@@ -305,10 +721,36 @@ export function validatePrismaQueries(ctx: ValidationContext): ValidationResult
         }
       }
 
+      // Check for hard deletes on soft-delete entities
+      if ((query.method === 'delete' || query.method === 'deleteMany') &&
+          entities.softDelete.includes(query.model)) {
+        violations.push({
+          file,
+          line: query.line,
+          rule: 'INV-PRISMA-SOFT-DELETE',
+          message: `Hard delete on ${query.model} - use soft delete (deleted_at).`,
+          severity: 'critical',
+        });
+      }
+    }
+
+    const findManyCalls = new Set(
+      prismaCalls.filter(q => q.method === 'findMany').map(q => q.call as ts.Node)
+    );
+    const countLines = new Set<number>();
+
+    walk(sourceFile, node => {
       // Check for count using findMany().length
-      if (/\.findMany\([^)]*\)\.length/.test(line) || /\.length\s*$/.test(line)) {
-        const prevLines = lines.slice(Math.max(0, index - 5), index + 1).join('\n');
-        if (/findMany/.test(prevLines) && /\.length/.test(line)) {
+      if (ts.isPropertyAccessExpression(node) && node.name.text === 'length') {
+        let target = unwrapExpression(node.expression);
+        if (ts.isIdentifier(target)) {
+          const declaration = findLocalDeclaration(target);
+          target = declaration?.initializer ? unwrapExpression(declaration.initializer) : target;
+        }
+
+        const lineNum = lineOf(sourceFile, node);
+        if (findManyCalls.has(target) && !countLines.has(lineNum)) {
+          countLines.add(lineNum);
           violations.push({
             file,
             line: lineNum,
@@ -321,83 +763,60 @@ export function validatePrismaQueries(ctx: ValidationContext): ValidationResult
       }
 
       // Check for include vs select preference
-      if (/include:\s*{/.test(line)) {
-        const nextLines = lines.slice(index, Math.min(index + 10, lines.length)).join('\n');
-        const includeCount = (nextLines.match(/:\s*true/g) || []).length;
-        if (includeCount === 1) {
-          suggestions.push(`${file}:${lineNum} - Consider using select instead of include for single relation`);
+      if (ts.isPropertyAssignment(node) && ts.isIdentifier(node.name) && node.name.text === 'include' &&
+          ts.isObjectLiteralExpression(node.initializer)) {
+        const relations = node.initializer.properties;
+        if (relations.length === 1 && ts.isPropertyAssignment(relations[0]) &&
+            relations[0].initializer.kind === ts.SyntaxKind.TrueKeyword) {
+          suggestions.push(`${file}:${lineOf(sourceFile, node)} - Consider using select instead of include for single relation`);
         }
       }
     });
-
-    // Check for hard deletes on soft-delete entities
-    const hardDeleteMatch = content.match(/prisma\.(organizations|teams|rubrics|role_plays)\.delete\(/);
-    if (hardDeleteMatch) {
-      violations.push({
-        file,
-        line: content.substring(0, hardDeleteMatch.index).split('\n').length,
-        rule: 'INV-PRISMA-SOFT-DELETE',
-        message: `Hard delete on ${hardDeleteMatch[1]} - use soft delete (deleted_at).`,
-        severity: 'critical',
-      });
-    }
   }
 
-  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
-  const highViolations = violations.filter(v => v.severity === 'high').length;
-  const mediumViolations = violations.filter(v => v.severity === 'medium').length;
-  const score = Math.max(0, 1 - (criticalViolations * 0.3) - (highViolations * 0.15) - (mediumViolations * 0.05));
-
   return {
     sopFile: '3-database-prisma',
     metric: 'prisma-query-compliance',
-    score,
-    passed: criticalViolations === 0 && highViolations === 0,
+    ...scorePrismaQueries({ violations, warnings }),
     violations,
     warnings,
     suggestions,
   };
 }
 
+function scoreTransactions({ violations }: ScoringInput): Score {
+  return {
+    score: violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.2)),
+    passed: violations.length === 0,
+  };
+}
+
 export function validateTransactions(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  for (const [file, content] of ctx.fileContents) {
-    // Find functions with multiple prisma mutations
-    const functionMatches = content.matchAll(/async\s+(\w+)\s*\([^)]*\)\s*(?::\s*[^{]+)?\s*{/g);
-
-    for (const funcMatch of functionMatches) {
-      const funcName = funcMatch[1];
-      const funcStart = funcMatch.index!;
-
-      // Find function body
-      let braceCount = 0;
-      let started = false;
-      let funcEnd = funcStart;
-      for (let i = funcStart; i < content.length; i++) {
-        if (content[i] === '{') { started = true; braceCount++; }
-        if (content[i] === '}') braceCount--;
-        if (started && braceCount === 0) { funcEnd = i; break; }
-      }
-
-      const funcBody = content.substring(funcStart, funcEnd);
-
-      // Count distinct table mutations
-      const createMatches = [...funcBody.matchAll(/prisma\.(\w+)\.create\(/g)];
-      const updateMatches = [...funcBody.matchAll(/prisma\.(\w+)\.update\(/g)];
-      const deleteMatches = [...funcBody.matchAll(/prisma\.(\w+)\.delete\(/g)];
-
-      const allMutations = [...createMatches, ...updateMatches, ...deleteMatches];
-      const uniqueTables = new Set(allMutations.map(m => m[1]));
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
+
+    // Group mutations by the async function that performs them
+    const mutationsByFunction = new Map<ts.FunctionLikeDeclaration, Set<string>>();
+    for (const query of findPrismaCalls(sourceFile)) {
+      if (!MUTATION_METHODS.includes(query.method)) continue;
+      const func = getEnclosingAsyncFunction(query.call);
+      if (!func) continue;
+      const tables = mutationsByFunction.get(func) || new Set<string>();
+      tables.add(query.model);
+      mutationsByFunction.set(func, tables);
+    }
 
-      if (uniqueTables.size > 1 && !funcBody.includes('$transaction')) {
+    for (const [func, tables] of mutationsByFunction) {
+      if (tables.size > 1 && !usesTransaction(func)) {
         violations.push({
           file,
-          line: content.substring(0, funcStart).split('\n').length,
+          line: lineOf(sourceFile, func.name ?? func),
           rule: 'INV-PRISMA-TRANSACTION',
-          message: `Function ${funcName} has multi-table mutations without $transaction.`,
+          message: `Function ${getFunctionName(func) ?? '(anonymous)'} has multi-table mutations without $transaction.`,
           severity: 'high',
           fix: 'Wrap related writes in prisma.$transaction(async (tx) => { ... })',
         });
@@ -405,13 +824,10 @@ export function validateTransactions(ctx: ValidationContext): ValidationResult {
     }
   }
 
-  const score = violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.2));
-
   return {
     sopFile: '3-database-prisma',
     metric: 'transaction-compliance',
-    score,
-    passed: violations.length === 0,
+    ...scoreTransactions({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -422,62 +838,116 @@ export function validateTransactions(ctx: ValidationContext): ValidationResult {
 // 4-CODE-SAFETY-PATTERNS VALIDATORS
 // ============================================================================
 
+function scoreCodeSafetyPatterns({ violations }: ScoringInput): Score {
+  return {
+    score: violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.15)),
+    passed: violations.filter(v => v.severity === 'critical').length === 0,
+  };
+}
+
+/** A status or step set to a completed value: `step: 'sync_complete'`, `status: JobStatus.COMPLETED` */
+function setsCompleteStatus(call: ts.CallExpression): boolean {
+  const isComplete = (value: ts.Expression) => {
+    const unwrapped = unwrapExpression(value);
+    if (ts.isStringLiteralLike(unwrapped)) return /complete/i.test(unwrapped.text);
+    return ts.isPropertyAccessExpression(unwrapped) && /complete/i.test(unwrapped.name.text);
+  };
+  const isStatusCall = /status|progress/i.test((getCalleeName(call) ?? '').split('.').pop()!);
+
+  return call.arguments.some(arg => {
+    if (isStatusCall && isComplete(arg)) return true;
+    let found = false;
+    walk(arg, node => {
+      if (!found && ts.isPropertyAssignment(node) && /^(status|step|state)$/i.test(getPropertyName(node.name) ?? '') &&
+          isComplete(node.initializer)) {
+        found = true;
+      }
+    });
+    return found;
+  });
+}
+
+/** Work that may still fail: awaited method calls, fetch and Prisma calls, status updates excepted */
+function startsOperation(node: ts.Node): boolean {
+  let found = false;
+  walk(node, child => {
+    if (found || !ts.isCallExpression(child)) return;
+    const callee = getCalleeName(child) ?? '';
+    if (/status|progress/i.test(callee.split('.').pop()!)) return;
+    found = callee === 'fetch' || /(^|\.)prisma\./.test(callee) ||
+      (ts.isAwaitExpression(child.parent) && /^this\.\w+$/.test(callee));
+  });
+  return found;
+}
+
+/**
+ * `if (!x)` checks in a function, with their positions. TypeScript's
+ * narrowing of mutable variables and properties doesn't reach closures.
+ */
+function negatedChecks(fn: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): Array<{ text: string; pos: number }> {
+  const checks: Array<{ text: string; pos: number }> = [];
+  walk(fn, node => {
+    if (!ts.isIfStatement(node)) return;
+    walk(node.expression, child => {
+      if (!ts.isPrefixUnaryExpression(child) || child.operator !== ts.SyntaxKind.ExclamationToken) return;
+      const operand = unwrapExpression(child.operand);
+      if (ts.isIdentifier(operand)) {
+        const declaration = findLocalDeclaration(operand);
+        const isConst = declaration && ts.isVariableDeclarationList(declaration.parent) &&
+          (declaration.parent.flags & ts.NodeFlags.Const) !== 0;
+        if (!isConst) checks.push({ text: operand.text, pos: node.pos });
+      } else if (ts.isPropertyAccessExpression(operand)) {
+        checks.push({ text: operand.getText(sourceFile), pos: node.pos });
+      }
+    });
+  });
+  return checks;
+}
+
 export function validateCodeSafetyPatterns(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
-
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
-
-      // Check for status updates with 'complete' before actual operation
-      if (/step:\s*['"][\w_]*complete['"]/.test(line) || /status.*complete/i.test(line)) {
-        // Look back to see if operation happened
-        const prevLines = lines.slice(Math.max(0, index - 10), index).join('\n');
-        if (/updateStatus|setStatus|progress/.test(prevLines)) {
-          // Check if actual operation is AFTER this status update
-          const nextLines = lines.slice(index + 1, Math.min(index + 10, lines.length)).join('\n');
-          if (/await\s+this\.\w+\(|fetch|prisma\./.test(nextLines)) {
-            warnings.push({
-              file,
-              line: lineNum,
-              rule: 'INV-STATUS-ACCURACY',
-              message: 'Status set to "complete" before operation may have finished.',
-            });
-          }
-        }
-      }
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
 
-      // Check for closure variable capture issues
-      if (/retryOperation\(|setTimeout\(|setInterval\(|\)\s*=>\s*{/.test(line)) {
-        // Look for variables that were null-checked before
-        const prevLines = lines.slice(Math.max(0, index - 15), index).join('\n');
-        const nullChecks = prevLines.match(/if\s*\(\s*!(\w+)\s*\)/g);
-        if (nullChecks) {
-          const closureBody = lines.slice(index, Math.min(index + 10, lines.length)).join('\n');
-          for (const check of nullChecks) {
-            const varName = check.match(/!(\w+)/)?.[1];
-            if (varName && closureBody.includes(varName + '.')) {
-              suggestions.push(
-                `${file}:${lineNum} - Variable '${varName}' used in closure after null check. Consider capturing value before closure.`
-              );
-            }
-          }
-        }
+    walk(sourceFile, node => {
+      // Check for status updates with 'complete' before the operation runs
+      if (ts.isCallExpression(node) && setsCompleteStatus(node) &&
+          getFollowingStatements(node).some(startsOperation)) {
+        warnings.push({
+          file,
+          line: lineOf(sourceFile, node),
+          rule: 'INV-STATUS-ACCURACY',
+          message: 'Status set to "complete" before operation may have finished.',
+        });
+      }
+
+      // Check for closures using values null-checked outside them
+      if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+        const outer = getEnclosingFunction(node);
+        if (!outer) return;
+
+        const checked = negatedChecks(outer, sourceFile).filter(check => check.pos < node.pos);
+        const reported = new Set<string>();
+        walk(node.body, child => {
+          if (!ts.isPropertyAccessExpression(child)) return;
+          const name = child.expression.getText(sourceFile);
+          if (reported.has(name) || !checked.some(check => check.text === name)) return;
+          reported.add(name);
+          suggestions.push(
+            `${file}:${lineOf(sourceFile, node)} - Variable '${name}' used in closure after null check. Consider capturing value before closure.`
+          );
+        });
       }
     });
   }
 
-  const score = violations.length === 0 ? 1.0 : Math.max(0, 1 - (violations.length * 0.15));
-
   return {
     sopFile: '4-code-safety-patterns',
     metric: 'code-safety-compliance',
-    score,
-    passed: violations.filter(v => v.severity === 'critical').length === 0,
+    ...scoreCodeSafetyPatterns({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -488,6 +958,14 @@ export function validateCodeSafetyPatterns(ctx: ValidationContext): ValidationRe
 // 5-ERROR-HANDLING-LOGGING VALIDATORS
 // ============================================================================
 
+/** Share of thrown exceptions that are NestJS exceptions */
+function scoreExceptionTypes({ tally }: ScoringInput): Score {
+  const nestExceptionCount = tally?.nestExceptions ?? 0;
+  const totalThrows = nestExceptionCount + (tally?.genericErrors ?? 0);
+  const score = totalThrows === 0 ? 1.0 : nestExceptionCount / totalThrows;
+  return { score, passed: score >= 0.9 };
+}
+
 export function validateExceptionTypes(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
@@ -508,48 +986,49 @@ export function validateExceptionTypes(ctx: ValidationContext): ValidationResult
   let nestExceptionCount = 0;
   let genericErrorCount = 0;
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
-
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
 
-      // Check for generic Error throws
-      if (/throw\s+new\s+Error\(/.test(line)) {
-        genericErrorCount++;
-        violations.push({
-          file,
-          line: lineNum,
-          rule: 'INV-ERROR-TYPE',
-          message: 'Using generic Error instead of NestJS exception.',
-          severity: 'medium',
-          fix: 'Use NotFoundException, BadRequestException, etc.',
-        });
+    walk(sourceFile, node => {
+      // Check for generic Error throws and count NestJS exceptions
+      if (ts.isThrowStatement(node) && node.expression && ts.isNewExpression(node.expression)) {
+        const exceptionName = getCalleeName(node.expression);
+        if (exceptionName === 'Error') {
+          genericErrorCount++;
+          violations.push({
+            file,
+            line: lineOf(sourceFile, node),
+            rule: 'INV-ERROR-TYPE',
+            message: 'Using generic Error instead of NestJS exception.',
+            severity: 'medium',
+            fix: 'Use NotFoundException, BadRequestException, etc.',
+          });
+        } else if (exceptionName && nestExceptions.includes(exceptionName)) {
+          nestExceptionCount++;
+        }
       }
 
-      // Count NestJS exceptions
-      if (nestExceptions.some(ex => line.includes(`throw new ${ex}`))) {
-        nestExceptionCount++;
-      }
+      if (ts.isCallExpression(node)) {
+        const callee = getCalleeName(node) ?? '';
 
-      // Check for console.log usage
-      if (/console\.(log|debug|error|warn|info)\(/.test(line)) {
-        violations.push({
-          file,
-          line: lineNum,
-          rule: 'INV-LOGGER',
-          message: 'Using console.* instead of NestJS Logger.',
-          severity: 'medium',
-          fix: 'Use this.logger.log/error/warn/debug',
-        });
-      }
+        // Check for console.log usage
+        if (/^console\.(log|debug|error|warn|info)$/.test(callee)) {
+          violations.push({
+            file,
+            line: lineOf(sourceFile, node),
+            rule: 'INV-LOGGER',
+            message: 'Using console.* instead of NestJS Logger.',
+            severity: 'medium',
+            fix: 'Use this.logger.log/error/warn/debug',
+          });
+        }
 
-      // Check for sensitive data in logs
-      if (/logger\.(log|debug|error|warn)\(/.test(line)) {
-        if (/password|secret|token|apiKey|api_key|jwt/i.test(line)) {
+        // Check for sensitive data in logs
+        if (/(^|\.)logger\.(log|debug|error|warn)$/.test(callee) &&
+            node.arguments.some(arg => referencesIdentifier(arg, /password|secret|token|apiKey|api_key|jwt/i))) {
           violations.push({
             file,
-            line: lineNum,
+            line: lineOf(sourceFile, node),
             rule: 'INV-LOG-SENSITIVE',
             message: 'Potential sensitive data in log statement.',
             severity: 'critical',
@@ -558,107 +1037,161 @@ export function validateExceptionTypes(ctx: ValidationContext): ValidationResult
       }
 
       // Check for error context preservation
-      if (/catch\s*\(\s*(\w+)\s*\)/.test(line)) {
-        const catchBlock = lines.slice(index, Math.min(index + 10, lines.length)).join('\n');
-        if (/throw\s+new\s+\w+Exception\(/.test(catchBlock)) {
-          if (!catchBlock.includes('.message') && !catchBlock.includes('.stack')) {
-            warnings.push({
-              file,
-              line: lineNum,
-              rule: 'INV-ERROR-CONTEXT',
-              message: 'Rethrowing exception may lose original error context.',
-            });
+      if (ts.isCatchClause(node) && node.variableDeclaration && ts.isIdentifier(node.variableDeclaration.name)) {
+        const errorName = node.variableDeclaration.name.text;
+        let rethrows = false;
+        let usesError = false;
+
+        walk(node.block, child => {
+          if (ts.isThrowStatement(child) && child.expression && ts.isNewExpression(child.expression) &&
+              /Exception$/.test(getCalleeName(child.expression) ?? '')) {
+            rethrows = true;
           }
+          if (ts.isIdentifier(child) && child.text === errorName) {
+            usesError = true;
+          }
+        });
+
+        if (rethrows && !usesError) {
+          warnings.push({
+            file,
+            line: lineOf(sourceFile, node),
+            rule: 'INV-ERROR-CONTEXT',
+            message: 'Rethrowing exception may lose original error context.',
+          });
         }
       }
     });
   }
 
-  const totalThrows = nestExceptionCount + genericErrorCount;
-  const score = totalThrows === 0 ? 1.0 : nestExceptionCount / totalThrows;
+  const tally = { nestExceptions: nestExceptionCount, genericErrors: genericErrorCount };
 
   return {
     sopFile: '5-error-handling-logging',
     metric: 'exception-type-compliance',
-    score,
-    passed: score >= 0.9,
+    ...scoreExceptionTypes({ violations, warnings, tally }),
+    tally,
     violations,
     warnings,
     suggestions,
   };
 }
 
+function scoreLogging({ violations }: ScoringInput): Score {
+  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
+  return {
+    score: criticalViolations === 0 ? 1.0 : Math.max(0, 1 - (criticalViolations * 0.3)),
+    passed: criticalViolations === 0,
+  };
+}
+
+/**
+ * Whether `process.env.X` is checked: where it's read (`?? 'default'`,
+ * `if (!process.env.X)`), anywhere in the same function, or through the
+ * variable or property it's stored in (`const url = process.env.X;
+ * if (!url) throw ...`).
+ */
+function isEnvVarChecked(access: ts.PropertyAccessExpression, sourceFile: ts.SourceFile): boolean {
+  const scope = getEnclosingFunction(access) ?? sourceFile;
+  if (isCheckedValue(access) || checksValue(scope, access.getText(sourceFile))) return true;
+
+  let node: ts.Node = access;
+  while (ts.isParenthesizedExpression(node.parent) || ts.isAsExpression(node.parent) ||
+         ts.isNonNullExpression(node.parent)) {
+    node = node.parent;
+  }
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return checksValue(scope, parent.name.text);
+  }
+  if (ts.isPropertyDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return checksValue(sourceFile, `this.${parent.name.text}`);
+  }
+  if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken && parent.right === node) {
+    const target = parent.left.getText(sourceFile);
+    return checksValue(target.startsWith('this.') ? sourceFile : scope, target);
+  }
+  return false;
+}
+
 export function validateLogging(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  for (const [file, content] of ctx.fileContents) {
-    // Check for Logger initialization in services
-    if (file.endsWith('.service.ts')) {
-      if (!content.includes('private readonly logger = new Logger(') &&
-          !content.includes('private logger = new Logger(')) {
-        if (content.includes('this.logger')) {
-          violations.push({
-            file,
-            line: 1,
-            rule: 'INV-LOGGER-INIT',
-            message: 'Service uses this.logger but Logger is not properly initialized.',
-            severity: 'medium',
-          });
-        }
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
+    let loggerInitialized = false;
+    let usesLogger = false;
+
+    walk(sourceFile, node => {
+      // Track Logger initialization and usage
+      if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === 'logger' &&
+          node.initializer && ts.isNewExpression(node.initializer) &&
+          getCalleeName(node.initializer) === 'Logger') {
+        loggerInitialized = true;
+      }
+      if (ts.isPropertyAccessExpression(node) && node.expression.kind === ts.SyntaxKind.ThisKeyword &&
+          node.name.text === 'logger') {
+        usesLogger = true;
       }
-    }
-
-    const lines = content.split('\n');
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
 
       // Check for log statements without context
-      if (/this\.logger\.(log|error|warn)\(['"][\w\s]+['"]\s*\)/.test(line)) {
-        if (!line.includes('${') && !line.includes('+ ') && !line.includes(', {')) {
-          warnings.push({
-            file,
-            line: lineNum,
-            rule: 'INV-LOG-CONTEXT',
-            message: 'Log statement may be missing context (entity IDs, etc.).',
-          });
-        }
+      if (ts.isCallExpression(node) && /^this\.logger\.(log|error|warn)$/.test(getCalleeName(node) ?? '') &&
+          node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0]) &&
+          /^[\w\s]+$/.test(node.arguments[0].text)) {
+        warnings.push({
+          file,
+          line: lineOf(sourceFile, node),
+          rule: 'INV-LOG-CONTEXT',
+          message: 'Log statement may be missing context (entity IDs, etc.).',
+        });
       }
 
       // Check for hardcoded secrets
-      if (/['"]sk-[a-zA-Z0-9]+['"]/.test(line) ||
-          /api[_-]?key\s*[:=]\s*['"][^'"]+['"]/.test(line)) {
-        violations.push({
-          file,
-          line: lineNum,
-          rule: 'INV-HARDCODED-SECRET',
-          message: 'Potential hardcoded secret detected.',
-          severity: 'critical',
-        });
+      if (ts.isStringLiteralLike(node) && node.text.length > 0) {
+        const parent = node.parent;
+        const assignedName = parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) ||
+          ts.isPropertyDeclaration(parent)) && parent.initializer === node
+          ? parent.name.getText(sourceFile)
+          : '';
+
+        if (/^sk-[a-zA-Z0-9]+$/.test(node.text) || /api[_-]?key/i.test(assignedName)) {
+          violations.push({
+            file,
+            line: lineOf(sourceFile, node),
+            rule: 'INV-HARDCODED-SECRET',
+            message: 'Potential hardcoded secret detected.',
+            severity: 'critical',
+          });
+        }
       }
 
       // Check for missing env variable validation
-      if (/process\.env\.(\w+)/.test(line)) {
-        const envVar = line.match(/process\.env\.(\w+)/)?.[1];
-        const nextLines = lines.slice(index, Math.min(index + 5, lines.length)).join('\n');
-        if (!nextLines.includes('if (!' + envVar) && !nextLines.includes('?? ') && !nextLines.includes('|| ')) {
-          suggestions.push(
-            `${file}:${lineNum} - Environment variable ${envVar} used without validation.`
-          );
-        }
+      if (ts.isPropertyAccessExpression(node) && getDottedName(node.expression) === 'process.env' &&
+          !isEnvVarChecked(node, sourceFile)) {
+        suggestions.push(
+          `${file}:${lineOf(sourceFile, node)} - Environment variable ${node.name.text} used without validation.`
+        );
       }
     });
-  }
 
-  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
-  const score = criticalViolations === 0 ? 1.0 : Math.max(0, 1 - (criticalViolations * 0.3));
+    // Check for Logger initialization in services
+    if (file.endsWith('.service.ts') && usesLogger && !loggerInitialized) {
+      violations.push({
+        file,
+        line: 1,
+        rule: 'INV-LOGGER-INIT',
+        message: 'Service uses this.logger but Logger is not properly initialized.',
+        severity: 'medium',
+      });
+    }
+  }
 
   return {
     sopFile: '5-error-handling-logging',
     metric: 'logging-compliance',
-    score,
-    passed: criticalViolations === 0,
+    ...scoreLogging({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -669,24 +1202,54 @@ export function validateLogging(ctx: ValidationContext): ValidationResult {
 // 6-EXTERNAL-SERVICES-TIMING VALIDATORS
 // ============================================================================
 
+function scoreExternalServicePatterns({ violations, warnings }: ScoringInput): Score {
+  const score = 1.0 - (violations.length * 0.2) - (warnings.length * 0.05);
+  return { score: Math.max(0, score), passed: violations.length === 0 };
+}
+
+const HTTP_CALL = /(^|\.)httpService\.(get|post|put|patch|delete)$|^axios\.(get|post|put|patch|delete)$|^fetch$/;
+
+/** Clients of other services, by name: this.externalApi.get(), this.httpClient.post(), ... */
+const EXTERNAL_CLIENT = /external|http|api|client/i;
+
+function callsExternalService(block: ts.Block): boolean {
+  let found = false;
+  walk(block, node => {
+    if (found || !ts.isCallExpression(node)) return;
+    const callee = getCalleeName(node) ?? '';
+    found = HTTP_CALL.test(callee) || EXTERNAL_CLIENT.test(callee.split('.').slice(0, -1).join('.'));
+  });
+  return found;
+}
+
+/** Whether an exception argument passes on the caught error: `error.message`, `error.response.data`, `err` */
+function exposesError(arg: ts.Expression, errorName: string): boolean {
+  let found = false;
+  walk(arg, node => {
+    if (!found && ts.isIdentifier(node) && node.text === errorName &&
+        !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node)) {
+      found = true;
+    }
+  });
+  return found;
+}
+
 export function validateExternalServicePatterns(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
-
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
 
+    walk(sourceFile, node => {
       // Check for external API calls without retry logic
-      if (/httpService\.(get|post|put|patch|delete)\(|axios\.(get|post|put|patch|delete)\(|fetch\(/.test(line)) {
-        const funcBody = lines.slice(Math.max(0, index - 30), index + 30).join('\n');
-        if (!funcBody.includes('retry') && !funcBody.includes('attempt')) {
+      if (ts.isCallExpression(node) && HTTP_CALL.test(getCalleeName(node) ?? '')) {
+        const methodText = getMethodText(node, sourceFile);
+        if (!/retry|attempt/i.test(methodText)) {
           warnings.push({
             file,
-            line: lineNum,
+            line: lineOf(sourceFile, node),
             rule: 'INV-EXTERNAL-RETRY',
             message: 'External API call may need retry logic.',
           });
@@ -694,38 +1257,42 @@ export function validateExternalServicePatterns(ctx: ValidationContext): Validat
       }
 
       // Check for explicit delays (last resort)
-      if (/await\s+new\s+Promise.*setTimeout/.test(line) || /await\s+sleep\(/.test(line)) {
-        suggestions.push(
-          `${file}:${lineNum} - Explicit delay detected. Consider deferring operation or using retry instead.`
-        );
+      if (ts.isAwaitExpression(node)) {
+        const awaited = unwrapExpression(node.expression);
+        const isSleep = ts.isCallExpression(awaited) && /(^|\.)sleep$/.test(getCalleeName(awaited) ?? '');
+        const isTimeoutPromise = ts.isNewExpression(awaited) && getCalleeName(awaited) === 'Promise' &&
+          referencesIdentifier(awaited, /^setTimeout$/);
+        if (isSleep || isTimeoutPromise) {
+          suggestions.push(
+            `${file}:${lineOf(sourceFile, node)} - Explicit delay detected. Consider deferring operation or using retry instead.`
+          );
+        }
       }
 
-      // Check for external errors exposed to user
-      if (/catch\s*\([^)]+\)/.test(line)) {
-        const catchBlock = lines.slice(index, Math.min(index + 10, lines.length)).join('\n');
-        if (/throw\s+new\s+\w+Exception\([^)]*error\./.test(catchBlock) ||
-            /throw\s+new\s+\w+Exception\([^)]*\.message/.test(catchBlock)) {
-          const nextLines = lines.slice(index, Math.min(index + 5, lines.length)).join('\n');
-          if (nextLines.includes('external') || nextLines.includes('http') || nextLines.includes('api')) {
-            warnings.push({
-              file,
-              line: lineNum,
-              rule: 'INV-EXTERNAL-ERROR-EXPOSE',
-              message: 'External service error may be exposed to user.',
-            });
-          }
-        }
+      // Check for external errors exposed to user: catch (error) { throw new XException(error.message) }
+      if (ts.isCatchClause(node) && node.variableDeclaration && ts.isIdentifier(node.variableDeclaration.name) &&
+          callsExternalService(node.parent.tryBlock)) {
+        const errorName = node.variableDeclaration.name.text;
+        walk(node.block, child => {
+          if (!ts.isThrowStatement(child) || !child.expression) return;
+          const thrown = unwrapExpression(child.expression);
+          if (!ts.isNewExpression(thrown) || !/Exception$/.test(getCalleeName(thrown) ?? '')) return;
+          if (!thrown.arguments?.some(arg => exposesError(arg, errorName))) return;
+          warnings.push({
+            file,
+            line: lineOf(sourceFile, child),
+            rule: 'INV-EXTERNAL-ERROR-EXPOSE',
+            message: 'External service error may be exposed to user.',
+          });
+        });
       }
     });
   }
 
-  const score = 1.0 - (violations.length * 0.2) - (warnings.length * 0.05);
-
   return {
     sopFile: '6-external-services-timing',
     metric: 'external-service-compliance',
-    score: Math.max(0, score),
-    passed: violations.length === 0,
+    ...scoreExternalServicePatterns({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -736,16 +1303,21 @@ export function validateExternalServicePatterns(ctx: ValidationContext): Validat
 // 7-QUEUE-JOB-PROCESSING VALIDATORS
 // ============================================================================
 
+function scoreJobProcessing({ violations, warnings }: ScoringInput): Score {
+  const score = 1.0 - (violations.length * 0.2) - (warnings.length * 0.1);
+  return { score: Math.max(0, score), passed: violations.length === 0 };
+}
+
 export function validateJobProcessing(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
   for (const [file, content] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
+
     // Check processor files
     if (file.includes('processor') || file.includes('consumer')) {
-      const lines = content.split('\n');
-
       // Check for idempotency
       if (content.includes('async process(') || content.includes('async execute(')) {
         // Look for idempotency check pattern
@@ -770,21 +1342,17 @@ export function validateJobProcessing(ctx: ValidationContext): ValidationResult
       }
 
       // Check for tenant context in job data
-      lines.forEach((line, index) => {
-        const lineNum = index + 1;
-
-        if (/Job<[^>]+>/.test(line) || /interface.*JobData/.test(line)) {
-          const typeBlock = lines.slice(index, Math.min(index + 15, lines.length)).join('\n');
-          if (!typeBlock.includes('organizationId') && !typeBlock.includes('organization_id')) {
-            warnings.push({
-              file,
-              line: lineNum,
-              rule: 'INV-JOB-TENANT',
-              message: 'Job data type may be missing organizationId.',
-            });
-          }
+      for (const [typeNode, lineNum] of findJobDataTypes(sourceFile)) {
+        const members = typeNode.getText(sourceFile);
+        if (!members.includes('organizationId') && !members.includes('organization_id')) {
+          warnings.push({
+            file,
+            line: lineNum,
+            rule: 'INV-JOB-TENANT',
+            message: 'Job data type may be missing organizationId.',
+          });
         }
-      });
+      }
 
       // Check for proper logging
       if (!content.includes('this.logger.log') && !content.includes('this.logger.error')) {
@@ -798,31 +1366,26 @@ export function validateJobProcessing(ctx: ValidationContext): ValidationResult
     }
 
     // Check job producers
-    if (content.includes('addJob') || content.includes('add(')) {
-      const lines = content.split('\n');
-
-      lines.forEach((line, index) => {
-        if (/\.add\(|\.addJob\(/.test(line)) {
-          const jobCall = lines.slice(index, Math.min(index + 10, lines.length)).join('\n');
-
-          // Check for retry configuration
-          if (!jobCall.includes('attempts') && !jobCall.includes('backoff')) {
-            suggestions.push(
-              `${file}:${index + 1} - Job added without explicit retry configuration.`
-            );
-          }
-        }
-      });
-    }
+    walk(sourceFile, node => {
+      if (!ts.isCallExpression(node)) return;
+      const callee = getCalleeName(node) ?? '';
+      if (!/queue\w*\.add$/i.test(callee) && !/(^|\.)addJob$/.test(callee)) return;
+
+      // Check for retry configuration
+      const hasRetryConfig = node.arguments.some(arg =>
+        mayHaveProperty(arg, 'attempts') || mayHaveProperty(arg, 'backoff'));
+      if (!hasRetryConfig) {
+        suggestions.push(
+          `${file}:${lineOf(sourceFile, node)} - Job added without explicit retry configuration.`
+        );
+      }
+    });
   }
 
-  const score = 1.0 - (violations.length * 0.2) - (warnings.length * 0.1);
-
   return {
     sopFile: '7-queue-job-processing',
     metric: 'job-processing-compliance',
-    score: Math.max(0, score),
-    passed: violations.length === 0,
+    ...scoreJobProcessing({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -833,33 +1396,49 @@ export function validateJobProcessing(ctx: ValidationContext): ValidationResult
 // 8-API-DESIGN-PATTERNS VALIDATORS
 // ============================================================================
 
+function scoreApiDesign({ violations }: ScoringInput): Score {
+  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
+  return {
+    score: criticalViolations === 0 ? 1.0 : Math.max(0, 1 - (criticalViolations * 0.25)),
+    passed: criticalViolations === 0,
+  };
+}
+
 export function validateApiDesign(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
+  for (const [file] of ctx.fileContents) {
+    const sourceFile = getSourceFile(ctx, file);
 
     // Check controllers
     if (file.endsWith('.controller.ts')) {
-      // Check for API documentation
-      if (!content.includes('@ApiTags')) {
-        warnings.push({
-          file,
-          line: 1,
-          rule: 'INV-API-DOCS',
-          message: 'Controller missing @ApiTags decorator.',
-        });
-      }
+      walk(sourceFile, node => {
+        if (!ts.isClassDeclaration(node) || !hasDecorator(node, 'Controller')) return;
+
+        // Check for API documentation
+        if (!hasDecorator(node, 'ApiTags')) {
+          warnings.push({
+            file,
+            line: lineOf(sourceFile, node.name ?? node),
+            rule: 'INV-API-DOCS',
+            message: 'Controller missing @ApiTags decorator.',
+          });
+        }
 
-      lines.forEach((line, index) => {
-        const lineNum = index + 1;
+        const classGuarded = hasDecorator(node, 'UseGuards');
 
-        // Check for guards on mutation endpoints
-        if (/@(Post|Put|Patch|Delete)\(/.test(line)) {
-          const methodBlock = lines.slice(Math.max(0, index - 5), index + 1).join('\n');
-          if (!methodBlock.includes('@UseGuards') && !content.includes('@UseGuards(')) {
+        for (const member of node.members) {
+          if (!ts.isMethodDeclaration(member)) continue;
+          const decorators = getDecorators(member);
+          const route = decorators.find(d =>
+            /^(Get|Post|Put|Patch|Delete)$/.test(getDecoratorName(d) ?? ''));
+          if (!route) continue;
+          const lineNum = lineOf(sourceFile, route);
+
+          // Check for guards on mutation endpoints
+          if (getDecoratorName(route) !== 'Get' && !classGuarded && !hasDecorator(member, 'UseGuards')) {
             violations.push({
               file,
               line: lineNum,
@@ -868,12 +1447,9 @@ export function validateApiDesign(ctx: ValidationContext): ValidationResult {
               severity: 'critical',
             });
           }
-        }
 
-        // Check for @ApiOperation on endpoints
-        if (/@(Get|Post|Put|Patch|Delete)\(/.test(line)) {
-          const methodBlock = lines.slice(Math.max(0, index - 3), index + 1).join('\n');
-          if (!methodBlock.includes('@ApiOperation')) {
+          // Check for @ApiOperation on endpoints
+          if (!hasDecorator(member, 'ApiOperation')) {
             suggestions.push(
               `${file}:${lineNum} - Endpoint missing @ApiOperation documentation.`
             );
@@ -884,33 +1460,31 @@ export function validateApiDesign(ctx: ValidationContext): ValidationResult {
 
     // Check DTOs
     if (file.includes('/dto/')) {
-      lines.forEach((line, index) => {
-        const lineNum = index + 1;
+      walk(sourceFile, node => {
+        if (!ts.isPropertyDeclaration(node) || node.questionToken || !node.type) return;
+        const kind = node.type.kind;
+        if (kind !== ts.SyntaxKind.StringKeyword &&
+            kind !== ts.SyntaxKind.NumberKeyword &&
+            kind !== ts.SyntaxKind.BooleanKeyword) return;
 
         // Check for validation decorators
-        if (/^\s+\w+\s*:\s*(string|number|boolean)/.test(line) && !line.includes('?')) {
-          const prevLines = lines.slice(Math.max(0, index - 3), index).join('\n');
-          if (!prevLines.includes('@Is') && !prevLines.includes('@Valid')) {
-            warnings.push({
-              file,
-              line: lineNum,
-              rule: 'INV-DTO-VALIDATION',
-              message: 'Required field may be missing validation decorator.',
-            });
-          }
+        const validated = getDecorators(node).some(d => /^(Is|Valid)/.test(getDecoratorName(d) ?? ''));
+        if (!validated) {
+          warnings.push({
+            file,
+            line: lineOf(sourceFile, node.name),
+            rule: 'INV-DTO-VALIDATION',
+            message: 'Required field may be missing validation decorator.',
+          });
         }
       });
     }
   }
 
-  const criticalViolations = violations.filter(v => v.severity === 'critical').length;
-  const score = criticalViolations === 0 ? 1.0 : Math.max(0, 1 - (criticalViolations * 0.25));
-
   return {
     sopFile: '8-api-design-patterns',
     metric: 'api-design-compliance',
-    score,
-    passed: criticalViolations === 0,
+    ...scoreApiDesign({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -921,52 +1495,70 @@ export function validateApiDesign(ctx: ValidationContext): ValidationResult {
 // 9-TESTING-CODE-QUALITY VALIDATORS
 // ============================================================================
 
+const MAGIC_NUMBERS = new Set(['1000', '2000', '3000', '5000', '10000', '60000', '86400']);
+
+/** True when a literal is the initializer of a named constant, property or enum member. */
+function isNamedConstant(literal: ts.Node): boolean {
+  let node = literal;
+  while (ts.isPrefixUnaryExpression(node.parent) || ts.isBinaryExpression(node.parent) ||
+         ts.isParenthesizedExpression(node.parent)) {
+    node = node.parent;
+  }
+  const parent = node.parent;
+  return (ts.isVariableDeclaration(parent) || ts.isPropertyDeclaration(parent) ||
+          ts.isPropertyAssignment(parent) || ts.isEnumMember(parent)) &&
+         parent.initializer === node;
+}
+
+function scoreCodeQuality({ violations, warnings }: ScoringInput): Score {
+  const score = 1.0 - (violations.length * 0.1) - (warnings.length * 0.02);
+  return { score: Math.max(0, score), passed: violations.length === 0 };
+}
+
 export function validateCodeQuality(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
   for (const [file, content] of ctx.fileContents) {
-    const lines = content.split('\n');
-
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
+    const sourceFile = getSourceFile(ctx, file);
 
+    for (const comment of getComments(sourceFile)) {
       // Check for TODO/FIXME
-      if (/\/\/\s*(TODO|FIXME|HACK|XXX)/i.test(line)) {
+      if (/^\/[/*]\s*(TODO|FIXME|HACK|XXX)/i.test(comment.text)) {
         warnings.push({
           file,
-          line: lineNum,
+          line: comment.line,
           rule: 'INV-TODO',
           message: 'Unresolved TODO/FIXME comment.',
         });
       }
 
+      // Check for commented-out code
+      if (/^\/\/\s*(await|return|const|let|var|if|for|while)\s/.test(comment.text)) {
+        suggestions.push(
+          `${file}:${comment.line} - Commented-out code detected. Consider removing.`
+        );
+      }
+    }
+
+    walk(sourceFile, node => {
       // Check for any type
-      if (/:\s*any\s*[;,=)]/.test(line) || /as\s+any/.test(line)) {
+      if (node.kind === ts.SyntaxKind.AnyKeyword) {
         warnings.push({
           file,
-          line: lineNum,
+          line: lineOf(sourceFile, node),
           rule: 'INV-ANY-TYPE',
           message: 'Usage of "any" type reduces type safety.',
         });
       }
 
-      // Check for commented-out code
-      if (/^\s*\/\/\s*(await|return|const|let|var|if|for|while)\s/.test(line)) {
+      // Check for magic numbers
+      if (ts.isNumericLiteral(node) && MAGIC_NUMBERS.has(node.text) && !isNamedConstant(node)) {
         suggestions.push(
-          `${file}:${lineNum} - Commented-out code detected. Consider removing.`
+          `${file}:${lineOf(sourceFile, node)} - Magic number detected. Consider extracting to named constant.`
         );
       }
-
-      // Check for magic numbers
-      if (/[^a-zA-Z0-9_](1000|2000|3000|5000|10000|60000|86400)\s*[),;]/.test(line)) {
-        if (!line.includes('const') && !line.includes('//')) {
-          suggestions.push(
-            `${file}:${lineNum} - Magic number detected. Consider extracting to named constant.`
-          );
-        }
-      }
     });
 
     // Check for testability issues
@@ -980,13 +1572,10 @@ export function validateCodeQuality(ctx: ValidationContext): ValidationResult {
     }
   }
 
-  const score = 1.0 - (violations.length * 0.1) - (warnings.length * 0.02);
-
   return {
     sopFile: '9-testing-code-quality',
     metric: 'code-quality',
-    score: Math.max(0, score),
-    passed: violations.length === 0,
+    ...scoreCodeQuality({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -997,66 +1586,44 @@ export function validateCodeQuality(ctx: ValidationContext): ValidationResult {
 // AUDIT LOG VALIDATOR
 // ============================================================================
 
+function scoreAuditLogging({ warnings }: ScoringInput): Score {
+  return {
+    score: warnings.length === 0 ? 1.0 : Math.max(0, 1 - (warnings.length * 0.1)),
+    passed: true, // Audit log is a warning, not a blocker
+  };
+}
+
 export function validateAuditLogging(ctx: ValidationContext): ValidationResult {
   const violations: Violation[] = [];
   const warnings: Warning[] = [];
   const suggestions: string[] = [];
 
-  const criticalEntities = ['organizations', 'role_plays', 'assessments', 'users', 'rubrics'];
+  const criticalEntities = (ctx.entities ?? DEFAULT_ENTITIES).audited;
 
-  for (const [file, content] of ctx.fileContents) {
+  for (const [file] of ctx.fileContents) {
     if (!file.endsWith('.service.ts')) continue;
+    const sourceFile = getSourceFile(ctx, file);
 
-    for (const entity of criticalEntities) {
-      // Check for create operations
-      const createPattern = new RegExp(`prisma\\.${entity}\\.create\\(`, 'g');
-      const createMatches = [...content.matchAll(createPattern)];
-
-      for (const match of createMatches) {
-        const funcStart = content.lastIndexOf('async ', match.index);
-        const funcEnd = content.indexOf('}', match.index! + 100);
-        const funcBody = content.substring(funcStart, funcEnd);
-
-        if (!funcBody.includes('auditLogsService') && !funcBody.includes('audit')) {
-          const lineNum = content.substring(0, match.index).split('\n').length;
-          warnings.push({
-            file,
-            line: lineNum,
-            rule: 'INV-AUDIT-LOG',
-            message: `Create operation on ${entity} may be missing audit log.`,
-          });
-        }
-      }
-
-      // Check for update operations
-      const updatePattern = new RegExp(`prisma\\.${entity}\\.update\\(`, 'g');
-      const updateMatches = [...content.matchAll(updatePattern)];
-
-      for (const match of updateMatches) {
-        const funcStart = content.lastIndexOf('async ', match.index);
-        const funcEnd = content.indexOf('}', match.index! + 100);
-        const funcBody = content.substring(funcStart, funcEnd);
+    for (const { model, method, call, line } of findPrismaCalls(sourceFile)) {
+      if (!criticalEntities.includes(model) || (method !== 'create' && method !== 'update')) continue;
 
-        if (!funcBody.includes('auditLogsService') && !funcBody.includes('audit')) {
-          const lineNum = content.substring(0, match.index).split('\n').length;
-          warnings.push({
-            file,
-            line: lineNum,
-            rule: 'INV-AUDIT-LOG',
-            message: `Update operation on ${entity} may be missing audit log.`,
-          });
-        }
+      // Audit calls may live anywhere in the enclosing method
+      const methodText = getMethodText(call, sourceFile);
+      if (!methodText.includes('auditLogsService') && !methodText.includes('audit')) {
+        warnings.push({
+          file,
+          line,
+          rule: 'INV-AUDIT-LOG',
+          message: `${method === 'create' ? 'Create' : 'Update'} operation on ${model} may be missing audit log.`,
+        });
       }
     }
   }
 
-  const score = warnings.length === 0 ? 1.0 : Math.max(0, 1 - (warnings.length * 0.1));
-
   return {
     sopFile: '2-supabase', // Audit rules are in supabase SOP
     metric: 'audit-log-coverage',
-    score,
-    passed: true, // Audit log is a warning, not a blocker
+    ...scoreAuditLogging({ violations, warnings }),
     violations,
     warnings,
     suggestions,
@@ -1070,7 +1637,9 @@ export function validateAuditLogging(ctx: ValidationContext): ValidationResult {
 export const validators = {
   // 2-supabase
   'supabase-auth': validateSupabaseAuth,
+  'route-authorization': validateRouteAuthorization,
   'tenant-isolation': validateTenantIsolation,
+  'cache-isolation': validateCacheIsolation,
   'audit-logging': validateAuditLogging,
 
   // 3-database-prisma
@@ -1096,8 +1665,61 @@ export const validators = {
   // 9-testing-code-quality
   'code-quality': validateCodeQuality,
 
-  // General best practices (imported from general-practices-validator.ts)
-  // This is added dynamically - see runner.ts
+  // General best practices: security, error handling, performance,
+  // reliability and maintainability (general-practices-validator.ts)
+  'general-practices': validateGeneralPractices,
 };
 
 export type ValidatorName = keyof typeof validators;
+
+/**
+ * Score of each validator from its findings. A validator's findings for a
+ * set of files are the findings for each file in turn, so results computed
+ * on separate shards of files (parallel.ts) can be concatenated and rescored
+ * to exactly what a single run would report.
+ */
+export const scorers: Partial<Record<ValidatorName, (findings: ScoringInput) => Score>> = {
+  'supabase-auth': scoreSupabaseAuth,
+  'tenant-isolation': scoreTenantIsolation,
+  'cache-isolation': scoreCacheIsolation,
+  'audit-logging': scoreAuditLogging,
+  'prisma-queries': scorePrismaQueries,
+  'transactions': scoreTransactions,
+  'code-safety': scoreCodeSafetyPatterns,
+  'exception-types': scoreExceptionTypes,
+  'logging': scoreLogging,
+  'external-services': scoreExternalServicePatterns,
+  'job-processing': scoreJobProcessing,
+  'api-design': scoreApiDesign,
+  'code-quality': scoreCodeQuality,
+  'general-practices': scoreGeneralPractices,
+};
+
+/** Validator behind each built-in metric name */
+const METRIC_VALIDATORS: Record<string, ValidatorName> = {
+  'supabase-auth-compliance': 'supabase-auth',
+  'route-authorization-compliance': 'route-authorization',
+  'tenant-isolation': 'tenant-isolation',
+  'cache-isolation': 'cache-isolation',
+  'audit-log-coverage': 'audit-logging',
+  'prisma-query-compliance': 'prisma-queries',
+  'transaction-compliance': 'transactions',
+  'code-safety-compliance': 'code-safety',
+  'exception-type-compliance': 'exception-types',
+  'logging-compliance': 'logging',
+  'external-service-compliance': 'external-services',
+  'job-processing-compliance': 'job-processing',
+  'api-design-compliance': 'api-design',
+  'code-quality': 'code-quality',
+  'general-best-practices': 'general-practices',
+};
+
+/**
+ * Scorer of a result, by its metric name, for rescoring it after findings
+ * are removed or change severity. Plugin metrics are named after their
+ * validator. route-authorization isn't sharded, but is scored the same way.
+ */
+export function scorerForMetric(metric: string): ((findings: ScoringInput) => Score) | undefined {
+  const name = METRIC_VALIDATORS[metric] ?? metric as ValidatorName;
+  return name === 'route-authorization' ? scoreRouteAuthorization : scorers[name];
+}
@@ -0,0 +1,302 @@
+/**
+ * SOP Watch Mode - Revalidate files as they are saved
+ *
+ * Loads the target directory once and keeps every file's contents and
+ * findings in memory. When a file changes, only that file is validated
+ * again, with the validators its kind calls for (selectValidatorsForFile in
+ * claude-code-validator.ts), and only the findings that appeared or went
+ * away are printed. Findings are matched by rule and line content, as in
+ * compare mode, so edits that shift lines don't show up as changes.
+ *
+ * Cross-file validators (route-authorization: a route's guards come from
+ * its module and main.ts) run again over every loaded file after each
+ * change, so their findings can appear or go away in files that didn't
+ * change.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidatorName } from './validators';
+import { ResolvedConfig, matchGlob } from './config';
+import { runEngine, selectValidators, loadDirectory, matchesFilePatterns } from './engine';
+import { collectFindings, matchFindings, CompareFinding } from './compare';
+import { selectValidatorsForFile } from './claude-code-validator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WatchOptions {
+  targetDir: string;
+
+  /** Resolved project config; include/exclude are taken from the fields below */
+  config: ResolvedConfig;
+  include: string[];
+  exclude: string[];
+
+  /** Restrict the validators as for a normal run */
+  validators?: ValidatorName[];
+  sopFiles?: string[];
+  includeGeneral?: boolean;
+
+  jobs?: number;
+
+  /** On-disk cache for the initial run; later runs use the findings in memory */
+  cacheDir?: string;
+
+  /** List every finding of the initial run, not just the totals */
+  verbose?: boolean;
+}
+
+/** Changes within this window are validated together */
+const DEBOUNCE_MS = 100;
+
+/** Validators whose findings in a file depend on other files */
+const CROSS_FILE_VALIDATORS: ValidatorName[] = ['route-authorization'];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Findings per file. Files that call for the same validators are validated
+ * in one engine run.
+ */
+function validateFiles(
+  files: Map<string, string>,
+  allowed: ValidatorName[],
+  options: WatchOptions,
+  cacheDir?: string
+): Map<string, CompareFinding[]> {
+  const groups = new Map<string, Map<string, string>>();
+  for (const [file, content] of files) {
+    const names = selectValidatorsForFile(file).filter(name => allowed.includes(name)).join(',');
+    if (!groups.has(names)) groups.set(names, new Map());
+    groups.get(names)!.set(file, content);
+  }
+
+  const findings = new Map<string, CompareFinding[]>(Array.from(files.keys(), file => [file, []]));
+  for (const [names, groupFiles] of groups) {
+    if (!names) continue;
+    collectInto(findings, groupFiles, names.split(',') as ValidatorName[], options, cacheDir);
+  }
+
+  return findings;
+}
+
+/** Findings per file of the cross-file validators, over all files at once */
+function validateCrossFile(
+  files: Map<string, string>,
+  allowed: ValidatorName[],
+  options: WatchOptions
+): Map<string, CompareFinding[]> {
+  const findings = new Map<string, CompareFinding[]>(Array.from(files.keys(), file => [file, []]));
+  const names = CROSS_FILE_VALIDATORS.filter(name => allowed.includes(name));
+  if (names.length > 0 && files.size > 0) collectInto(findings, files, names, options);
+  return findings;
+}
+
+function collectInto(
+  findings: Map<string, CompareFinding[]>,
+  files: Map<string, string>,
+  names: ValidatorName[],
+  options: WatchOptions,
+  cacheDir?: string
+): void {
+  const summary = runEngine({
+    targetDir: options.targetDir,
+    files,
+    validators: names,
+    config: options.config,
+    jobs: options.jobs,
+    cacheDir,
+  });
+  for (const finding of collectFindings(summary, files)) {
+    findings.get(finding.file)!.push(finding);
+  }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatFinding(marker: '+' | '-', finding: CompareFinding): string {
+  const severity = finding.severity ? finding.severity.toUpperCase() : 'WARNING';
+  return `  ${marker} [${severity}] ${finding.line} ${finding.rule}: ${finding.message}`;
+}
+
+function formatTotals(findings: Map<string, CompareFinding[]>): string {
+  const all = Array.from(findings.values()).flat();
+  const blockers = all.filter(f => f.blocking).length;
+  const violations = all.filter(f => f.severity).length;
+  const warnings = all.length - violations;
+  return `${blockers} blockers, ${violations} violations, ${warnings} warnings in ${findings.size} files`;
+}
+
+/**
+ * Report lines for the findings that appeared (+) or went away (-), per file
+ * in the order of `files`. Files whose findings only moved are left out.
+ */
+export function formatFindingChanges(
+  before: Map<string, CompareFinding[]>,
+  after: Map<string, CompareFinding[]>,
+  files: Iterable<string>
+): string[] {
+  const report: string[] = [];
+  for (const file of new Set(files)) {
+    const { introduced, fixed } = matchFindings(before.get(file) ?? [], after.get(file) ?? []);
+    if (introduced.length === 0 && fixed.length === 0) continue;
+    report.push(file);
+    introduced.forEach(f => report.push(formatFinding('+', f)));
+    fixed.forEach(f => report.push(formatFinding('-', f)));
+  }
+  return report;
+}
+
+function timestamp(): string {
+  return new Date().toTimeString().slice(0, 8);
+}
+
+// ============================================================================
+// WATCHING
+// ============================================================================
+
+/**
+ * Validate the target directory, then watch it. Returns a function that
+ * stops watching.
+ */
+export function startWatch(options: WatchOptions): () => void {
+  const targetDir = path.resolve(options.targetDir);
+  if (!fs.existsSync(targetDir)) {
+    throw new Error(`Directory not found: ${options.targetDir}`);
+  }
+
+  const allowed = selectValidators(
+    {
+      targetDir,
+      validators: options.validators,
+      sopFiles: options.sopFiles,
+      includeGeneral: options.includeGeneral,
+    },
+    options.config
+  );
+
+  const contents = loadDirectory(targetDir, options.include, options.exclude);
+  const fileFindings = validateFiles(contents, allowed, options, options.cacheDir);
+  let crossFindings = validateCrossFile(contents, allowed, options);
+
+  // Every file's findings, per-file and cross-file validators together
+  const findings = new Map<string, CompareFinding[]>();
+  const merge = () => {
+    findings.clear();
+    for (const file of contents.keys()) {
+      findings.set(file, [...(fileFindings.get(file) ?? []), ...(crossFindings.get(file) ?? [])]);
+    }
+  };
+  merge();
+
+  console.log(`Watching ${options.targetDir} (${contents.size} files). Press Ctrl+C to stop.`);
+  if (options.verbose) {
+    for (const [file, fileFindings] of findings) {
+      if (fileFindings.length === 0) continue;
+      console.log(file);
+      fileFindings.forEach(f => console.log(formatFinding('+', f)));
+    }
+  }
+  console.log(formatTotals(findings));
+
+  const watchers = new Map<string, fs.FSWatcher>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const isExcludedDir = (dir: string) => {
+    const relative = path.relative(targetDir, dir);
+    return relative !== '' && options.exclude.some(pattern => matchGlob(`${relative}/`, pattern));
+  };
+
+  // fs.watch is only recursive on some platforms, so watch each directory
+  const watchTree = (dir: string) => {
+    if (watchers.has(dir) || isExcludedDir(dir)) return;
+
+    const watcher = fs.watch(dir, (_event, name) => {
+      if (!name) return;
+      pending.add(path.join(dir, name.toString()));
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, DEBOUNCE_MS);
+    });
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(dir);
+    });
+    watchers.set(dir, watcher);
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) watchTree(path.join(dir, entry.name));
+    }
+  };
+
+  const flush = () => {
+    const changed = new Map<string, string>();
+    const deleted: string[] = [];
+
+    const visit = (fullPath: string) => {
+      const stat = fs.statSync(fullPath, { throwIfNoEntry: false });
+      if (stat?.isDirectory()) {
+        // A new or moved directory: watch it and pick up its files
+        if (isExcludedDir(fullPath)) return;
+        watchTree(fullPath);
+        fs.readdirSync(fullPath).forEach(name => visit(path.join(fullPath, name)));
+        return;
+      }
+
+      const file = path.relative(targetDir, fullPath);
+      if (!matchesFilePatterns(file, options.include, options.exclude)) return;
+
+      if (!stat) {
+        if (contents.has(file)) deleted.push(file);
+        return;
+      }
+      const content = fs.readFileSync(fullPath, 'utf-8');
+      if (content !== contents.get(file)) changed.set(file, content);
+    };
+
+    for (const fullPath of pending) {
+      try {
+        visit(fullPath);
+      } catch (e: any) {
+        console.error(`Warning: Could not read ${fullPath}: ${e.message}`);
+      }
+    }
+    pending.clear();
+    if (changed.size === 0 && deleted.length === 0) return;
+
+    const before = new Map(findings);
+    const updated = validateFiles(changed, allowed, options);
+    for (const [file, content] of changed) {
+      contents.set(file, content);
+      fileFindings.set(file, updated.get(file) ?? []);
+    }
+    for (const file of deleted) {
+      contents.delete(file);
+      fileFindings.delete(file);
+    }
+    crossFindings = validateCrossFile(contents, allowed, options);
+    merge();
+
+    // Changed files first, then files only cross-file findings changed in
+    const report = formatFindingChanges(before, findings, [...changed.keys(), ...deleted, ...contents.keys()]);
+
+    const files = [...changed.keys(), ...deleted];
+    console.log(`[${timestamp()}] ${files.length === 1 ? files[0] : `${files.length} files`} changed`);
+    report.forEach(line => console.log(line));
+    console.log(`  ${formatTotals(findings)}`);
+  };
+
+  watchTree(targetDir);
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+    watchers.clear();
+  };
+}